@@ -0,0 +1,44 @@
+import { TaskData } from "./types";
+
+export interface ScheduleVariance {
+  startVariance: number; // Days the start moved against the baseline; positive is late
+  finishVariance: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toVarianceDays = (current: Date, baseline: Date) => Math.round((current.getTime() - baseline.getTime()) / DAY_MS * 10) / 10;
+
+/**
+ * Start and finish variance against the baseline, or null when the task has no baseline
+ */
+export const getScheduleVariance = (task: TaskData): ScheduleVariance | null => {
+  if (!task.baselineStart || !task.baselineFinish) {
+    return null;
+  }
+
+  return {
+    startVariance: toVarianceDays(task.startDate, task.baselineStart),
+    finishVariance: toVarianceDays(task.finishDate, task.baselineFinish)
+  };
+};
+
+/**
+ * True when the start or finish is more than thresholdDays later than the baseline
+ */
+export const isSlipping = (task: TaskData, thresholdDays: number): boolean => {
+  const variance = getScheduleVariance(task);
+  return !!variance && Math.max(variance.startVariance, variance.finishVariance) > thresholdDays;
+};
+
+/**
+ * Baseline changes that capture the current schedule; tasks whose baseline already matches are skipped
+ */
+export const captureBaseline = (tasks: TaskData[]): { taskId: string; changes: Pick<TaskData, 'baselineStart' | 'baselineFinish'> }[] => {
+  return tasks
+    .filter(task => task.baselineStart?.getTime() !== task.startDate.getTime() || task.baselineFinish?.getTime() !== task.finishDate.getTime())
+    .map(task => ({
+      taskId: task.taskDataId,
+      changes: { baselineStart: new Date(task.startDate), baselineFinish: new Date(task.finishDate) }
+    }));
+};
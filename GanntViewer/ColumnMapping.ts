@@ -0,0 +1,216 @@
+import { IInputs } from "./generated/ManifestTypes";
+
+// TaskData fields that can be pointed at a Dataverse column
+export type TaskField =
+  | 'taskId'
+  | 'taskName'
+  | 'taskNumber'
+  | 'taskPhase'
+  | 'startDate'
+  | 'finishDate'
+  | 'baselineStart'
+  | 'baselineFinish'
+  | 'duration'
+  | 'progress'
+  | 'parentTask'
+  | 'successor'
+  | 'successorUID'
+  | 'dependencyType'
+  | 'taskIndex'
+  | 'wbs'
+  | 'isMilestone'
+  | 'projectId'
+  | 'projectUID';
+
+export interface TaskColumnMapping {
+  tableName: string;
+  columns: Partial<Record<TaskField, string>>;
+}
+
+export interface MappingValidationResult {
+  errors: string[];
+  warnings: string[];
+  invalidFields: TaskField[];
+  lookupFields: TaskField[]; // Mapped columns that are lookups (written with @odata.bind)
+  textFields: TaskField[]; // Mapped columns that hold text; choices stored as text are written by name
+  entitySetName?: string; // Web API collection name of the table, needed to bind lookups
+}
+
+// The parts of a column's metadata the control reads
+export interface AttributeMetadata {
+  LogicalName?: string;
+  AttributeType?: string | number;
+}
+
+interface AttributeCollection {
+  getByName?: (column: string) => AttributeMetadata | undefined;
+  get?: (column: string) => AttributeMetadata | undefined;
+}
+
+// The parts of a table's metadata the control reads
+export interface TableMetadata {
+  EntitySetName?: string;
+  Attributes?: AttributeCollection;
+}
+
+// Columns of the pme_taskdata table shipped with the solution
+export const defaultColumnMapping: TaskColumnMapping = {
+  tableName: 'pme_taskdata',
+  columns: {
+    taskId: 'pme_taskdataid',
+    taskName: 'pme_taskname',
+    taskNumber: 'pme_tasknumber',
+    taskPhase: 'pme_taskphase',
+    startDate: 'pme_startdate',
+    finishDate: 'pme_finishdate',
+    baselineStart: 'pme_baselinestart',
+    baselineFinish: 'pme_baselinefinish',
+    duration: 'pme_duration',
+    progress: 'pme_progress',
+    parentTask: 'pme_parenttask',
+    successor: 'pme_successor',
+    successorUID: 'pme_successoruid',
+    dependencyType: 'pme_dependencytype',
+    taskIndex: 'pme_taskindex',
+    wbs: 'pme_wbs',
+    isMilestone: 'pme_ismilestone',
+    projectId: 'pme_projectid',
+    projectUID: 'pme_projectuid'
+  }
+};
+
+const taskFields = Object.keys(defaultColumnMapping.columns) as TaskField[];
+
+// Fields most tables don't have - missing columns are unmapped without a warning
+const optionalTaskFields: TaskField[] = ['baselineStart', 'baselineFinish', 'isMilestone', 'wbs'];
+
+/**
+ * Parse the columnMapping manifest property.
+ * Expects a JSON object such as {"tableName": "new_task", "startDate": "new_plannedstart"};
+ * fields that are not mentioned keep their default column.
+ */
+export const parseColumnMapping = (rawValue: string | null | undefined): { mapping: TaskColumnMapping; warnings: string[] } => {
+  const warnings: string[] = [];
+  const mapping: TaskColumnMapping = {
+    tableName: defaultColumnMapping.tableName,
+    columns: { ...defaultColumnMapping.columns }
+  };
+
+  if (!rawValue?.trim()) {
+    return { mapping, warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawValue);
+  } catch (error) {
+    warnings.push(`Column mapping is not valid JSON and was ignored: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { mapping, warnings };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    warnings.push('Column mapping must be a JSON object and was ignored');
+    return { mapping, warnings };
+  }
+
+  Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      warnings.push(`Column mapping for "${key}" must be a non-empty string`);
+      return;
+    }
+
+    if (key === 'tableName') {
+      mapping.tableName = value.trim();
+      // A custom table has its own primary key unless one is given explicitly
+      if (!(parsed as Record<string, unknown>).taskId) {
+        mapping.columns.taskId = `${mapping.tableName}id`;
+      }
+    } else if (taskFields.includes(key as TaskField)) {
+      mapping.columns[key as TaskField] = value.trim();
+    } else {
+      warnings.push(`Unknown TaskData field "${key}" in column mapping`);
+    }
+  });
+
+  return { mapping, warnings };
+};
+
+/**
+ * Read the column mapping configured on the control
+ */
+export const getColumnMapping = (context: ComponentFramework.Context<IInputs>): { mapping: TaskColumnMapping; warnings: string[] } => {
+  return parseColumnMapping(context.parameters.columnMapping?.raw);
+};
+
+/**
+ * The progress column holds a percent (0-100); TaskData.progress is a fraction (0-1)
+ */
+export const parseProgressColumn = (value: unknown): number => {
+  const percent = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  return isNaN(percent) ? 0 : Math.min(Math.max(percent / 100, 0), 1);
+};
+
+export const toProgressColumn = (progress: number | undefined): number => Math.round((progress ?? 0) * 100);
+
+/**
+ * Look up a column in entity metadata; the Attributes collection differs between hosts
+ */
+export const getAttributeMetadata = (attributes: AttributeCollection, column: string): AttributeMetadata | undefined =>
+  typeof attributes.getByName === 'function'
+    ? attributes.getByName(column)
+    : typeof attributes.get === 'function' ? attributes.get(column) : (attributes as Record<string, AttributeMetadata | undefined>)[column];
+
+export const isLookupAttribute = (attribute: AttributeMetadata): boolean =>
+  String(attribute.AttributeType).toLowerCase() === 'lookup' || attribute.AttributeType === 6;
+
+// Single and multiple lines of text (String = 14, Memo = 7)
+export const isTextAttribute = (attribute: AttributeMetadata): boolean => {
+  const type = String(attribute.AttributeType).toLowerCase();
+  return type === 'string' || type === 'memo' || attribute.AttributeType === 14 || attribute.AttributeType === 7;
+};
+
+/**
+ * Validate the mapping against the table metadata.
+ * A missing table is an error; missing columns are reported as warnings and
+ * returned in invalidFields so callers can treat them as unmapped.
+ */
+export const validateColumnMapping = async (
+  context: ComponentFramework.Context<IInputs>,
+  mapping: TaskColumnMapping
+): Promise<MappingValidationResult> => {
+  const result: MappingValidationResult = { errors: [], warnings: [], invalidFields: [], lookupFields: [], textFields: [] };
+  const mappedColumns = Array.from(new Set(Object.values(mapping.columns).filter((c): c is string => !!c)));
+
+  let metadata: TableMetadata;
+  try {
+    metadata = await context.utils.getEntityMetadata(mapping.tableName, mappedColumns) as TableMetadata;
+  } catch (error) {
+    result.errors.push(`Table "${mapping.tableName}" could not be found: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return result;
+  }
+
+  result.entitySetName = metadata.EntitySetName;
+
+  const attributes = metadata.Attributes;
+
+  taskFields.forEach(field => {
+    const column = mapping.columns[field];
+    if (!column || !attributes) return; // Metadata shape unknown - don't block loading
+
+    const attribute = getAttributeMetadata(attributes, column);
+    if (!attribute) {
+      result.invalidFields.push(field);
+      if (optionalTaskFields.includes(field)) {
+        console.log(`Optional column "${column}" for ${field} does not exist on ${mapping.tableName}`);
+      } else {
+        result.warnings.push(`Column "${column}" mapped to ${field} does not exist on ${mapping.tableName}`);
+      }
+    } else if (isLookupAttribute(attribute)) {
+      result.lookupFields.push(field);
+    } else if (isTextAttribute(attribute)) {
+      result.textFields.push(field);
+    }
+  });
+
+  return result;
+};
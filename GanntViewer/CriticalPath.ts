@@ -0,0 +1,228 @@
+import { TaskData, TaskLink } from "./types";
+import { getLinkKey } from "./TaskLinks";
+import { WorkCalendar, addWorkingDays, getWorkingDays } from "./WorkCalendar";
+
+export interface TaskScheduleAnalysis {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number; // Working days the task can slip without delaying the project
+  freeFloat: number; // Working days the task can slip without delaying any successor
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  tasks: Map<string, TaskScheduleAnalysis>;
+  criticalLinkKeys: Set<string>; // getLinkKey of links that drive a critical successor
+  cycleTaskIds: string[]; // Tasks in a dependency loop - left out of the analysis
+  projectFinish: Date | null;
+}
+
+export interface CriticalPathOptions {
+  getCalendar?: (task: TaskData) => WorkCalendar; // Durations, lag and float count working days
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FLOAT_TOLERANCE = 0.01; // Days; absorbs rounding of times of day
+
+interface NetworkNode {
+  task: TaskData;
+  duration: number; // Working days
+  addDays: (day: number, delta: number) => number; // Moves a day by working days of the task's calendar
+  daysBetween: (from: number, to: number) => number; // Working days from one day to another, negative when to comes first
+  scheduledStart: number; // Days from the project start
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  predecessors: TaskLink[];
+  successors: TaskLink[];
+}
+
+/**
+ * Earliest start (in days) the link allows its successor, given the predecessor's start and finish in days.
+ * addDays moves a day by lag or duration - plain addition by default, working days with a calendar.
+ */
+export const getLinkRequiredStart = (
+  link: TaskLink,
+  predecessorStart: number,
+  predecessorFinish: number,
+  successorDuration: number,
+  addDays: (day: number, delta: number) => number = (day, delta) => day + delta
+): number => {
+  switch (link.type) {
+    case 'StartToStart': return addDays(predecessorStart, link.lag);
+    case 'FinishToFinish': return addDays(addDays(predecessorFinish, link.lag), -successorDuration);
+    case 'StartToFinish': return addDays(addDays(predecessorStart, link.lag), -successorDuration);
+    default: return addDays(predecessorFinish, link.lag);
+  }
+};
+
+/**
+ * Latest finish of the predecessor allowed by one link, given the successor's late dates
+ */
+const getLinkLateFinish = (link: TaskLink, predecessor: NetworkNode, successor: NetworkNode): number => {
+  const { addDays } = predecessor;
+  switch (link.type) {
+    case 'StartToStart': return addDays(addDays(successor.lateStart, -link.lag), predecessor.duration);
+    case 'FinishToFinish': return addDays(successor.lateFinish, -link.lag);
+    case 'StartToFinish': return addDays(addDays(successor.lateFinish, -link.lag), predecessor.duration);
+    default: return addDays(successor.lateStart, -link.lag);
+  }
+};
+
+/**
+ * Days the predecessor can slip before this link moves the successor
+ */
+const getLinkSlack = (link: TaskLink, predecessor: NetworkNode, successor: NetworkNode): number => {
+  const { addDays, daysBetween } = predecessor;
+  switch (link.type) {
+    case 'StartToStart': return daysBetween(addDays(predecessor.earlyStart, link.lag), successor.earlyStart);
+    case 'FinishToFinish': return daysBetween(addDays(predecessor.earlyFinish, link.lag), successor.earlyFinish);
+    case 'StartToFinish': return daysBetween(addDays(predecessor.earlyStart, link.lag), successor.earlyFinish);
+    default: return daysBetween(addDays(predecessor.earlyFinish, link.lag), successor.earlyStart);
+  }
+};
+
+/**
+ * Critical path analysis over the tasks and their links.
+ * A task never starts before its own start date (tasks without predecessors keep their dates),
+ * and the project finishes when its last task does. Summary tasks are left out of the network;
+ * links to or from them are ignored. With a calendar, durations, lag and float are counted in
+ * working days, the same way rescheduling counts them.
+ */
+export const calculateCriticalPath = (tasks: TaskData[], links: TaskLink[], options: CriticalPathOptions = {}): CriticalPathResult => {
+  const result: CriticalPathResult = { tasks: new Map(), criticalLinkKeys: new Set(), cycleTaskIds: [], projectFinish: null };
+  const networkTasks = tasks.filter(task => !task.isSummaryTask);
+
+  if (networkTasks.length === 0) {
+    return result;
+  }
+
+  const projectStart = Math.min(...networkTasks.map(task => task.startDate.getTime()));
+  const toDays = (date: Date) => (date.getTime() - projectStart) / DAY_MS;
+  const toDate = (days: number) => new Date(projectStart + days * DAY_MS);
+
+  const nodes = new Map<string, NetworkNode>();
+  networkTasks.forEach(task => {
+    const calendar = options.getCalendar?.(task);
+    const addDays = calendar
+      ? (day: number, delta: number) => toDays(addWorkingDays(calendar, toDate(day), delta))
+      : (day: number, delta: number) => day + delta;
+    const daysBetween = calendar
+      ? (from: number, to: number) => to >= from
+        ? getWorkingDays(calendar, toDate(from), toDate(to))
+        : -getWorkingDays(calendar, toDate(to), toDate(from))
+      : (from: number, to: number) => to - from;
+
+    const scheduledStart = toDays(task.startDate);
+    const duration = Math.max(0, daysBetween(scheduledStart, toDays(task.finishDate)));
+    nodes.set(task.taskDataId, {
+      task,
+      duration,
+      addDays,
+      daysBetween,
+      scheduledStart,
+      earlyStart: scheduledStart,
+      earlyFinish: addDays(scheduledStart, duration),
+      lateStart: 0,
+      lateFinish: 0,
+      predecessors: [],
+      successors: []
+    });
+  });
+
+  links.forEach(link => {
+    const predecessor = nodes.get(link.predecessorId);
+    const successor = nodes.get(link.successorId);
+    if (predecessor && successor && predecessor !== successor) {
+      predecessor.successors.push(link);
+      successor.predecessors.push(link);
+    }
+  });
+
+  // Topological order (Kahn); whatever is left over sits in a loop
+  const remainingPredecessors = new Map<string, number>();
+  nodes.forEach((node, id) => remainingPredecessors.set(id, node.predecessors.length));
+  const queue = Array.from(nodes.keys()).filter(id => remainingPredecessors.get(id) === 0);
+  const order: NetworkNode[] = [];
+
+  while (queue.length > 0) {
+    const node = nodes.get(queue.shift()!)!;
+    order.push(node);
+    node.successors.forEach(link => {
+      const count = remainingPredecessors.get(link.successorId)! - 1;
+      remainingPredecessors.set(link.successorId, count);
+      if (count === 0) queue.push(link.successorId);
+    });
+  }
+
+  if (order.length < nodes.size) {
+    const ordered = new Set(order.map(node => node.task.taskDataId));
+    result.cycleTaskIds = Array.from(nodes.keys()).filter(id => !ordered.has(id));
+    console.warn(`Dependency loop between ${result.cycleTaskIds.length} tasks - they are left out of the critical path`);
+    result.cycleTaskIds.forEach(id => nodes.delete(id));
+    order.forEach(node => {
+      node.successors = node.successors.filter(link => nodes.has(link.successorId));
+    });
+  }
+
+  if (order.length === 0) {
+    return result;
+  }
+
+  // Forward pass
+  order.forEach(node => {
+    node.predecessors.forEach(link => {
+      const predecessor = nodes.get(link.predecessorId)!;
+      node.earlyStart = Math.max(node.earlyStart, getLinkRequiredStart(link, predecessor.earlyStart, predecessor.earlyFinish, node.duration, node.addDays));
+    });
+    node.earlyFinish = node.addDays(node.earlyStart, node.duration);
+  });
+
+  const projectFinish = Math.max(...order.map(node => node.earlyFinish));
+  result.projectFinish = toDate(projectFinish);
+
+  // Backward pass
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = order[i];
+    node.lateFinish = projectFinish;
+    node.successors.forEach(link => {
+      const successor = nodes.get(link.successorId)!;
+      node.lateFinish = Math.min(node.lateFinish, getLinkLateFinish(link, node, successor));
+    });
+    node.lateStart = node.addDays(node.lateFinish, -node.duration);
+  }
+
+  order.forEach(node => {
+    const totalFloat = node.daysBetween(node.earlyStart, node.lateStart);
+    const freeFloat = node.successors.length > 0
+      ? Math.min(...node.successors.map(link => getLinkSlack(link, node, nodes.get(link.successorId)!)))
+      : node.daysBetween(node.earlyFinish, projectFinish);
+
+    result.tasks.set(node.task.taskDataId, {
+      earlyStart: toDate(node.earlyStart),
+      earlyFinish: toDate(node.earlyFinish),
+      lateStart: toDate(node.lateStart),
+      lateFinish: toDate(node.lateFinish),
+      totalFloat: Math.round(totalFloat * 100) / 100,
+      freeFloat: Math.round(Math.max(0, freeFloat) * 100) / 100,
+      isCritical: totalFloat <= FLOAT_TOLERANCE
+    });
+  });
+
+  // A link is critical when it connects two critical tasks and leaves no slack
+  order.forEach(node => {
+    node.successors.forEach(link => {
+      const successor = nodes.get(link.successorId)!;
+      if (result.tasks.get(node.task.taskDataId)?.isCritical
+        && result.tasks.get(successor.task.taskDataId)?.isCritical
+        && getLinkSlack(link, node, successor) <= FLOAT_TOLERANCE) {
+        result.criticalLinkKeys.add(getLinkKey(link.predecessorId, link.successorId));
+      }
+    });
+  });
+
+  return result;
+};
@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { TaskData } from './types';
+import { TaskStore } from './TaskStore';
 
 interface ICustomGanttProps {
   tasks: TaskData[];
@@ -34,6 +35,7 @@ interface TaskHierarchy {
 export class CustomGanttChart extends React.Component<ICustomGanttProps, ICustomGanttState> {
   private containerRef: React.RefObject<HTMLDivElement>;
   private timelineRef: React.RefObject<HTMLDivElement>;
+  private taskStore = new TaskStore();
 
   constructor(props: ICustomGanttProps) {
     super(props);
@@ -161,22 +163,26 @@ export class CustomGanttChart extends React.Component<ICustomGanttProps, ICustom
     );
   };
 
+  /**
+   * Index over the current tasks, brought up to date with the props on each call
+   */
+  private getTaskStore = (): TaskStore => {
+    this.taskStore.setTasks(this.props.tasks);
+    return this.taskStore;
+  };
+
   private buildHierarchy = (): TaskHierarchy[] => {
-    const { tasks } = this.props;
+    const store = this.getTaskStore();
     const { expandedTasks } = this.state;
     
-    const taskMap = new Map<string, TaskData>();
     const rootTasks: TaskHierarchy[] = [];
     
-    // Create task map
-    tasks.forEach(task => taskMap.set(task.taskDataId, task));
-    
     // Build hierarchy tree
     const buildTaskHierarchy = (task: TaskData, level: number): TaskHierarchy => {
       const children: TaskHierarchy[] = [];
       
       // Find direct children
-      const directChildren = tasks.filter(t => t.parentTask === task.taskDataId);
+      const directChildren = store.getChildren(task.taskDataId);
       
       // Build children hierarchies
       directChildren.forEach(child => {
@@ -192,8 +198,8 @@ export class CustomGanttChart extends React.Component<ICustomGanttProps, ICustom
       };
     };
     
-    // Start with root tasks (no parent)
-    const roots = tasks.filter(task => !task.parentTask);
+    // Start with root tasks (no loaded parent)
+    const roots = store.getRootTasks();
     roots.forEach(rootTask => {
       rootTasks.push(buildTaskHierarchy(rootTask, 0));
     });
@@ -324,7 +330,7 @@ export class CustomGanttChart extends React.Component<ICustomGanttProps, ICustom
     const { columnWidths, expandedTasks } = this.state;
     const level = (task as any).level || 0;
     const isExpanded = expandedTasks.has(task.taskDataId);
-    const hasChildren = this.props.tasks.some(t => t.parentTask === task.taskDataId);
+    const hasChildren = this.getTaskStore().hasChildren(task.taskDataId);
     
     const rowStyle: React.CSSProperties = {
       display: 'flex',
@@ -1,310 +1,460 @@
 import { IInputs } from "./generated/ManifestTypes";
-import { TaskData } from "./types";
-
-export class DataverseService {
+import { DependencyType, TaskData, TaskLink } from "./types";
+import { TaskColumnMapping, TaskField, MappingValidationResult, getColumnMapping, parseProgressColumn, toProgressColumn, validateColumnMapping } from "./ColumnMapping";
+import { TaskWriter } from "./PendingChanges";
+import { LinkField, LinkTableMapping, getLinkTableMapping, validateLinkTableMapping } from "./TaskLinks";
+import { CalendarSettings, addHoliday, addWorkingDays, getCalendarSettings, getTaskCalendar, getWorkingDuration, toDateKey } from "./WorkCalendar";
+import { MarkerSettings, TimelineMarker, createMarker, getMarkerSettings } from "./TimelineMarkers";
+import { GridExtraColumn } from "./GridColumns";
+import DataSetInterfaces = ComponentFramework.PropertyHelper.DataSetApi;
+type DataSet = ComponentFramework.PropertyTypes.DataSet;
+
+export class DataverseService implements TaskWriter {
   private context: ComponentFramework.Context<IInputs>;
-  private pageSize: number = 50; // Reduced default page size for better performance
-  private totalRecords: number = 0;
-  private allLoadedTasks: TaskData[] = [];
+  private pageSize = 5000; // Largest page the dataset paging API allows
+  private maxRecords = 10000; // Stop paging once this many tasks are loaded
+  private lookupBatchSize = 50; // Ids per lookup query, keeps the filter well within URL length limits
   private entityName: string = "";
-  private cache: Map<string, TaskData[]> = new Map(); // Cache by cursor
-  private lastFetchTime: number = 0;
-  private cacheExpiry: number = 5 * 60 * 1000; // 5 minutes cache
-  private lastLoadedDate: string | null = null; // For cursor-based pagination
-  private hasMoreData: boolean = true;
-  private retryCount: number = 0;
-  private maxRetries: number = 3;
+  private mapping: TaskColumnMapping;
+  private mappingWarnings: string[] = [];
+  private entitySetName = "";
+  private lookupFields = new Set<TaskField>(['parentTask']);
+  private textFields = new Set<TaskField>();
+  private optionValues = new Map<string, Map<string, number>>(); // Per table.column, the option value each choice was read with
+  private linkMapping: LinkTableMapping | null; // Null when links come from the successor column
+  private linkLookupFields = new Set<LinkField>(['predecessor', 'successor']);
+  private linkTextFields = new Set<LinkField>();
+  private calendarSettings: CalendarSettings;
+  private markerSettings: MarkerSettings;
 
   constructor(context: ComponentFramework.Context<IInputs>) {
     this.context = context;
+    const { mapping, warnings } = getColumnMapping(context);
+    this.mapping = mapping;
+    this.mappingWarnings = warnings;
+    
+    const linkSettings = getLinkTableMapping(context);
+    this.linkMapping = linkSettings.mapping;
+    this.mappingWarnings.push(...linkSettings.warnings);
+    
+    const calendarSettings = getCalendarSettings(context);
+    this.calendarSettings = calendarSettings.settings;
+    this.mappingWarnings.push(...calendarSettings.warnings);
+    
+    const markerSettings = getMarkerSettings(context);
+    this.markerSettings = markerSettings.settings;
+    this.mappingWarnings.push(...markerSettings.warnings);
   }
 
   /**
-   * Fetch TaskData records from Dataverse with cursor-based pagination
-   * Uses createdon field for pagination instead of $skip which isn't supported in Dataverse
+   * Working days and holidays per project, including holidays loaded from the holiday table
    */
-  public async fetchTaskData(isLoadMore: boolean = false, pageSize: number = 50): Promise<TaskData[]> {
-    try {
-      // Reset cursor if this is not a load more operation
-      if (!isLoadMore) {
-        this.lastLoadedDate = null;
-        this.hasMoreData = true;
-        this.cache.clear();
-        this.retryCount = 0;
-      }
+  public get calendars(): CalendarSettings {
+    return this.calendarSettings;
+  }
 
-      // Use smaller page size if we've had retry issues
-      if (this.retryCount > 0) {
-        pageSize = Math.max(10, Math.floor(pageSize / 2));
-        console.log(`Reduced page size to ${pageSize} due to previous errors`);
-      }
+  /**
+   * Today line, status date and date markers, including markers loaded from the marker table
+   */
+  public get markers(): MarkerSettings {
+    return this.markerSettings;
+  }
 
-      // Check cache first
-      const cacheKey = isLoadMore ? `more-${this.lastLoadedDate}` : 'initial';
-      const now = Date.now();
-      
-      if (this.cache.has(cacheKey) && (now - this.lastFetchTime) < this.cacheExpiry) {
-        console.log(`Returning cached data for ${cacheKey}`);
-        return this.cache.get(cacheKey)!;
-      }
+  /**
+   * True when dependencies are stored in a separate link table
+   */
+  public get usesLinkTable(): boolean {
+    return this.linkMapping !== null;
+  }
 
-      this.pageSize = pageSize;
-      
-      // If this is the first call, determine the entity name
-      if (!this.entityName) {
-        await this.determineEntityName();
-      }
-      
-      // Build query with cursor-based pagination (no $skip - not supported in Dataverse)
-      let query = `?$select=*&$orderby=pme_taskindex asc&$top=${pageSize}`;
-      
-     // Add cursor filter for load more operations
-      if (isLoadMore && this.lastLoadedDate) {
-        // Format the date properly for OData filter
-        const isoDate = new Date(this.lastLoadedDate).toISOString();
-        query += `&$filter=createdon lt ${isoDate}`;
-      }
-      // Add count only for the first request
-      if (!isLoadMore) {
-        query += `&$count=true`;
-      }
-      
-      console.log(`Fetching ${isLoadMore ? 'more' : 'initial'} data with query: ${query}`);
-      
-      const response = await this.context.webAPI.retrieveMultipleRecords(this.entityName, query);
+  /**
+   * Keep the latest context so supplementary lookups use the current webAPI instance
+   */
+  public setContext(context: ComponentFramework.Context<IInputs>): void {
+    this.context = context;
+  }
 
-      console.log(`Fetched ${response.entities.length} records`);
-      
-      // Reset retry count on successful fetch
-      this.retryCount = 0;
-      
-      // Store total count for pagination info (only available on first request)
-      if ((response as any)['@odata.count'] !== undefined) {
-        this.totalRecords = (response as any)['@odata.count'];
-      }
-      
-      // Check if we have more data
-      this.hasMoreData = response.entities.length === pageSize;
-      
-      // Update cursor for next request
-      if (response.entities.length > 0) {
-        const lastEntity = response.entities[response.entities.length - 1];
-        this.lastLoadedDate = lastEntity.createdon;
-      }
-      
-      // Transform Dataverse records to TaskData format
-      const taskData: TaskData[] = response.entities.map((record: any, index: number) => {
-        const globalIndex = this.allLoadedTasks.length + index;
-        console.log(`Processing record ${globalIndex + 1}:`, record);
-        
-        return this.transformRecord(record, globalIndex);
-      });
+  /**
+   * True when the field has a column to be saved to
+   */
+  public isFieldMapped(field: TaskField): boolean {
+    return !!this.mapping.columns[field];
+  }
 
-      // Cache the results
-      this.cache.set(cacheKey, taskData);
-      this.lastFetchTime = now;
+  /**
+   * Validate the configured column mapping against the table metadata.
+   * The table is the one the bound dataset targets; columns that don't exist
+   * are unmapped so their fields fall back to defaults.
+   */
+  public async initialize(dataset: DataSet): Promise<MappingValidationResult> {
+    const targetEntity = dataset.getTargetEntityType();
+    if (targetEntity && targetEntity !== this.mapping.tableName) {
+      console.log(`Using dataset table ${targetEntity} instead of mapped table ${this.mapping.tableName}`);
+      this.mapping.tableName = targetEntity;
+    }
+    
+    const validation = await validateColumnMapping(this.context, this.mapping);
+    
+    validation.invalidFields.forEach(field => {
+      delete this.mapping.columns[field];
+    });
+    
+    this.entityName = this.mapping.tableName;
+    this.entitySetName = validation.entitySetName ?? `${this.mapping.tableName}s`;
+    if (validation.errors.length === 0) {
+      this.lookupFields = new Set(validation.lookupFields);
+    }
+    this.textFields = new Set(validation.textFields);
+    
+    const linkWarnings = await this.initializeLinkTable();
+    const calendarWarnings = await this.loadHolidays();
+    const markerWarnings = await this.loadMarkers();
+    
+    const result: MappingValidationResult = {
+      ...validation,
+      warnings: [...this.mappingWarnings, ...validation.warnings, ...linkWarnings, ...calendarWarnings, ...markerWarnings]
+    };
+    
+    if (result.errors.length > 0 || result.warnings.length > 0) {
+      console.warn('Column mapping validation:', result);
+    }
+    
+    return result;
+  }
 
-      console.log(`Processed ${taskData.length} tasks`);
-      return taskData;
-    } catch (error) {
-      console.error('Error fetching TaskData from Dataverse:', error);
-      
-      // Increment retry count and try with smaller batch size
-      this.retryCount++;
+  /**
+   * Validate the configured link table. If it can't be used, links are read from the successor column.
+   */
+  private async initializeLinkTable(): Promise<string[]> {
+    if (!this.linkMapping) {
+      return [];
+    }
+    
+    const validation = await validateLinkTableMapping(this.context, this.linkMapping);
+    if (validation.errors.length > 0) {
+      this.linkMapping = null;
+      return [...validation.errors, 'Dependencies are read from the successor column instead of the dependency table'];
+    }
+    
+    if (validation.lookupFields.length > 0) {
+      this.linkLookupFields = new Set(validation.lookupFields);
+    }
+    this.linkTextFields = new Set(validation.textFields);
+    
+    return validation.warnings;
+  }
+
+  /**
+   * Add the holidays of the configured holiday table to the calendars.
+   * A failing table only costs its holidays - durations still use the working days.
+   */
+  private async loadHolidays(): Promise<string[]> {
+    const table = this.calendarSettings.holidayTable;
+    if (!table) {
+      return [];
+    }
+    
+    try {
+      // The project column is a lookup, which the Web API only selects as _<column>_value
+      const columns = [table.date, table.project ? `_${table.project}_value` : null].filter((c): c is string => !!c);
+      let options = `?$select=${columns.join(',')}`;
+      let count = 0;
       
-      if (this.retryCount <= this.maxRetries && pageSize > 10) {
-        console.log(`Retrying with smaller batch size (attempt ${this.retryCount}/${this.maxRetries})`);
-        return this.fetchTaskData(isLoadMore, Math.floor(pageSize / 2));
+      while (options && count < this.maxRecords) {
+        const result = await this.context.webAPI.retrieveMultipleRecords(table.tableName, options, this.pageSize);
+        result.entities.forEach(record => {
+          const date = this.parseDate(record[table.date]);
+          if (!date) return;
+          
+          const project = table.project ? this.getFieldValue(record, [`_${table.project}_value`]) : null;
+          addHoliday(this.calendarSettings, toDateKey(date), project ? this.normalizeId(project) : undefined);
+          count++;
+        });
+        options = result.nextLink ? `?${result.nextLink.split('?')[1]}` : '';
       }
       
-      throw error;
+      console.log(`Loaded ${count} holidays from ${table.tableName}`);
+      return [];
+    } catch (error) {
+      console.error('Error loading holiday table:', error);
+      return [`Holidays could not be loaded from ${table.tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`];
     }
   }
 
   /**
-   * Load more data (for infinite scrolling)
+   * Add the records of the configured marker table to the markers.
+   * A failing table only costs its markers.
    */
-  public async loadMoreData(): Promise<TaskData[]> {
-    if (!this.hasMoreData) {
-      console.log('No more data to load');
+  private async loadMarkers(): Promise<string[]> {
+    const table = this.markerSettings.markerTable;
+    if (!table) {
       return [];
     }
-
-    const newTasks = await this.fetchTaskData(true, this.pageSize);
-    this.allLoadedTasks.push(...newTasks);
-    return newTasks;
+    
+    try {
+      const columns = [table.label, table.date, table.endDate, table.color, table.tooltip].filter((c): c is string => !!c);
+      let options = `?$select=${columns.join(',')}`;
+      const markers: TimelineMarker[] = [];
+      let recordCount = 0;
+      
+      while (options && recordCount < this.maxRecords) {
+        const result = await this.context.webAPI.retrieveMultipleRecords(table.tableName, options, this.pageSize);
+        result.entities.forEach(record => {
+          const marker = createMarker(`${table.tableName}-${recordCount++}`, {
+            label: record[table.label],
+            date: record[table.date],
+            endDate: table.endDate ? record[table.endDate] : undefined,
+            color: table.color ? record[table.color] : undefined,
+            tooltip: table.tooltip ? record[table.tooltip] : undefined
+          });
+          if (marker) markers.push(marker);
+        });
+        options = result.nextLink ? `?${result.nextLink.split('?')[1]}` : '';
+      }
+      
+      this.markerSettings.markers = [...this.markerSettings.markers, ...markers];
+      console.log(`Loaded ${markers.length} timeline markers from ${table.tableName}`);
+      return [];
+    } catch (error) {
+      console.error('Error loading marker table:', error);
+      return [`Timeline markers could not be loaded from ${table.tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`];
+    }
   }
 
   /**
-   * Get pagination info
+   * Make sure the dataset retrieves every mapped column and uses large pages.
+   * Returns true when the dataset has to be refreshed for the changes to apply.
    */
-  public getPaginationInfo() {
-    return {
-      pageSize: this.pageSize,
-      totalRecords: this.totalRecords,
-      loadedRecords: this.allLoadedTasks.length,
-      hasMore: this.hasMoreData,
-      lastLoadedDate: this.lastLoadedDate
-    };
+  public prepareDataSet(dataset: DataSet): boolean {
+    let needsRefresh = false;
+    
+    const availableColumns = new Set(dataset.columns.map(column => column.name));
+    const mappedColumns = Object.values(this.mapping.columns).filter((c): c is string => !!c);
+    
+    mappedColumns.forEach(column => {
+      if (!availableColumns.has(column) && dataset.addColumn) {
+        console.log(`Adding mapped column ${column} to the dataset`);
+        dataset.addColumn(column);
+        needsRefresh = true;
+      }
+    });
+    
+    if (dataset.paging.pageSize < this.pageSize) {
+      dataset.paging.setPageSize(this.pageSize);
+      needsRefresh = true;
+    }
+    
+    return needsRefresh;
   }
 
   /**
-   * Clear cache
+   * Request the next page of the dataset if there is one and we are below the record cap.
+   * Returns true when a page was requested (new data arrives in another updateView cycle).
    */
-  public clearCache(): void {
-    this.cache.clear();
-    this.lastFetchTime = 0;
-    console.log('Cache cleared');
+  public loadNextPage(dataset: DataSet): boolean {
+    const loadedRecords = dataset.sortedRecordIds.length;
+    
+    if (dataset.paging.hasNextPage && loadedRecords < this.maxRecords) {
+      console.log(`Loaded ${loadedRecords} of ${dataset.paging.totalResultCount} records, requesting next page`);
+      dataset.paging.loadNextPage();
+      return true;
+    }
+    
+    return false;
   }
 
   /**
-   * Get cache statistics
+   * Get pagination info
    */
-  public getCacheStats() {
+  public getPaginationInfo(dataset: DataSet) {
     return {
-      cachedPages: this.cache.size,
-      lastFetchTime: this.lastFetchTime,
-      cacheAge: Date.now() - this.lastFetchTime,
-      isExpired: (Date.now() - this.lastFetchTime) > this.cacheExpiry
+      pageSize: dataset.paging.pageSize,
+      totalRecords: dataset.paging.totalResultCount,
+      loadedRecords: dataset.sortedRecordIds.length,
+      hasMore: dataset.paging.hasNextPage,
+      maxRecords: this.maxRecords
     };
   }
 
   /**
-   * Force refresh data (clears cache and fetches fresh data)
+   * Columns of the view that aren't mapped to a TaskData field, in view order - offered as extra grid columns
    */
-  public async refreshData(pageSize: number = 100): Promise<TaskData[]> {
-    this.clearCache();
-    this.allLoadedTasks = [];
-    return await this.fetchTaskData(false, pageSize);
+  public getExtraColumns(dataset: DataSet): GridExtraColumn[] {
+    const mappedColumns = new Set(Object.values(this.mapping.columns).filter((c): c is string => !!c));
+    
+    return dataset.columns
+      .filter(column => !mappedColumns.has(column.name))
+      .sort((a, b) => a.order - b.order)
+      .map(column => ({ name: column.name, displayName: column.displayName }));
   }
 
   /**
-   * Determine the correct entity name
+   * Transform the dataset records (in the order of the view's sorting) to TaskData
    */
-  private async determineEntityName(): Promise<void> {
-    const possibleEntityNames = [
-      "pme_taskdata",      // From the form you're creating (primary)
-      "pme_TaskData",      // Mixed case variant
-      "TaskData",          // Just the display name
-      "taskdata",          // singular without prefix
-      "pme_taskdatas",     // plural with prefix
-      "taskdatas",         // plural without prefix
-      "cr6d4_taskdata",    // different prefix pattern
-      "new_taskdata"       // another common prefix
-    ];
+  public transformDataSet(dataset: DataSet): TaskData[] {
+    const mappedColumns = Object.values(this.mapping.columns).filter((c): c is string => !!c);
+    const extraColumns = this.getExtraColumns(dataset);
+    
+    const taskData = dataset.sortedRecordIds.map((recordId, index) => {
+      const record = dataset.records[recordId];
+      const rawRecord = this.readDataSetRecord(record, mappedColumns);
+      const task = this.transformRecord(rawRecord, index);
+      
+      if (extraColumns.length > 0) {
+        task.extraFields = {};
+        extraColumns.forEach(column => {
+          task.extraFields![column.name] = record.getFormattedValue(column.name) ?? '';
+        });
+      }
+      return task;
+    });
     
-    console.log('Attempting to determine entity name from possible options:', possibleEntityNames);
+    console.log(`Processed ${taskData.length} tasks from dataset`);
+    return taskData;
+  }
+
+  /**
+   * Read the mapped columns of a dataset record into a plain object shaped like a Web API record
+   */
+  private readDataSetRecord(record: DataSetInterfaces.EntityRecord, columns: string[]): Record<string, unknown> {
+    const rawRecord: Record<string, unknown> = {};
     
-    // Try each possible entity name
-    for (const name of possibleEntityNames) {
-      try {
-        console.log(`Testing entity name: ${name}`);
-        // Test with a simple query first
-        const testQuery = `?$select=*&$top=1`;
-        await this.context.webAPI.retrieveMultipleRecords(name, testQuery);
-        this.entityName = name;
-        console.log(`✅ Found entity: ${this.entityName}`);
+    columns.forEach(column => {
+      const value = record.getValue(column);
+      if (value === null || value === undefined || value === '') {
         return;
-      } catch (error) {
-        console.log(`❌ Entity ${name} not found:`, error);
-        continue;
       }
-    }
-    
-    // If we get here, none of the entity names worked
-    console.error('All entity name attempts failed. Available entities might be:');
+      
+      // Lookups come back as entity references - keep only the referenced id
+      if (typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value)) {
+        rawRecord[column] = 'id' in value && typeof value.id === 'object' ? value.id.guid : value.id;
+      } else {
+        rawRecord[column] = value;
+      }
+    });
     
-    // Try to get a list of available entities for debugging
-    try {
-      const metadata = await this.context.webAPI.retrieveMultipleRecords('EntityDefinition', '?$select=LogicalName,DisplayName&$filter=IsCustomEntity eq true&$top=20');
-      console.log('Available custom entities:', metadata.entities.map((e: any) => ({ LogicalName: e.LogicalName, DisplayName: e.DisplayName })));
-    } catch (metaError) {
-      console.log('Could not retrieve entity metadata:', metaError);
+    if (this.mapping.columns.taskId) {
+      rawRecord[this.mapping.columns.taskId] = record.getRecordId();
     }
     
-    throw new Error(`Could not find TaskData entity. Please ensure the 'pme_taskdata' table exists in your Dataverse environment. If you just created it, wait a few minutes for it to be available.`);
+    return rawRecord;
   }
 
   /**
    * Transform a record to TaskData format
-   */
-// ...existing code...
-
-  /**
-   * Transform a record to TaskData format
+   * Reads the schedule columns from the record and only falls back to defaults
+   * when a column is missing, flagging the task as incomplete in that case.
    */
   private transformRecord(record: any, index: number): TaskData {
-    // Log the raw record structure for debugging
-    console.log(`Raw record ${index}:`, record);
+    const incompleteFields: string[] = [];
+    
+    const taskId = this.normalizeId(this.getMappedValue(record, 'taskId')) || `task-${index}`;
+    const taskName = this.getMappedValue(record, 'taskName') || `Task ${index + 1}`;
+    const taskNumber = this.getMappedValue(record, 'taskNumber');
+    
+    const parentTask = this.normalizeId(this.getMappedValue(record, 'parentTask')) || undefined;
     
-    // Get task ID - your data shows 'id' field
-    const taskId = record.id || record.pme_taskdataid || `task-${index}`;
+    const successor = this.getMappedValue(record, 'successor') || undefined;
+    const successorUID = this.getMappedValue(record, 'successorUID') || undefined;
+    const dependencyTypeValue: unknown = this.getMappedValue(record, 'dependencyType');
+    const dependencyType = this.mapDependencyType(dependencyTypeValue);
+    this.rememberOptionValue(this.entityName, this.mapping.columns.dependencyType, dependencyType, dependencyTypeValue);
     
-    // Get task name - your data shows 'name' field  
-    const taskName = record.name || record.pme_taskname || `Task ${index + 1}`;
+    // Phase choice column; only guess from the task name when the column is missing
+    const phaseValue = this.getMappedValue(record, 'taskPhase');
+    if (phaseValue === null) {
+      incompleteFields.push(this.mapping.columns.taskPhase ?? 'taskPhase');
+    }
+    const taskPhase = phaseValue !== null ? this.mapTaskPhase(phaseValue) : this.determinePhaseFromName(taskName);
+    this.rememberOptionValue(this.entityName, this.mapping.columns.taskPhase, taskPhase, phaseValue);
+    
+    const projectId = this.getMappedValue(record, 'projectId') || '';
+    const projectUID = this.getMappedValue(record, 'projectUID') || '';
+    const calendar = getTaskCalendar(this.calendarSettings, { projectId, projectUID });
     
-    // Get parent task - your data shows 'parent' field
-    const parentTask = record.parent || record.pme_parenttask;
+    // Schedule columns
+    const recordStart = this.parseDate(this.getMappedValue(record, 'startDate'));
+    const recordFinish = this.parseDate(this.getMappedValue(record, 'finishDate'));
+    const durationValue = parseFloat(this.getMappedValue(record, 'duration'));
+    const recordDuration = isNaN(durationValue) ? null : durationValue;
+    
+    if (!recordStart) {
+      incompleteFields.push(this.mapping.columns.startDate ?? 'startDate');
+    }
+    if (!recordFinish) {
+      incompleteFields.push(this.mapping.columns.finishDate ?? 'finishDate');
+    }
     
-    // Get successor information - check various possible field names
-    const successor = record.successor || record.pme_successor || record.successorId || record.successor_id;
-    const successorUID = record.successorUID || record.pme_successoruid || record.successor_uid;
-    const dependencyType = record.dependencyType || record.pme_dependencytype || record.dependency_type;
+    const fallbackDuration = recordDuration ?? 1; // Working days
+    let startDate: Date;
+    let finishDate: Date;
+    
+    if (recordStart && recordFinish) {
+      startDate = recordStart;
+      finishDate = recordFinish;
+    } else if (recordStart) {
+      startDate = recordStart;
+      finishDate = addWorkingDays(calendar, recordStart, fallbackDuration);
+    } else if (recordFinish) {
+      finishDate = recordFinish;
+      startDate = addWorkingDays(calendar, recordFinish, -fallbackDuration);
+    } else {
+      // No schedule at all - anchor on the creation date so the bar is still visible
+      startDate = this.parseDate(this.getFieldValue(record, ['createdon'])) ?? new Date();
+      finishDate = addWorkingDays(calendar, startDate, fallbackDuration);
+    }
     
-    // Since your data doesn't have dates, let's generate reasonable defaults
-    const baseDate = new Date('2024-01-01');
-    const startDate = new Date(baseDate);
-    startDate.setDate(startDate.getDate() + (index * 7)); // Spread tasks over time
+    const baselineStart = this.parseDate(this.getMappedValue(record, 'baselineStart')) ?? undefined;
+    const baselineFinish = this.parseDate(this.getMappedValue(record, 'baselineFinish')) ?? undefined;
     
-    const finishDate = new Date(startDate);
-    finishDate.setDate(finishDate.getDate() + 14); // Default 14 day duration
+    const duration = recordDuration ?? getWorkingDuration(calendar, startDate, finishDate);
+    const progress = parseProgressColumn(this.getMappedValue(record, 'progress'));
     
-    // Determine if this is a summary task based on whether it has children
-    const isSummaryTask = this.hasPotentialChildren(record, index);
+    // Milestones have no length; without a milestone column a zero duration marks them
+    const milestoneValue = this.getMappedValue(record, 'isMilestone');
+    const isMilestone = milestoneValue !== null
+      ? this.parseBoolean(milestoneValue)
+      : recordDuration === 0 || (!!recordStart && !!recordFinish && recordStart.getTime() === recordFinish.getTime());
     
     // Get task index for sorting
-    const taskIndex = record.pme_taskindex || record.taskindex || index;
+    const indexValue = parseInt(this.getMappedValue(record, 'taskIndex'));
+    const taskIndex = isNaN(indexValue) ? index : indexValue;
+    const wbs = this.getMappedValue(record, 'wbs') || undefined;
     
-    console.log(`Transform record ${index}: 
-      taskId=${taskId}, 
-      taskName=${taskName}
-      isSummaryTask=${isSummaryTask}, 
-      parentTask=${parentTask}, 
-      taskIndex=${taskIndex},
-      successor=${successor},
-      successorUID=${successorUID},
-      dependencyType=${dependencyType}`);
-    
-    // Debug: Show available fields in raw record
-    if (index < 3) {
-      console.log(`Available fields in record ${index}:`, Object.keys(record));
+    if (incompleteFields.length > 0) {
+      console.warn(`Record ${index} (${taskId}) is missing columns: ${incompleteFields.join(', ')}`);
     }
     
     return {
-      taskNumber: `${index + 1}`,
+      taskNumber: taskNumber !== null ? String(taskNumber) : `${index + 1}`,
       taskDataId: taskId,
       taskName: taskName,
-      
-      // Assign phases based on task names for better visualization
-      taskPhase: this.determinePhaseFromName(taskName),
+      taskPhase: taskPhase,
       
       startDate: startDate,
       finishDate: finishDate,
+      baselineStart: baselineStart,
+      baselineFinish: baselineFinish,
       
-      projectId: 'Penumbra-Project',
-      projectUID: 'penumbra-project-uid',
+      projectId: projectId,
+      projectUID: projectUID,
       
-      dependencyType: dependencyType as 'StartToStart' | 'FinishToStart' | 'FinishToFinish' | 'StartToFinish' | undefined,
+      dependencyType: dependencyType,
       successor: successor,
       successorUID: successorUID,
       
-      isSummaryTask: isSummaryTask,
+      isSummaryTask: false, // Tasks with children are marked once all tasks are loaded
+      isMilestone: isMilestone,
       parentTask: parentTask,
       
-      duration: 14, // Default duration
-      progress: this.generateProgressBasedOnPhase(taskName),
+      duration: duration,
+      progress: progress,
       
-      taskIndex: taskIndex
+      taskIndex: taskIndex,
+      wbs: wbs !== undefined ? String(wbs) : undefined,
+      
+      isIncomplete: incompleteFields.length > 0,
+      incompleteFields: incompleteFields.length > 0 ? incompleteFields : undefined
     };
   }
 
@@ -339,70 +489,32 @@ export class DataverseService {
   }
 
   /**
-   * Generate realistic progress based on phase and task name
+   * Parse a Yes/No column; text columns may hold true/false, yes/no or 1/0
    */
-  private generateProgressBasedOnPhase(taskName: string): number {
-    const lowerName = taskName.toLowerCase();
-    
-    // Completed tasks
-    if (lowerName.includes('complete') || lowerName.includes('approval') || lowerName.includes('decision')) {
-      return 1.0; // 100%
-    }
+  private parseBoolean(value: any): boolean {
+    if (typeof value === 'boolean') return value;
     
-    // In progress tasks
-    if (lowerName.includes('submit') || lowerName.includes('review') || lowerName.includes('conduct')) {
-      return Math.random() * 0.6 + 0.3; // 30-90%
-    }
-    
-    // Planning/future tasks
-    if (lowerName.includes('initiate') || lowerName.includes('plan') || lowerName.includes('prepare')) {
-      return Math.random() * 0.4; // 0-40%
-    }
-    
-    // Default random progress
-    return Math.random() * 0.8 + 0.1; // 10-90%
+    const lowerValue = String(value).trim().toLowerCase();
+    return lowerValue === 'true' || lowerValue === 'yes' || lowerValue === '1';
   }
 
   /**
-   * Check if a task might have children based on naming patterns
+   * Get the value of the column mapped to a TaskData field.
+   * Lookup columns come back from the Web API as _<column>_value.
    */
-  private hasPotentialChildren(record: any, index: number): boolean {
-    const taskName = record.name || record.pme_taskname || '';
-    
-    // Common parent task indicators
-    const parentIndicators = [
-      'timeline', 'project', 'csf', 'submission', 'section', 'phase', 
-      'stage', 'group', 'module', 'package', 'bundle', 'category',
-      'milestone', 'gate', 'studies', 'tech section'
-    ];
+  private getMappedValue(record: any, field: TaskField): any {
+    const column = this.mapping.columns[field];
+    if (!column) return null;
     
-    return parentIndicators.some(indicator => 
-      taskName.toLowerCase().includes(indicator.toLowerCase())
-    );
+    return this.getFieldValue(record, [column, `_${column}_value`]);
   }
 
-// ...existing code...
-
-
   /**
-   * Parse progress value (handle percentage or decimal)
+   * Dataset and Web API return GUIDs in different casing/formats - compare them lowercase without braces
    */
-  private parseProgress(progressValue: any): number {
-    if (progressValue === null || progressValue === undefined) {
-      return 0;
-    }
-    
-    const numValue = parseFloat(progressValue);
-    if (isNaN(numValue)) {
-      return 0;
-    }
-    
-    // If value is greater than 1, assume it's a percentage
-    if (numValue > 1) {
-      return Math.min(numValue / 100, 1);
-    }
-    
-    return Math.min(numValue, 1);
+  private normalizeId(value: any): string {
+    if (value === null || value === undefined) return '';
+    return String(value).replace(/[{}]/g, '').toLowerCase();
   }
 
   /**
@@ -475,11 +587,20 @@ export class DataverseService {
   /**
    * Map Dataverse choice value to DependencyType
    */
-  private mapDependencyType(choiceValue: number): 'StartToStart' | 'FinishToStart' | 'FinishToFinish' | 'StartToFinish' | undefined {
+  private mapDependencyType(choiceValue: any): 'StartToStart' | 'FinishToStart' | 'FinishToFinish' | 'StartToFinish' | undefined {
     if (!choiceValue) return undefined;
     
+    // Handle values already stored as the type name (text columns)
+    if (typeof choiceValue === 'string' && isNaN(parseInt(choiceValue))) {
+      const lowerValue = choiceValue.toLowerCase().replace(/[^a-z]/g, '');
+      if (lowerValue === 'starttostart' || lowerValue === 'ss') return 'StartToStart';
+      if (lowerValue === 'finishtofinish' || lowerValue === 'ff') return 'FinishToFinish';
+      if (lowerValue === 'starttofinish' || lowerValue === 'sf') return 'StartToFinish';
+      return 'FinishToStart';
+    }
+    
     // Map based on your actual choice values in Dataverse
-    switch (choiceValue) {
+    switch (parseInt(choiceValue)) {
       case 1: return 'FinishToStart';
       case 2: return 'StartToStart';
       case 3: return 'FinishToFinish';
@@ -489,56 +610,282 @@ export class DataverseService {
   }
 
   /**
-   * Calculate duration between two dates
+   * Create a TaskData record. Returns the id Dataverse assigned to it.
    */
-  private calculateDuration(startDate: Date, endDate: Date): number {
-    const timeDiff = endDate.getTime() - startDate.getTime();
-    const daysDiff = Math.ceil(timeDiff / (1000 * 3600 * 24));
-    return Math.max(1, daysDiff);
+  public async createTask(task: TaskData): Promise<string> {
+    const payload = this.toRecordPayload(task);
+    const result = await this.context.webAPI.createRecord(this.entityName, payload);
+    return this.normalizeId(result.id);
   }
 
   /**
-   * Generate random progress for demonstration (replace with actual field mapping)
+   * Update the mapped columns of a TaskData record
    */
-  private getRandomProgress(): number {
-    return Math.floor(Math.random() * 100);
+  public async updateTask(taskId: string, changes: Partial<TaskData>): Promise<void> {
+    const payload = this.toRecordPayload(changes);
+    if (Object.keys(payload).length === 0) {
+      return;
+    }
+    
+    await this.context.webAPI.updateRecord(this.entityName, taskId, payload);
   }
 
   /**
-   * Fetch a specific TaskData record by ID
+   * Delete a TaskData record
    */
-  public async fetchTaskDataById(id: string): Promise<TaskData | null> {
-    try {
-      const entityName = "pme_taskdatas";
-      const query = `?$select=pme_tasknumber,pme_taskdataid,pme_taskname,pme_taskphase,pme_startdate,pme_finishdate,pme_projectid,pme_projectuid,pme_dependencytype,pme_successor,pme_successoruid`;
-      
-      const record = await this.context.webAPI.retrieveRecord(
-        entityName,
-        id,
-        query
-      );
-
-      return {
-        taskNumber: record.pme_tasknumber || '',
-        taskDataId: record.pme_taskdataid || record[entityName + 'id'],
-        taskName: record.pme_taskname || '',
-        taskPhase: this.mapTaskPhase(record.pme_taskphase),
-        startDate: record.pme_startdate ? new Date(record.pme_startdate) : new Date(),
-        finishDate: record.pme_finishdate ? new Date(record.pme_finishdate) : new Date(),
-        projectId: record.pme_projectid || '',
-        projectUID: record.pme_projectuid || '',
-        dependencyType: this.mapDependencyType(record.pme_dependencytype),
-        successor: record.pme_successor || undefined,
-        successorUID: record.pme_successoruid || undefined,
-        duration: this.calculateDuration(
-          record.pme_startdate ? new Date(record.pme_startdate) : new Date(),
-          record.pme_finishdate ? new Date(record.pme_finishdate) : new Date()
-        ),
-        progress: this.getRandomProgress()
-      };
-    } catch (error) {
-      console.error('Error fetching TaskData by ID:', error);
+  public async deleteTask(taskId: string): Promise<void> {
+    await this.context.webAPI.deleteRecord(this.entityName, taskId);
+  }
+
+  /**
+   * Convert TaskData fields to a Web API payload using the column mapping.
+   * Fields without a mapped column are skipped.
+   */
+  private toRecordPayload(changes: Partial<TaskData>): ComponentFramework.WebApi.Entity {
+    const payload: ComponentFramework.WebApi.Entity = {};
+    
+    const setColumn = (field: TaskField, value: unknown) => {
+      const column = this.mapping.columns[field];
+      if (column && value !== undefined) {
+        payload[column] = value;
+      }
+    };
+    
+    if ('taskName' in changes) setColumn('taskName', changes.taskName);
+    if ('taskNumber' in changes) setColumn('taskNumber', changes.taskNumber);
+    if (changes.taskPhase) setColumn('taskPhase', this.toTaskPhaseValue(changes.taskPhase));
+    if (changes.startDate) setColumn('startDate', changes.startDate.toISOString());
+    if (changes.finishDate) setColumn('finishDate', changes.finishDate.toISOString());
+    if ('baselineStart' in changes) setColumn('baselineStart', changes.baselineStart?.toISOString() ?? null);
+    if ('baselineFinish' in changes) setColumn('baselineFinish', changes.baselineFinish?.toISOString() ?? null);
+    if ('duration' in changes) setColumn('duration', changes.duration ?? null);
+    if ('progress' in changes) setColumn('progress', toProgressColumn(changes.progress));
+    if ('successor' in changes) setColumn('successor', changes.successor ?? null);
+    if ('successorUID' in changes) setColumn('successorUID', changes.successorUID ?? null);
+    if ('dependencyType' in changes) {
+      setColumn('dependencyType', this.toDependencyTypeValue(changes.dependencyType, this.entityName, this.mapping.columns.dependencyType,
+        this.textFields.has('dependencyType')));
+    }
+    if ('taskIndex' in changes) setColumn('taskIndex', changes.taskIndex ?? null);
+    if ('wbs' in changes) setColumn('wbs', changes.wbs ?? null);
+    if ('isMilestone' in changes) setColumn('isMilestone', !!changes.isMilestone);
+    // A project lookup would need the project table to bind to, so only a text column is written
+    if ('projectId' in changes && !this.lookupFields.has('projectId')) setColumn('projectId', changes.projectId);
+    if ('projectUID' in changes) setColumn('projectUID', changes.projectUID);
+    
+    if ('parentTask' in changes) {
+      const column = this.mapping.columns.parentTask;
+      if (column && this.lookupFields.has('parentTask')) {
+        // Lookups are set through their navigation property
+        payload[`${column}@odata.bind`] = changes.parentTask ? `/${this.entitySetName}(${changes.parentTask})` : null;
+      } else {
+        setColumn('parentTask', changes.parentTask ?? null);
+      }
+    }
+    
+    return payload;
+  }
+
+  /**
+   * Load all records of the link table, following nextLink up to the record cap
+   */
+  public async loadLinks(): Promise<TaskLink[]> {
+    if (!this.linkMapping) {
+      return [];
+    }
+    
+    const { tableName, columns } = this.linkMapping;
+    const select = (Object.keys(columns) as LinkField[])
+      .map(field => this.linkLookupFields.has(field) ? `_${columns[field]}_value` : columns[field])
+      .join(',');
+    
+    const links: TaskLink[] = [];
+    let options = `?$select=${select}`;
+    
+    while (options && links.length < this.maxRecords) {
+      const result = await this.context.webAPI.retrieveMultipleRecords(tableName, options, this.pageSize);
+      result.entities.forEach(record => {
+        const link = this.transformLinkRecord(record);
+        if (link) links.push(link);
+      });
+      options = result.nextLink ? `?${result.nextLink.split('?')[1]}` : '';
+    }
+    
+    console.log(`Loaded ${links.length} links from ${tableName}`);
+    return links;
+  }
+
+  private transformLinkRecord(record: ComponentFramework.WebApi.Entity): TaskLink | null {
+    const columns = this.linkMapping!.columns;
+    const getValue = (field: LinkField): unknown => {
+      const column = columns[field];
+      return column ? this.getFieldValue(record, [column, `_${column}_value`]) : null;
+    };
+    
+    const predecessorId = getValue('predecessor');
+    const successorId = getValue('successor');
+    if (!predecessorId || !successorId) {
       return null;
     }
+    
+    const typeValue = getValue('type');
+    const type = this.mapDependencyType(typeValue) ?? 'FinishToStart';
+    this.rememberOptionValue(this.linkMapping!.tableName, columns.type, type, typeValue);
+    
+    return {
+      linkId: this.normalizeId(getValue('linkId')),
+      predecessorId: this.normalizeId(predecessorId),
+      successorId: this.normalizeId(successorId),
+      type,
+      lag: Number(getValue('lag')) || 0
+    };
+  }
+
+  /**
+   * Create a link record. Returns the id Dataverse assigned to it.
+   */
+  public async createLink(link: TaskLink): Promise<string> {
+    const payload = this.toLinkPayload(link);
+    const result = await this.context.webAPI.createRecord(this.getLinkTableName(), payload);
+    return this.normalizeId(result.id);
+  }
+
+  public async updateLink(link: TaskLink): Promise<void> {
+    if (!link.linkId) {
+      throw new Error('The link has no record id');
+    }
+    
+    const payload = this.toLinkPayload(link);
+    await this.context.webAPI.updateRecord(this.getLinkTableName(), link.linkId, payload);
+  }
+
+  public async deleteLink(link: TaskLink): Promise<void> {
+    if (!link.linkId) {
+      throw new Error('The link has no record id');
+    }
+    
+    await this.context.webAPI.deleteRecord(this.getLinkTableName(), link.linkId);
+  }
+
+  private getLinkTableName(): string {
+    if (!this.linkMapping) {
+      throw new Error('No dependency table is configured');
+    }
+    return this.linkMapping.tableName;
+  }
+
+  /**
+   * Convert a link to a Web API payload; task references are bound to the task table
+   */
+  private toLinkPayload(link: TaskLink): ComponentFramework.WebApi.Entity {
+    const payload: ComponentFramework.WebApi.Entity = {};
+    const columns = this.linkMapping?.columns ?? {};
+    
+    const setTaskReference = (field: LinkField, taskId: string) => {
+      const column = columns[field];
+      if (!column) return;
+      if (this.linkLookupFields.has(field)) {
+        payload[`${column}@odata.bind`] = `/${this.entitySetName}(${taskId})`;
+      } else {
+        payload[column] = taskId;
+      }
+    };
+    
+    setTaskReference('predecessor', link.predecessorId);
+    setTaskReference('successor', link.successorId);
+    if (columns.type) {
+      payload[columns.type] = this.toDependencyTypeValue(link.type, this.getLinkTableName(), columns.type, this.linkTextFields.has('type'));
+    }
+    if (columns.lag) payload[columns.lag] = link.lag;
+    
+    return payload;
+  }
+
+  /**
+   * Remember the option value a choice column was read with, so edits write back the same option.
+   * Text values are not option values and are skipped.
+   */
+  private rememberOptionValue(tableName: string, column: string | undefined, choice: string | undefined, value: unknown): void {
+    const optionValue = typeof value === 'number' ? value : parseInt(String(value));
+    if (!column || !choice || isNaN(optionValue) || String(optionValue) !== String(value).trim()) return;
+    
+    const key = `${tableName}.${column}`;
+    const values = this.optionValues.get(key) ?? new Map<string, number>();
+    if (!values.has(choice)) values.set(choice, optionValue);
+    this.optionValues.set(key, values);
+  }
+
+  /**
+   * Value to write for a phase: its name for a text column, otherwise its option value (see mapTaskPhase)
+   */
+  private toTaskPhaseValue(phase: TaskData['taskPhase']): string | number {
+    if (this.textFields.has('taskPhase')) return phase;
+    
+    const values = this.optionValues.get(`${this.entityName}.${this.mapping.columns.taskPhase}`);
+    const readValue = values?.get(phase);
+    if (readValue !== undefined) return readValue;
+    
+    // No record had this phase yet - number it the way the other phases were read
+    const phases: TaskData['taskPhase'][] = ['Initiation', 'Planning', 'Selection', 'Execution', 'Closure'];
+    const index = Math.max(0, phases.indexOf(phase));
+    const usesSimpleValues = Array.from(values?.values() ?? []).some(value => value < 893360000);
+    return usesSimpleValues ? index + 1 : 893360000 + index;
+  }
+
+  /**
+   * Value to write for a dependency type: its name for a text column, otherwise its option value (see mapDependencyType)
+   */
+  private toDependencyTypeValue(
+    dependencyType: DependencyType | undefined,
+    tableName: string,
+    column: string | undefined,
+    isText: boolean
+  ): string | number | null {
+    if (!dependencyType) return null;
+    if (isText) return dependencyType;
+    
+    const readValue = this.optionValues.get(`${tableName}.${column}`)?.get(dependencyType);
+    if (readValue !== undefined) return readValue;
+    
+    switch (dependencyType) {
+      case 'FinishToStart': return 1;
+      case 'StartToStart': return 2;
+      case 'FinishToFinish': return 3;
+      case 'StartToFinish': return 4;
+    }
+  }
+
+  /**
+   * Fetch TaskData records by id, for lookups of records outside the bound dataset (e.g. parents filtered out of the view).
+   * Ids are queried in batches with an "or" filter on the id column. Ids without a record are left out,
+   * and a failing batch only costs its own tasks.
+   */
+  public async fetchTasksByIds(ids: string[]): Promise<TaskData[]> {
+    const idColumn = this.mapping.columns.taskId;
+    if (!idColumn || ids.length === 0) {
+      return [];
+    }
+    
+    const entityName = this.entityName || this.mapping.tableName;
+    const batches: string[][] = [];
+    for (let i = 0; i < ids.length; i += this.lookupBatchSize) {
+      batches.push(ids.slice(i, i + this.lookupBatchSize));
+    }
+    
+    const results = await Promise.allSettled(batches.map(batch => this.context.webAPI.retrieveMultipleRecords(
+      entityName,
+      `?$filter=${batch.map(id => `${idColumn} eq ${id}`).join(' or ')}`
+    )));
+    
+    const tasks: TaskData[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`Tasks ${batches[i].join(', ')} could not be loaded:`, result.reason);
+        return;
+      }
+      result.value.entities.forEach(record => tasks.push(this.transformRecord(record, tasks.length)));
+    });
+    
+    return tasks;
   }
-}
\ No newline at end of file
+}
@@ -1,27 +1,56 @@
 import * as React from 'react';
-import { TaskData } from './types';
+import { DependencyType, TaskData, TaskLink } from './types';
 import { projectPhases, staticTaskData } from './data';
 import { DataverseService } from './DataverseService';
-import { ImprovedGanttChart } from './ImprovedGanttChart';
+import { PendingChangesQueue, SaveError } from './PendingChanges';
+import { buildLinksFromTasks, toSuccessorFields } from './TaskLinks';
+import { ScheduledTaskChange, rescheduleTask } from './Scheduler';
+import { markSummaryTasks, rollupTasks } from './SummaryRollup';
+import { captureBaseline } from './Baseline';
+import { WorkCalendar, addWorkingDays, getTaskCalendar, nextWorkingTime } from './WorkCalendar';
+import { TaskStore } from './TaskStore';
+import { OutlineDropPosition, moveTaskInOutline } from './TaskOutline';
+import { parseHeaderTiers } from './TimelineScale';
+import { GridExtraColumn, getColumnLayoutKey } from './GridColumns';
+import { ImprovedGanttChart, dependencyTypeStyles } from './ImprovedGanttChart';
 import { IInputs } from './generated/ManifestTypes';
 
 export interface IGanttChartProps {
   height?: string;
   width?: string;
   context: ComponentFramework.Context<IInputs>;
+  dataVersion: number; // Incremented by the control whenever the bound dataset changes
 }
 
 interface IGanttChartState {
   currentZoom: string;
   isLoading: boolean;                                                                        
   taskData: TaskData[];
+  links: TaskLink[];
   error: string | null;
   totalRecords: number;
-  cacheStats: any;
+  viewTitle: string;
+  loadProgress: { loaded: number; total: number } | null;
+  mappingWarnings: string[];
+  selectedTaskId: string | null;
+  pendingChangeCount: number;
+  isSaving: boolean;
+  saveErrors: SaveError[];
+  autoSchedule: boolean;
+  pullSuccessors: boolean;
+  schedulePreview: { changes: ScheduledTaskChange[]; taskData: TaskData[] } | null; // Rescheduling awaiting confirmation
+  extraColumns: GridExtraColumn[]; // View columns that can be added to the grid
 }
 
 export class GanttChart extends React.Component<IGanttChartProps, IGanttChartState> {
   private dataverseService: DataverseService;
+  private isInitialized = false;
+  private loadSequence = 0; // Used to drop results of loads superseded by a newer dataset update
+  private pendingChanges = new PendingChangesQueue();
+  private loadedTaskData: TaskData[] = []; // Tasks as loaded, before pending changes are applied
+  private loadedLinks: TaskLink[] = []; // Links from the dependency table, before pending changes are applied
+  private keepViewOrder = false; // True when the view is sorted by the user
+  private taskStore = new TaskStore(); // Index over the displayed tasks and links
 
   constructor(props: IGanttChartProps) {
     super(props);
@@ -29,35 +58,108 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       currentZoom: 'Days',
       isLoading: true, // Set to true since we're loading from Dataverse                                                                                                                                                                                                      
       taskData: [],
+      links: [],
       error: null,
       totalRecords: 0,
-      cacheStats: null
+      viewTitle: '',
+      loadProgress: null,
+      mappingWarnings: [],
+      selectedTaskId: null,
+      pendingChangeCount: 0,
+      isSaving: false,
+      saveErrors: [],
+      autoSchedule: false,
+      pullSuccessors: false,
+      schedulePreview: null,
+      extraColumns: []
     };
     
     this.dataverseService = new DataverseService(props.context);
   }
 
   public componentDidMount(): void {
-    this.loadDataAndInitializeGantt();
+    void this.initializeAndLoad();
   }
 
-  private fixHierarchyIssues = (tasks: TaskData[]): TaskData[] => {
-    console.log('=== Fixing Hierarchy Issues ===');
-    console.log('Raw task data sample (first 3):', tasks.slice(0, 3).map(t => ({
-      id: t.taskDataId,
-      name: t.taskName,
-      parentTask: t.parentTask,
-      isSummaryTask: t.isSummaryTask
-    })));
+  public componentDidUpdate(prevProps: IGanttChartProps): void {
+    if (prevProps.context !== this.props.context) {
+      this.dataverseService.setContext(this.props.context);
+    }
+    
+    if (this.isInitialized && prevProps.dataVersion !== this.props.dataVersion) {
+      void this.loadDataAndInitializeGantt();
+    }
+  }
+
+  private getDataSet = () => this.props.context.parameters.sampleDataSet;
+
+  private initializeAndLoad = async (): Promise<void> => {
+    const dataset = this.getDataSet();
     
+    try {
+      // Validate the configured column mapping against the table metadata before loading
+      const validation = await this.dataverseService.initialize(dataset);
+      this.setState({ mappingWarnings: [...validation.errors, ...validation.warnings] });
+      this.isInitialized = true;
+      
+      // Mapped columns missing from the view are added to the dataset, which needs a refresh
+      if (this.dataverseService.prepareDataSet(dataset)) {
+        console.log('Refreshing dataset to retrieve mapped columns');
+        dataset.refresh();
+        return;
+      }
+      
+      await this.loadDataAndInitializeGantt();
+    } catch (error) {
+      console.error('Error initializing the Gantt chart:', error);
+      this.setState({
+        error: `Failed to initialize: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        isLoading: false
+      });
+    }
+  };
+
+  /**
+   * Parents outside the current view (filtered out or on another page) are looked up
+   * through the Web API so their children can still be grouped under them.
+   */
+  private loadMissingParents = async (tasks: TaskData[]): Promise<TaskData[]> => {
+    const existingTaskIds = new Set(tasks.map(t => t.taskDataId));
+    const missingParentIds = Array.from(new Set(
+      tasks
+        .filter(t => t.parentTask && !existingTaskIds.has(t.parentTask))
+        .map(t => t.parentTask!)
+    ));
+    
+    if (missingParentIds.length === 0) {
+      return [];
+    }
+    
+    console.log(`Looking up ${missingParentIds.length} parent tasks outside the view`);
+    return this.dataverseService.fetchTasksByIds(missingParentIds);
+  };
+
+  private compareByTaskIndex = (a: TaskData, b: TaskData): number => {
+    // Primary sort: by taskIndex if available
+    if (a.taskIndex !== undefined && b.taskIndex !== undefined) {
+      return a.taskIndex - b.taskIndex;
+    }
+    
+    // Secondary sort: by taskNumber if it contains numeric values
+    const aNum = parseInt(a.taskNumber?.replace(/\D/g, '') || '0');
+    const bNum = parseInt(b.taskNumber?.replace(/\D/g, '') || '0');
+    
+    if (aNum !== bNum) {
+      return aNum - bNum;
+    }
+    
+    // Fallback sort: by taskDataId
+    return a.taskDataId.localeCompare(b.taskDataId);
+  };
+
+  private fixHierarchyIssues = (tasks: TaskData[]): TaskData[] => {
     // First, let's check what parent relationships exist in the raw data
     const tasksWithParents = tasks.filter(t => t.parentTask);
-    console.log(`Tasks with parentTask field: ${tasksWithParents.length}`);
-    console.log('Sample parent relationships:', tasksWithParents.slice(0, 5).map(t => ({
-      id: t.taskDataId,
-      name: t.taskName,
-      parent: t.parentTask
-    })));
     
     // If no parent relationships exist in the data, let's create a logical hierarchy
     // based on task names and common patterns
@@ -66,6 +168,9 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       return this.createLogicalHierarchy(tasks);
     }
     
+    const store = new TaskStore();
+    store.setTasks(tasks);
+    
     // Find all referenced parent IDs
     const referencedParentIds = new Set(
       tasks
@@ -81,16 +186,10 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       parentId => !existingTaskIds.has(parentId)
     );
     
-    console.log('Referenced parent IDs:', Array.from(referencedParentIds));
-    console.log('Existing task IDs:', Array.from(existingTaskIds).slice(0, 10), '...');
-    console.log('Missing parent IDs:', missingParentIds);
-    
     // Create missing parent tasks
     const createdParents: TaskData[] = missingParentIds.map((parentId, index) => {
-      console.log(`Creating missing parent task: ${parentId}`);
-      
       // Try to infer parent name from children
-      const children = tasks.filter(t => t.parentTask === parentId);
+      const children = store.getChildren(parentId);
       let parentName = `Parent Group ${index + 1}`;
       
       if (children.length > 0) {
@@ -124,17 +223,11 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       };
     });
     
-    // Mark tasks that have children as summary tasks
-    const updatedTasks = tasks.map(task => {
-      const hasChildren = tasks.some(t => t.parentTask === task.taskDataId);
-      if (hasChildren && !task.isSummaryTask) {
-        console.log(`Marking task as summary: ${task.taskName} (has ${tasks.filter(t => t.parentTask === task.taskDataId).length} children)`);
-        return { ...task, isSummaryTask: true };
-      }
-      return task;
+    // Placeholder parents take their dates and progress from their children
+    const result = rollupTasks(markSummaryTasks([...createdParents, ...tasks]), {
+      onlyTaskIds: new Set(createdParents.map(p => p.taskDataId)),
+      getCalendar: this.getCalendar
     });
-    
-    const result = [...createdParents, ...updatedTasks];
     console.log(`Fixed hierarchy: added ${createdParents.length} missing parents, total tasks: ${result.length}`);
     
     return result;
@@ -192,26 +285,20 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       if (groupTasks.length > 0) {
         const { parentName, phase } = groupPatterns[groupKey];
         
-        // Calculate parent dates based on children
-        const childStartDates = groupTasks.map(t => t.startDate);
-        const childEndDates = groupTasks.map(t => t.finishDate);
-        const parentStart = new Date(Math.min(...childStartDates.map(d => d.getTime())));
-        const parentEnd = new Date(Math.max(...childEndDates.map(d => d.getTime())));
-        
         parentTasks.push({
           taskNumber: `GRP-${groupKey.toUpperCase()}`,
           taskDataId: `parent-${groupKey}`,
           taskName: parentName,
           taskPhase: phase,
-          startDate: parentStart,
-          finishDate: parentEnd,
+          startDate: groupTasks[0].startDate, // Dates, duration and progress are rolled up below
+          finishDate: groupTasks[0].finishDate,
           projectId: groupTasks[0].projectId,
           projectUID: groupTasks[0].projectUID,
           dependencyType: undefined,
           successor: undefined,
           successorUID: undefined,
-          duration: Math.round((parentEnd.getTime() - parentStart.getTime()) / (1000 * 60 * 60 * 24)),
-          progress: groupTasks.reduce((sum, t) => sum + (t.progress || 0), 0) / groupTasks.length,
+          duration: groupTasks[0].duration,
+          progress: 0,
           isSummaryTask: true,
           parentTask: undefined,
           taskIndex: Math.min(...groupTasks.map(t => t.taskIndex || 0))
@@ -219,7 +306,7 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
       }
     });
     
-    const result = [...parentTasks, ...Object.values(groups).flat(), ...standaloneItems];
+    const result = rollupTasks([...parentTasks, ...Object.values(groups).flat(), ...standaloneItems], { getCalendar: this.getCalendar });
     
     console.log(`Created logical hierarchy:
       - Parent groups: ${parentTasks.length}
@@ -253,124 +340,64 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
   };
 
   private loadDataAndInitializeGantt = async (): Promise<void> => {
+    const dataset = this.getDataSet();
+    const loadId = ++this.loadSequence;
+    
     try {
-      this.setState({ isLoading: true, error: null });
-      // Fetch all data at once (use large page size to get all records)
-      const taskData = await this.dataverseService.fetchTaskData(false, 10000);
-      
-      // Fix hierarchy issues and create missing parent tasks
-      const fixedTaskData = this.fixHierarchyIssues(taskData);
-      
-      // Sort tasks by taskIndex field
-      const sortedTaskData = fixedTaskData.sort((a, b) => {
-        // Primary sort: by taskIndex if available
-        if (a.taskIndex !== undefined && b.taskIndex !== undefined) {
-          return a.taskIndex - b.taskIndex;
-        }
-        
-        // Secondary sort: by taskNumber if it contains numeric values
-        const aNum = parseInt(a.taskNumber?.replace(/\D/g, '') || '0');
-        const bNum = parseInt(b.taskNumber?.replace(/\D/g, '') || '0');
-        
-        if (aNum !== bNum) {
-          return aNum - bNum;
-        }
-        
-        // Fallback sort: by taskDataId
-        return a.taskDataId.localeCompare(b.taskDataId);
-      });
-      
-      // Count parent vs child tasks for debugging
-      const parentTasks = sortedTaskData.filter(t => t.isSummaryTask);
-      const childTasks = sortedTaskData.filter(t => t.parentTask);
-      const standaloneTasks = sortedTaskData.filter(t => !t.isSummaryTask && !t.parentTask);
-      
-      // Debug: Log the raw data structure
-      console.log('=== RAW DATAVERSE DATA ===');
-      console.log('First few raw records:', taskData.slice(0, 3));
-      
-      console.log(`Dataverse Data Summary:
-        - Total Tasks: ${sortedTaskData.length}
-        - Parent/Summary Tasks: ${parentTasks.length}
-        - Child Tasks: ${childTasks.length}
-        - Standalone Tasks: ${standaloneTasks.length}`);
-      
-      console.log('Parent Tasks:', parentTasks.map(t => ({ id: t.taskDataId, name: t.taskName })));
-      console.log('Child Tasks:', childTasks.map(t => ({ id: t.taskDataId, name: t.taskName, parent: t.parentTask })));
-      
-      // Debug: Show sorting and hierarchy information
-      console.log('=== SORTING INFORMATION ===');
-      console.log('First 5 tasks after sorting:', sortedTaskData.slice(0, 5).map(t => ({
-        taskNumber: t.taskNumber,
-        taskIndex: t.taskIndex,
-        taskName: t.taskName,
-        taskDataId: t.taskDataId,
-        isSummaryTask: t.isSummaryTask,
-        parentTask: t.parentTask
-      })));
-      
-      const tasksWithIndex = sortedTaskData.filter(t => t.taskIndex !== undefined).length;
-      console.log(`Tasks with taskIndex: ${tasksWithIndex} out of ${sortedTaskData.length}`);
-      
-      // Debug hierarchy structure
-      console.log('=== HIERARCHY VERIFICATION ===');
-      const actualParentTasks = sortedTaskData.filter(t => t.isSummaryTask);
-      const actualChildTasks = sortedTaskData.filter(t => t.parentTask);
-      const actualStandaloneTasks = sortedTaskData.filter(t => !t.isSummaryTask && !t.parentTask);
-      
-      console.log(`After processing:
-        - Parent/Summary Tasks: ${actualParentTasks.length}
-        - Child Tasks: ${actualChildTasks.length}
-        - Standalone Tasks: ${actualStandaloneTasks.length}`);
+      if (dataset.loading) {
+        this.setState({ isLoading: true, error: null });
+        return;
+      }
       
-      if (actualChildTasks.length > 0) {
-        console.log('First 5 child tasks:', actualChildTasks.slice(0, 5).map(t => ({
-          name: t.taskName,
-          parent: t.parentTask
-        })));
+      if (dataset.error) {
+        throw new Error(dataset.errorMessage || 'The dataset could not be loaded');
       }
       
-      // Debug: Check for missing fields and successor relationships
-      if (sortedTaskData.length > 0) {
-        const sampleTask = sortedTaskData[0];
-        console.log('Sample transformed task:', {
-          id: sampleTask.taskDataId,
-          name: sampleTask.taskName,
-          phase: sampleTask.taskPhase,
-          startDate: sampleTask.startDate,
-          finishDate: sampleTask.finishDate,
-          isSummaryTask: sampleTask.isSummaryTask,
-          parentTask: sampleTask.parentTask,
-          duration: sampleTask.duration,
-          progress: sampleTask.progress,
-          successor: sampleTask.successor,
-          successorUID: sampleTask.successorUID,
-          dependencyType: sampleTask.dependencyType
+      // Keep paging until the whole view is loaded; each page arrives in a new updateView
+      if (this.dataverseService.loadNextPage(dataset)) {
+        const pagination = this.dataverseService.getPaginationInfo(dataset);
+        this.setState({
+          isLoading: true,
+          error: null,
+          loadProgress: { loaded: pagination.loadedRecords, total: pagination.totalRecords }
         });
+        return;
       }
       
-      // Debug: Check for tasks with successor relationships
-      const tasksWithSuccessors = sortedTaskData.filter(t => t.successor);
-      console.log(`=== SUCCESSOR RELATIONSHIPS ===`);
-      console.log(`Tasks with successors: ${tasksWithSuccessors.length} out of ${sortedTaskData.length}`);
-      if (tasksWithSuccessors.length > 0) {
-        console.log('Sample successor relationships:', tasksWithSuccessors.slice(0, 5).map(t => ({
-          name: t.taskName,
-          id: t.taskDataId,
-          successor: t.successor,
-          successorUID: t.successorUID,
-          dependencyType: t.dependencyType
-        })));
+      const taskData = this.dataverseService.transformDataSet(dataset);
+      const missingParents = await this.loadMissingParents(taskData);
+      const links = await this.loadLinks();
+      
+      if (loadId !== this.loadSequence) {
+        return; // A newer dataset update is being processed
       }
       
-      // Get cache stats
-      const cacheStats = this.dataverseService.getCacheStats();
+      // Fix hierarchy issues and create missing parent tasks
+      const fixedTaskData = this.fixHierarchyIssues([...missingParents, ...taskData]);
+      
+      // Keep the order of the view when the user sorted it, otherwise sort by taskIndex
+      this.keepViewOrder = dataset.sorting.length > 0;
+      const sortedTaskData = this.keepViewOrder
+        ? fixedTaskData
+        : fixedTaskData.sort(this.compareByTaskIndex);
+      this.loadedTaskData = sortedTaskData;
+      this.loadedLinks = links;
+      
+      const pagination = this.dataverseService.getPaginationInfo(dataset);
+      
+      const displayedTaskData = this.getDisplayedTaskData();
       
       this.setState({
-        taskData: sortedTaskData,
+        taskData: displayedTaskData,
+        links: this.getDisplayedLinks(displayedTaskData),
         isLoading: false,
-        totalRecords: sortedTaskData.length,
-        cacheStats: cacheStats
+        error: null,
+        totalRecords: displayedTaskData.length,
+        viewTitle: dataset.getTitle(),
+        extraColumns: this.dataverseService.getExtraColumns(dataset),
+        loadProgress: pagination.hasMore
+          ? { loaded: pagination.loadedRecords, total: pagination.totalRecords }
+          : null
       });
       
     } catch (error) {
@@ -382,57 +409,356 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
     }
   };
 
-  private refreshData = async (): Promise<void> => {
+  /**
+   * Working calendar of the task's project
+   */
+  private getCalendar = (task: TaskData): WorkCalendar => getTaskCalendar(this.dataverseService.calendars, task);
+
+  /**
+   * Index over the displayed tasks and links, brought up to date with the state on each call
+   */
+  private getTaskStore = (): TaskStore => {
+    this.taskStore.setTasks(this.state.taskData);
+    this.taskStore.setLinks(this.state.links);
+    return this.taskStore;
+  };
+
+  /**
+   * Loaded tasks with unsaved changes applied and summaries rolled up from their children.
+   * Scheduling, the critical path and the chart all work from these values.
+   */
+  private getDisplayedTaskData = (): TaskData[] => {
+    const tasks = rollupTasks(this.getChangedTaskData(), {
+      flagMismatches: this.props.context.parameters.flagSummaryMismatches?.raw === true,
+      getCalendar: this.getCalendar
+    });
+    return this.keepViewOrder ? tasks : [...tasks].sort(this.compareByTaskIndex);
+  };
+
+  /**
+   * Loaded tasks with unsaved changes applied. Tasks with children are summaries, whatever the
+   * stored flag says, so moves in the outline and deletes turn tasks into summaries and back.
+   */
+  private getChangedTaskData = (): TaskData[] => markSummaryTasks(this.pendingChanges.applyTo(this.loadedTaskData));
+
+  /**
+   * Links between the displayed tasks. Without a dependency table they are parsed from
+   * the successor fields, which already include pending changes.
+   */
+  private getDisplayedLinks = (tasks: TaskData[]): TaskLink[] => {
+    if (!this.dataverseService.usesLinkTable) {
+      return buildLinksFromTasks(tasks);
+    }
+    
+    const taskIds = new Set(tasks.map(t => t.taskDataId));
+    return this.pendingChanges
+      .applyToLinks(this.loadedLinks)
+      .filter(link => taskIds.has(link.predecessorId) && taskIds.has(link.successorId));
+  };
+
+  /**
+   * Links from the dependency table. A failing table doesn't block the chart - it just shows no links.
+   */
+  private loadLinks = async (): Promise<TaskLink[]> => {
     try {
-      this.setState({ isLoading: true, error: null });
-      
-      console.log('Refreshing data from Dataverse...');
-      // Refresh all data at once (use large page size to get all records)
-      const taskData = await this.dataverseService.refreshData(10000);
-      
-      // Fix hierarchy issues and create missing parent tasks
-      const fixedTaskData = this.fixHierarchyIssues(taskData);
+      return await this.dataverseService.loadLinks();
+    } catch (error) {
+      console.error('Error loading dependency table:', error);
+      this.setState(prevState => ({
+        mappingWarnings: [...prevState.mappingWarnings, `Dependencies could not be loaded: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      }));
+      return [];
+    }
+  };
+
+  private applyPendingChanges = (): void => {
+    const displayedTaskData = this.getDisplayedTaskData();
+    this.setState({
+      taskData: displayedTaskData,
+      links: this.getDisplayedLinks(displayedTaskData),
+      totalRecords: displayedTaskData.length,
+      pendingChangeCount: this.pendingChanges.count
+    });
+  };
+
+  private updateTask = (taskId: string, changes: Partial<TaskData>): void => {
+    this.pendingChanges.enqueueUpdate(taskId, changes);
+    this.enqueueSummaryRollups(this.getTaskStore().getAncestorIds(taskId));
+    this.applyPendingChanges();
+  };
+
+  /**
+   * Queue the rolled-up dates and progress of summaries whose children changed, so they are saved too
+   */
+  private enqueueSummaryRollups = (summaryIds: string[]): void => {
+    if (summaryIds.length === 0) return;
+    
+    const tasks = this.getChangedTaskData();
+    const rolledUp = rollupTasks(tasks, { onlyTaskIds: new Set(summaryIds), getCalendar: this.getCalendar });
+    rolledUp.forEach((task, i) => {
+      const current = tasks[i];
+      if (task === current) return;
       
-      // Sort tasks by taskIndex field
-      const sortedTaskData = fixedTaskData.sort((a, b) => {
-        // Primary sort: by taskIndex if available
-        if (a.taskIndex !== undefined && b.taskIndex !== undefined) {
-          return a.taskIndex - b.taskIndex;
-        }
-        
-        // Secondary sort: by taskNumber if it contains numeric values
-        const aNum = parseInt(a.taskNumber?.replace(/\D/g, '') || '0');
-        const bNum = parseInt(b.taskNumber?.replace(/\D/g, '') || '0');
-        
-        if (aNum !== bNum) {
-          return aNum - bNum;
-        }
-        
-        // Fallback sort: by taskDataId
-        return a.taskDataId.localeCompare(b.taskDataId);
+      if (task.startDate.getTime() !== current.startDate.getTime()
+        || task.finishDate.getTime() !== current.finishDate.getTime()
+        || task.progress !== current.progress) {
+        this.pendingChanges.enqueueUpdate(task.taskDataId, {
+          startDate: task.startDate,
+          finishDate: task.finishDate,
+          duration: task.duration,
+          progress: task.progress
+        });
+      }
+    });
+  };
+
+  /**
+   * Rewrite the successor fields of a predecessor from its outgoing links (no dependency table)
+   */
+  private setOutgoingLinks = (predecessorId: string, links: TaskLink[]): void => {
+    const store = this.getTaskStore();
+    this.pendingChanges.enqueueUpdate(predecessorId, toSuccessorFields(links, taskId => store.getTask(taskId)));
+  };
+
+  /**
+   * Date edits from the chart. With auto-scheduling on, a move that affects other tasks
+   * is shown as a preview first and only queued once it is applied.
+   */
+  private handleTaskChanged = (task: TaskData, changes: Partial<TaskData>): void => {
+    const { autoSchedule, pullSuccessors, taskData, links } = this.state;
+    
+    if (!autoSchedule || (!changes.startDate && !changes.finishDate)) {
+      this.updateTask(task.taskDataId, changes);
+      return;
+    }
+    
+    const scheduleChanges = rescheduleTask(taskData, links, task.taskDataId, {
+      startDate: changes.startDate ?? task.startDate,
+      finishDate: changes.finishDate ?? task.finishDate
+    }, { pullSuccessors, getCalendar: this.getCalendar });
+    
+    if (scheduleChanges.every(change => change.taskId === task.taskDataId)) {
+      this.updateTask(task.taskDataId, changes);
+      return;
+    }
+    
+    const changesById = new Map(scheduleChanges.map(change => [change.taskId, change]));
+    this.setState({
+      schedulePreview: {
+        changes: scheduleChanges,
+        taskData: taskData.map(t => {
+          const change = changesById.get(t.taskDataId);
+          return change ? { ...t, startDate: change.startDate, finishDate: change.finishDate, duration: change.duration } : t;
+        })
+      }
+    });
+  };
+
+  private applySchedulePreview = (): void => {
+    const { schedulePreview } = this.state;
+    if (!schedulePreview) return;
+    
+    schedulePreview.changes.forEach(change => {
+      this.pendingChanges.enqueueUpdate(change.taskId, {
+        startDate: change.startDate,
+        finishDate: change.finishDate,
+        duration: change.duration
       });
-      
-      // Get cache stats
-      const cacheStats = this.dataverseService.getCacheStats();
-      
-      this.setState({
-        taskData: sortedTaskData,
-        isLoading: false,
-        totalRecords: sortedTaskData.length,
-        cacheStats: cacheStats
+    });
+    
+    this.setState({ schedulePreview: null });
+    this.applyPendingChanges();
+  };
+
+  /**
+   * Move a task with its subtasks before, after or under another task (drag in the grid, indent/outdent)
+   */
+  private moveTask = (task: TaskData, target: TaskData, position: OutlineDropPosition): void => {
+    const changes = moveTaskInOutline(this.getTaskStore(), task.taskDataId, target.taskDataId, position, {
+      includeWbs: this.dataverseService.isFieldMapped('wbs'),
+      getCalendar: this.getCalendar
+    });
+    
+    changes.forEach(({ taskId, changes: taskChanges }) => this.pendingChanges.enqueueUpdate(taskId, taskChanges));
+    this.applyPendingChanges();
+  };
+
+  /**
+   * Add a link, or change the type of the existing link between the two tasks
+   */
+  private createDependency = (predecessor: TaskData, successor: TaskData, dependencyType: DependencyType): void => {
+    const store = this.getTaskStore();
+    const existing = store.getLink(predecessor.taskDataId, successor.taskDataId);
+    const link: TaskLink = existing
+      ? { ...existing, type: dependencyType }
+      : { predecessorId: predecessor.taskDataId, successorId: successor.taskDataId, type: dependencyType, lag: 0 };
+    
+    if (this.dataverseService.usesLinkTable) {
+      if (existing) {
+        this.pendingChanges.enqueueLinkUpdate(link);
+      } else {
+        this.pendingChanges.enqueueLinkCreate(link);
+      }
+    } else {
+      const outgoing = store.getSuccessorLinks(predecessor.taskDataId).filter(l => l !== existing);
+      this.setOutgoingLinks(predecessor.taskDataId, [...outgoing, link]);
+    }
+    
+    this.applyPendingChanges();
+  };
+
+  private deleteDependency = (link: TaskLink): void => {
+    this.removeLinks([link]);
+    this.applyPendingChanges();
+  };
+
+  private removeLinks = (links: TaskLink[]): void => {
+    if (this.dataverseService.usesLinkTable) {
+      links.forEach(link => this.pendingChanges.enqueueLinkDelete(link));
+      return;
+    }
+    
+    const store = this.getTaskStore();
+    const removed = new Set(links);
+    const predecessorIds = new Set(links.map(link => link.predecessorId));
+    predecessorIds.forEach(predecessorId => {
+      this.setOutgoingLinks(
+        predecessorId,
+        store.getSuccessorLinks(predecessorId).filter(l => !removed.has(l))
+      );
+    });
+  };
+
+  private addTask = (): void => {
+    const { taskData, selectedTaskId } = this.state;
+    const selected = selectedTaskId ? this.getTaskStore().getTask(selectedTaskId) : undefined;
+    const calendar = selected ? this.getCalendar(selected) : this.dataverseService.calendars.defaultCalendar;
+    const startDate = nextWorkingTime(calendar, selected ? new Date(selected.finishDate) : new Date());
+    const finishDate = addWorkingDays(calendar, startDate, 1);
+    
+    const newTask: TaskData = {
+      taskNumber: '',
+      taskDataId: `new-${Date.now()}`,
+      taskName: 'New Task',
+      taskPhase: selected?.taskPhase ?? 'Planning',
+      startDate,
+      finishDate,
+      projectId: selected?.projectId ?? taskData[0]?.projectId ?? '',
+      projectUID: selected?.projectUID ?? taskData[0]?.projectUID ?? '',
+      duration: 1,
+      progress: 0,
+      isSummaryTask: false,
+      parentTask: selected?.parentTask,
+      taskIndex: taskData.length + 1
+    };
+    this.pendingChanges.enqueueCreate(newTask);
+    
+    // New tasks go right after the selected task (below its subtasks) as its sibling, or last.
+    // Placing it like a move renumbers taskIndex (and WBS) of the tasks that follow.
+    const store = new TaskStore();
+    store.setTasks([...taskData, newTask]);
+    const roots = store.getRootTasks();
+    const target = selected ?? (roots.length > 1 ? roots[roots.length - 2] : undefined);
+    if (target) {
+      const changes = moveTaskInOutline(store, newTask.taskDataId, target.taskDataId, 'after', {
+        includeWbs: this.dataverseService.isFieldMapped('wbs'),
+        getCalendar: this.getCalendar
       });
+      changes.forEach(({ taskId, changes: taskChanges }) => this.pendingChanges.enqueueUpdate(taskId, taskChanges));
+    }
+    
+    this.setState({ selectedTaskId: newTask.taskDataId });
+    this.applyPendingChanges();
+  };
+
+  /**
+   * Delete the selected task; a summary task is deleted with all its subtasks, after confirmation
+   */
+  private deleteSelectedTask = (): void => {
+    const { selectedTaskId } = this.state;
+    if (!selectedTaskId) return;
+    
+    const store = this.getTaskStore();
+    const descendantIds = store.getDescendantIds(selectedTaskId);
+    const ancestorIds = store.getAncestorIds(selectedTaskId);
+    if (descendantIds.length > 0
+      && !window.confirm(`Delete ${store.getTask(selectedTaskId)?.taskName ?? 'the task'} and its ${descendantIds.length} subtasks?`)) {
+      return;
+    }
+    
+    // Drop links to and from the deleted tasks so no successor field or link record points at them
+    const taskIds = [selectedTaskId, ...descendantIds];
+    const links = new Set(taskIds.flatMap(taskId => [...store.getSuccessorLinks(taskId), ...store.getPredecessorLinks(taskId)]));
+    this.removeLinks(Array.from(links));
+    taskIds.forEach(taskId => this.pendingChanges.enqueueDelete(taskId));
+    this.enqueueSummaryRollups(ancestorIds);
+    this.setState({ selectedTaskId: null });
+    this.applyPendingChanges();
+  };
+
+  /**
+   * Capture the current dates of all displayed tasks as their baseline.
+   * The baseline goes through the pending changes, so it is only stored on save.
+   */
+  private setBaseline = (): void => {
+    const { taskData } = this.state;
+    const hasBaseline = taskData.some(t => t.baselineStart || t.baselineFinish);
+    if (hasBaseline && !window.confirm('Replace the existing baseline with the current schedule?')) {
+      return;
+    }
+    
+    const baselineChanges = captureBaseline(taskData);
+    baselineChanges.forEach(({ taskId, changes }) => this.pendingChanges.enqueueUpdate(taskId, changes));
+    this.applyPendingChanges();
+  };
+
+  private saveChanges = async (): Promise<void> => {
+    this.setState({ isSaving: true, saveErrors: [] });
+    
+    try {
+      const getTaskName = (taskId: string) =>
+        this.loadedTaskData.find(t => t.taskDataId === taskId)?.taskName ?? taskId;
+      const saveErrors = await this.pendingChanges.save(this.dataverseService, getTaskName);
+      
+      if (saveErrors.length > 0) {
+        console.warn(`${saveErrors.length} changes could not be saved`, saveErrors);
+      }
+      this.setState({ isSaving: false, saveErrors, pendingChangeCount: this.pendingChanges.count });
       
-      console.log(`Refreshed data: ${sortedTaskData.length} tasks loaded`);
+      // Reload so saved records show their stored values; failed changes stay applied
+      this.refreshData();
     } catch (error) {
-      console.error('Error refreshing data:', error);
+      console.error('Error saving changes:', error);
       this.setState({
-        error: `Failed to refresh data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        isLoading: false
+        isSaving: false,
+        error: `Failed to save changes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        pendingChangeCount: this.pendingChanges.count
       });
     }
   };
 
+  private discardChanges = (): void => {
+    this.pendingChanges.clear();
+    this.setState({ saveErrors: [], schedulePreview: null });
+    this.applyPendingChanges();
+  };
 
+  private refreshData = (): void => {
+    console.log('Refreshing dataset...');
+    this.setState({ isLoading: true, error: null, loadProgress: null });
+    // New data is pushed back through updateView
+    this.getDataSet().refresh();
+  };
+
+  private getHeaderButtonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: '5px 10px',
+    border: `1px solid ${color}`,
+    backgroundColor: disabled ? '#f0f0f0' : color,
+    color: disabled ? '#999' : '#fff',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    borderRadius: '3px',
+    fontSize: '12px'
+  });
 
   public componentWillUnmount(): void {
     // No cleanup needed for custom chart
@@ -440,7 +766,9 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
 
   public render(): React.ReactNode {
     const { height = '500px', width = '100%' } = this.props;
-    const { isLoading, error, taskData, totalRecords, cacheStats } = this.state;
+    const { isLoading, error, taskData, totalRecords, viewTitle, loadProgress, mappingWarnings } = this.state;
+    const { selectedTaskId, pendingChangeCount, isSaving, saveErrors } = this.state;
+    const { autoSchedule, pullSuccessors, schedulePreview } = this.state;
 
     if (isLoading) {
       return (
@@ -454,7 +782,11 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
         }}>
           <div style={{ textAlign: 'center' }}>
             <div style={{ fontSize: '18px', marginBottom: '10px' }}>Loading All TaskData...</div>
-            <div style={{ fontSize: '14px', color: '#666' }}>Fetching all records from Dataverse table sorted by index</div>
+            <div style={{ fontSize: '14px', color: '#666' }}>
+              {loadProgress
+                ? `Loaded ${loadProgress.loaded} of ${loadProgress.total} records from the view`
+                : 'Fetching records from the configured view'}
+            </div>
           </div>
         </div>
       );
@@ -471,10 +803,10 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
           backgroundColor: '#ffebee'
         }}>
           <div style={{ textAlign: 'center', color: '#c62828' }}>
-            <div style={{ fontSize: '18px', marginBottom: '10px' }}>Error Loading Data</div>
+            <div style={{ fontSize: '18px', marginBottom: '10px' }}>Error</div>
             <div style={{ fontSize: '14px' }}>{error}</div>
             <button 
-              onClick={this.loadDataAndInitializeGantt}
+              onClick={this.refreshData}
               style={{ 
                 marginTop: '10px', 
                 padding: '8px 16px', 
@@ -512,9 +844,14 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
               const childTasks = taskData.filter(t => t.parentTask).length;
               return ` | Summary: ${summaryTasks} | Children: ${childTasks}`;
             })()}
-            {cacheStats && (
+            {viewTitle && (
               <span style={{ marginLeft: '10px', fontStyle: 'italic' }}>
-                | Cache: {cacheStats.cachedPages} pages
+                | View: {viewTitle}
+              </span>
+            )}
+            {loadProgress && (
+              <span style={{ marginLeft: '10px', color: '#e67e22' }}>
+                | Showing first {loadProgress.loaded} of {loadProgress.total} records
               </span>
             )}
           </span>
@@ -533,12 +870,146 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
               borderRadius: '3px',
               fontSize: '12px'
             }}
-            title="Refresh all data from Dataverse"
+            title="Refresh the view from Dataverse"
           >
             🔄 Refresh All Data
           </button>
+          
+          {mappingWarnings.length > 0 && (
+            <span
+              style={{ fontSize: '12px', color: '#e67e22', cursor: 'help' }}
+              title={mappingWarnings.join('\n')}
+            >
+              ⚠ {mappingWarnings.length} column mapping issue{mappingWarnings.length === 1 ? '' : 's'}
+            </span>
+          )}
+          
+          {/* Editing */}
+          <button
+            onClick={this.addTask}
+            disabled={isSaving}
+            style={this.getHeaderButtonStyle('#007bff', isSaving)}
+            title="Add a task after the selected task"
+          >
+            ➕ Add Task
+          </button>
+          <button
+            onClick={this.deleteSelectedTask}
+            disabled={isSaving || !selectedTaskId}
+            style={this.getHeaderButtonStyle('#dc3545', isSaving || !selectedTaskId)}
+            title="Delete the selected task"
+          >
+            🗑 Delete Task
+          </button>
+          <button
+            onClick={() => void this.saveChanges()}
+            disabled={isSaving || pendingChangeCount === 0}
+            style={this.getHeaderButtonStyle('#28a745', isSaving || pendingChangeCount === 0)}
+            title="Save pending changes to Dataverse"
+          >
+            {isSaving ? 'Saving...' : `💾 Save (${pendingChangeCount})`}
+          </button>
+          <button
+            onClick={this.discardChanges}
+            disabled={isSaving || pendingChangeCount === 0}
+            style={this.getHeaderButtonStyle('#6c757d', isSaving || pendingChangeCount === 0)}
+            title="Discard all pending changes"
+          >
+            ↩ Discard
+          </button>
+          
+          {/* Scheduling */}
+          <label style={{ fontSize: '12px', display: 'flex', alignItems: 'center', gap: '4px' }} title="Move successors when a task's dates change">
+            <input
+              type="checkbox"
+              checked={autoSchedule}
+              onChange={(e) => this.setState({ autoSchedule: e.target.checked })}
+            />
+            Auto-schedule
+          </label>
+          <label style={{ fontSize: '12px', display: 'flex', alignItems: 'center', gap: '4px', color: autoSchedule ? undefined : '#999' }} title="Also move successors earlier when their predecessors finish sooner">
+            <input
+              type="checkbox"
+              checked={pullSuccessors}
+              disabled={!autoSchedule}
+              onChange={(e) => this.setState({ pullSuccessors: e.target.checked })}
+            />
+            Pull successors
+          </label>
+          <button
+            onClick={this.setBaseline}
+            disabled={isSaving || taskData.length === 0}
+            style={this.getHeaderButtonStyle('#6f42c1', isSaving || taskData.length === 0)}
+            title={this.dataverseService.isFieldMapped('baselineStart') && this.dataverseService.isFieldMapped('baselineFinish')
+              ? 'Capture the current schedule as the baseline'
+              : 'Capture the current schedule as the baseline - the table has no baseline columns, so it is not saved'}
+          >
+            📌 Set Baseline
+          </button>
         </div>
 
+        {/* Auto-schedule preview, applied to the pending changes only when confirmed */}
+        {schedulePreview && (
+          <div style={{
+            padding: '8px 10px',
+            borderBottom: '1px solid #ffeeba',
+            backgroundColor: '#fff3cd',
+            color: '#856404',
+            fontSize: '12px',
+            minWidth: '1200px'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '4px' }}>
+              <span style={{ fontWeight: 'bold' }}>
+                This change moves {schedulePreview.changes.length} task{schedulePreview.changes.length === 1 ? '' : 's'}:
+              </span>
+              <button onClick={this.applySchedulePreview} style={this.getHeaderButtonStyle('#28a745', false)}>
+                ✔ Apply
+              </button>
+              <button onClick={() => this.setState({ schedulePreview: null })} style={this.getHeaderButtonStyle('#6c757d', false)}>
+                ✕ Cancel
+              </button>
+            </div>
+            <div style={{ maxHeight: '120px', overflowY: 'auto' }}>
+              {schedulePreview.changes.map(change => (
+                <div key={change.taskId}>
+                  • {change.taskName} ({change.reason}): {change.originalStart.toLocaleDateString()} – {change.originalFinish.toLocaleDateString()}
+                  {' → '}{change.startDate.toLocaleDateString()} – {change.finishDate.toLocaleDateString()}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Save errors, one per failed record */}
+        {saveErrors.length > 0 && (
+          <div style={{
+            padding: '8px 10px',
+            borderBottom: '1px solid #f5c6cb',
+            backgroundColor: '#f8d7da',
+            color: '#721c24',
+            fontSize: '12px',
+            minWidth: '1200px'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
+              <span style={{ fontWeight: 'bold' }}>
+                {saveErrors.length} change{saveErrors.length === 1 ? '' : 's'} could not be saved - they are still pending:
+              </span>
+              <button
+                onClick={() => this.setState({ saveErrors: [] })}
+                style={{ marginLeft: 'auto', border: 'none', background: 'none', color: '#721c24', cursor: 'pointer' }}
+                title="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+            {saveErrors.map(saveError => (
+              <div key={`${saveError.type}-${saveError.taskId}`}>
+                • {saveError.taskName} ({saveError.type}): {saveError.message}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Phase legend */}
         <div style={{ 
           padding: '10px', 
@@ -562,6 +1033,19 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
               <span style={{ fontSize: '12px' }}>{phase.name}</span>
             </div>
           ))}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <span style={{ color: '#2c3e50', fontSize: '12px' }}>◆</span>
+            <span style={{ fontSize: '12px' }}>Milestone</span>
+          </div>
+          <span style={{ fontWeight: 'bold', marginLeft: '15px' }}>Links:</span>
+          {Object.values(dependencyTypeStyles).map(style => (
+            <div key={style.label} style={{ display: 'flex', alignItems: 'center', gap: '5px' }} title={style.description}>
+              <svg width="24" height="12">
+                <line x1="0" y1="6" x2="24" y2="6" stroke={style.color} strokeWidth="1.5" strokeDasharray={style.dashArray} />
+              </svg>
+              <span style={{ fontSize: '12px' }}>{style.label} {style.description}</span>
+            </div>
+          ))}
         </div>
 
         {/* Custom Gantt Chart */}
@@ -570,13 +1054,22 @@ export class GanttChart extends React.Component<IGanttChartProps, IGanttChartSta
           minHeight: '400px'
         }}>
           <ImprovedGanttChart 
-            tasks={taskData}
-            onTaskClick={(task: TaskData) => {
-              console.log('Task clicked:', task.taskName);
-            }}
+            tasks={schedulePreview ? schedulePreview.taskData : taskData}
+            links={this.state.links}
+            previewTaskIds={schedulePreview ? new Set(schedulePreview.changes.map(change => change.taskId)) : undefined}
+            onTaskClick={(task: TaskData) => this.setState({ selectedTaskId: task.taskDataId })}
             onExpandCollapse={(taskId: string, expanded: boolean) => {
               console.log(`Task ${taskId} ${expanded ? 'expanded' : 'collapsed'}`);
             }}
+            onTaskChanged={this.handleTaskChanged}
+            onTaskMoved={this.keepViewOrder || schedulePreview ? undefined : this.moveTask} // Row order follows taskIndex, not the view's sorting
+            calendars={this.dataverseService.calendars}
+            markers={this.dataverseService.markers}
+            extraColumns={this.state.extraColumns}
+            columnLayoutKey={getColumnLayoutKey(this.props.context.userSettings.userId, this.getDataSet().getTargetEntityType())}
+            headerTiers={parseHeaderTiers(this.props.context.parameters.timelineHeaderTiers?.raw)}
+            onDependencyCreated={this.createDependency}
+            onDependencyDeleted={this.deleteDependency}
           />
         </div>
       </div>
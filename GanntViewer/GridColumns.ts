@@ -0,0 +1,118 @@
+export interface GridColumnDefinition {
+  id: string; // Built-in column id, or EXTRA_COLUMN_PREFIX + dataset column name
+  title: string;
+  defaultWidth: number;
+  minWidth: number;
+  align?: 'center';
+  visibleByDefault: boolean;
+  required?: boolean; // Can't be hidden
+}
+
+// A user's column choice, stored in display order
+export interface GridColumnLayout {
+  id: string;
+  width: number;
+  visible: boolean;
+}
+
+// Dataset column that isn't mapped to a TaskData field
+export interface GridExtraColumn {
+  name: string;
+  displayName: string;
+}
+
+export const EXTRA_COLUMN_PREFIX = 'extra:';
+
+export const builtInGridColumns: GridColumnDefinition[] = [
+  { id: 'taskNumber', title: '#', defaultWidth: 60, minWidth: 40, align: 'center', visibleByDefault: false },
+  { id: 'wbs', title: 'WBS', defaultWidth: 70, minWidth: 40, visibleByDefault: false },
+  { id: 'taskName', title: 'Task Name', defaultWidth: 350, minWidth: 150, visibleByDefault: true, required: true },
+  { id: 'phase', title: 'Phase', defaultWidth: 100, minWidth: 60, visibleByDefault: true },
+  { id: 'startDate', title: 'Start Date', defaultWidth: 100, minWidth: 80, visibleByDefault: true },
+  { id: 'finishDate', title: 'Finish Date', defaultWidth: 100, minWidth: 80, visibleByDefault: false },
+  { id: 'duration', title: 'Duration', defaultWidth: 80, minWidth: 50, align: 'center', visibleByDefault: true },
+  { id: 'progress', title: 'Progress', defaultWidth: 80, minWidth: 50, align: 'center', visibleByDefault: true },
+  { id: 'predecessors', title: 'Predecessors', defaultWidth: 120, minWidth: 60, visibleByDefault: false },
+  { id: 'project', title: 'Project', defaultWidth: 120, minWidth: 60, visibleByDefault: false }
+];
+
+export const getGridColumnDefinitions = (extraColumns: GridExtraColumn[] = []): GridColumnDefinition[] => [
+  ...builtInGridColumns,
+  ...extraColumns.map(column => ({
+    id: `${EXTRA_COLUMN_PREFIX}${column.name}`,
+    title: column.displayName || column.name,
+    defaultWidth: 120,
+    minWidth: 40,
+    visibleByDefault: false
+  }))
+];
+
+/**
+ * The saved layout applied to the available columns: saved columns keep their order, width and
+ * visibility, columns the layout doesn't know yet are added at the end with their defaults.
+ */
+export const mergeColumnLayout = (definitions: GridColumnDefinition[], saved: GridColumnLayout[] | null): { definition: GridColumnDefinition; width: number; visible: boolean }[] => {
+  const definitionsById = new Map(definitions.map(definition => [definition.id, definition]));
+  const savedIds = new Set<string>();
+  const columns: { definition: GridColumnDefinition; width: number; visible: boolean }[] = [];
+
+  (saved ?? []).forEach(column => {
+    const definition = definitionsById.get(column.id);
+    if (!definition || savedIds.has(column.id)) return;
+    savedIds.add(column.id);
+    columns.push({
+      definition,
+      width: Math.max(definition.minWidth, column.width),
+      visible: column.visible || !!definition.required
+    });
+  });
+
+  definitions
+    .filter(definition => !savedIds.has(definition.id))
+    .forEach(definition => columns.push({ definition, width: definition.defaultWidth, visible: definition.visibleByDefault }));
+
+  return columns;
+};
+
+/**
+ * Move a column in front of another one, or to the end when beforeId is null
+ */
+export const moveColumn = (layout: GridColumnLayout[], columnId: string, beforeId: string | null): GridColumnLayout[] => {
+  const column = layout.find(c => c.id === columnId);
+  if (!column || columnId === beforeId) return layout;
+
+  const rest = layout.filter(c => c.id !== columnId);
+  const index = beforeId ? rest.findIndex(c => c.id === beforeId) : -1;
+  return index < 0 ? [...rest, column] : [...rest.slice(0, index), column, ...rest.slice(index)];
+};
+
+/**
+ * Storage key of a user's layout for a table, so each user keeps their own columns per table
+ */
+export const getColumnLayoutKey = (userId: string, tableName: string): string =>
+  `ganttViewer.columns.${tableName || 'default'}.${userId.replace(/[{}]/g, '').toLowerCase()}`;
+
+export const loadColumnLayout = (key: string): GridColumnLayout[] | null => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(key) ?? 'null');
+    if (!Array.isArray(stored)) return null;
+
+    return (stored as (Partial<GridColumnLayout> | null)[]).filter((column): column is GridColumnLayout =>
+      !!column && typeof column.id === 'string' && typeof column.width === 'number' && typeof column.visible === 'boolean');
+  } catch (error) {
+    console.warn('Saved grid columns could not be read:', error);
+    return null;
+  }
+};
+
+export const saveColumnLayout = (key: string, layout: GridColumnLayout[] | null): void => {
+  try {
+    if (layout) {
+      window.localStorage.setItem(key, JSON.stringify(layout));
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.warn('Grid columns could not be saved:', error);
+  }
+};
@@ -0,0 +1,103 @@
+import { TaskData } from "./types";
+
+export type EditableColumnId = 'taskName' | 'phase' | 'startDate' | 'finishDate' | 'duration' | 'progress';
+
+export const taskPhases: TaskData['taskPhase'][] = ['Initiation', 'Planning', 'Selection', 'Execution', 'Closure'];
+
+// Grid columns that can be edited in place, in the order Tab moves through them
+const editableColumns: EditableColumnId[] = ['taskName', 'phase', 'startDate', 'finishDate', 'duration', 'progress'];
+
+// Summary dates, duration and progress are rolled up from the children
+const summaryEditableColumns: EditableColumnId[] = ['taskName', 'phase'];
+
+export interface CellEditOptions {
+  calculateDuration: (task: TaskData, startDate: Date, finishDate: Date) => number;
+  addDuration: (task: TaskData, startDate: Date, days: number) => Date; // Finish of a task of that many days
+}
+
+export const isEditableColumn = (columnId: string, task: TaskData): columnId is EditableColumnId =>
+  (task.isSummaryTask ? summaryEditableColumns : editableColumns).includes(columnId as EditableColumnId);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Value shown in a cell's editor when editing starts
+ */
+export const getEditorValue = (task: TaskData, columnId: EditableColumnId): string => {
+  switch (columnId) {
+    case 'taskName': return task.taskName;
+    case 'phase': return task.taskPhase;
+    case 'startDate': return toDateInputValue(task.startDate);
+    case 'finishDate': return toDateInputValue(task.finishDate);
+    case 'duration': return String(task.duration ?? 0);
+    case 'progress': return String(Math.round((task.progress ?? 0) * 100));
+  }
+};
+
+/**
+ * Date picked in the editor, keeping the time of day of the current date
+ */
+const parseDateInput = (value: string, current: Date): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const result = new Date(current);
+  result.setFullYear(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Days past the end of the month, such as 2025-02-30, would roll over into the next month
+  return result.getMonth() === Number(match[2]) - 1 && result.getDate() === Number(match[3]) ? result : null;
+};
+
+/**
+ * Turn an edited cell value into task changes. Returns an error message when the value isn't valid,
+ * and no changes when it matches the task's current value.
+ */
+export const parseCellEdit = (
+  task: TaskData,
+  columnId: EditableColumnId,
+  value: string,
+  options: CellEditOptions
+): { changes: Partial<TaskData>; error?: string } => {
+  if (value === getEditorValue(task, columnId)) {
+    return { changes: {} };
+  }
+
+  switch (columnId) {
+    case 'taskName': {
+      const taskName = value.trim();
+      return taskName ? { changes: { taskName } } : { changes: {}, error: "Task name can't be empty" };
+    }
+    case 'phase': {
+      const phase = taskPhases.find(p => p === value);
+      return phase ? { changes: { taskPhase: phase } } : { changes: {}, error: `Unknown phase "${value}"` };
+    }
+    case 'startDate': {
+      const startDate = parseDateInput(value, task.startDate);
+      if (!startDate) return { changes: {}, error: 'Enter a start date' };
+      if (startDate > task.finishDate) return { changes: {}, error: "Start can't be after the finish" };
+      return { changes: { startDate, duration: options.calculateDuration(task, startDate, task.finishDate) } };
+    }
+    case 'finishDate': {
+      const finishDate = parseDateInput(value, task.finishDate);
+      if (!finishDate) return { changes: {}, error: 'Enter a finish date' };
+      if (finishDate < task.startDate) return { changes: {}, error: "Finish can't be before the start" };
+      return { changes: { finishDate, duration: options.calculateDuration(task, task.startDate, finishDate) } };
+    }
+    case 'duration': {
+      const duration = Number(value.trim());
+      if (!value.trim() || !isFinite(duration) || duration < 0) {
+        return { changes: {}, error: 'Duration must be a number of days, 0 or more' };
+      }
+      return { changes: { duration, finishDate: options.addDuration(task, task.startDate, duration) } };
+    }
+    case 'progress': {
+      const progress = Number(value.trim().replace(/%$/, ''));
+      if (!value.trim() || !isFinite(progress) || progress < 0 || progress > 100) {
+        return { changes: {}, error: 'Progress must be between 0 and 100%' };
+      }
+      return { changes: { progress: progress / 100 } };
+    }
+  }
+};
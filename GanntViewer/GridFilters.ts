@@ -0,0 +1,121 @@
+import { TaskData } from "./types";
+
+export interface GridSort {
+  columnId: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface TaskFilter {
+  text: string; // Matched against name, number, phase, project and extra columns
+  phases: TaskData['taskPhase'][]; // Empty for all phases
+  dateFrom: string; // yyyy-mm-dd; tasks that end before it are filtered out
+  dateTo: string; // yyyy-mm-dd; tasks that start after it are filtered out
+  minProgress: number; // Percent
+  maxProgress: number;
+  overdueOnly: boolean; // Unfinished tasks whose finish has passed
+}
+
+export const emptyTaskFilter: TaskFilter = {
+  text: '',
+  phases: [],
+  dateFrom: '',
+  dateTo: '',
+  minProgress: 0,
+  maxProgress: 100,
+  overdueOnly: false
+};
+
+/**
+ * Number of filter criteria in use, shown on the filter button
+ */
+export const countActiveFilters = (filter: TaskFilter): number => [
+  filter.text.trim() !== '',
+  filter.phases.length > 0,
+  filter.dateFrom !== '' || filter.dateTo !== '',
+  filter.minProgress > 0 || filter.maxProgress < 100,
+  filter.overdueOnly
+].filter(active => active).length;
+
+const parseFilterDate = (value: string, endOfDay: boolean): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return date;
+};
+
+export const isOverdue = (task: TaskData, now: Date): boolean =>
+  task.finishDate < now && (task.progress ?? 0) < 1;
+
+/**
+ * Whether a task passes every criterion of the filter
+ */
+export const matchesTaskFilter = (task: TaskData, filter: TaskFilter, now: Date): boolean => {
+  if (filter.phases.length > 0 && !filter.phases.includes(task.taskPhase)) {
+    return false;
+  }
+
+  // The task has to overlap the date range
+  const from = parseFilterDate(filter.dateFrom, false);
+  const to = parseFilterDate(filter.dateTo, true);
+  if ((from && task.finishDate < from) || (to && task.startDate >= to)) {
+    return false;
+  }
+
+  const progress = Math.round((task.progress ?? 0) * 100);
+  if (progress < filter.minProgress || progress > filter.maxProgress) {
+    return false;
+  }
+
+  if (filter.overdueOnly && !isOverdue(task, now)) {
+    return false;
+  }
+
+  const text = filter.text.trim().toLowerCase();
+  if (text) {
+    const values = [task.taskName, task.taskNumber, task.taskPhase, task.projectId, ...Object.values(task.extraFields ?? {})];
+    return values.some(value => value?.toLowerCase().includes(text));
+  }
+
+  return true;
+};
+
+/**
+ * Compare two sort values; text compares numbers inside it numerically, so "1.10" comes after "1.9"
+ */
+export const compareSortValues = (a: string | number, b: string | number): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Whether a task's name, number or id contains the search text, ignoring case
+ */
+export const matchesTaskSearch = (task: TaskData, search: string): boolean => {
+  const text = search.trim().toLowerCase();
+  return !!text && [task.taskName, task.taskNumber, task.taskDataId].some(value => value?.toLowerCase().includes(text));
+};
+
+/**
+ * Split text into the parts that match the search text and the parts between them, for highlighting
+ */
+export const splitSearchMatches = (text: string, search: string): { text: string; isMatch: boolean }[] => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return [{ text, isMatch: false }];
+
+  const parts: { text: string; isMatch: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    if (index > position) parts.push({ text: text.slice(position, index), isMatch: false });
+    parts.push({ text: text.slice(index, index + needle.length), isMatch: true });
+    position = index + needle.length;
+    index = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), isMatch: false });
+  return parts;
+};
@@ -1,15 +1,74 @@
 import * as React from 'react';
-import { TaskData } from './types';
+import { DependencyType, TaskData, TaskLink } from './types';
+import { CriticalPathResult, calculateCriticalPath } from './CriticalPath';
+import { getLinkKey } from './TaskLinks';
+import { TaskStore } from './TaskStore';
+import { RowOccupancy } from './RowOccupancy';
+import { getScheduleVariance, isSlipping } from './Baseline';
+import { CalendarSettings, WorkCalendar, addWorkingDays, getNonWorkingRanges, getTaskCalendar, getWorkingDays, getWorkingDuration, nextWorkingTime } from './WorkCalendar';
+import { OutlineDropPosition, canMoveTask, getIndentTarget, getOutdentTarget } from './TaskOutline';
+import { EditableColumnId, getEditorValue, isEditableColumn, parseCellEdit, taskPhases } from './GridEditing';
+import { GridSort, TaskFilter, compareSortValues, countActiveFilters, emptyTaskFilter, matchesTaskFilter, matchesTaskSearch, splitSearchMatches } from './GridFilters';
+import { EXTRA_COLUMN_PREFIX, GridColumnDefinition, GridColumnLayout, GridExtraColumn, getGridColumnDefinitions, loadColumnLayout, mergeColumnLayout, moveColumn, saveColumnLayout } from './GridColumns';
+import { MarkerSettings, STATUS_DATE_COLOR, TODAY_MARKER_COLOR, TimelineMarker } from './TimelineMarkers';
+import { ZoomLevel, addSnapUnits, addZoomUnits, clampPixelsPerDay, getHeaderTiers, getTimelineWidth, getZoomLevelForScale, getZoomPixelsPerDay, isScaleLimitedByWidth, snapToZoomUnit, startOfZoomUnit, zoomScales } from './TimelineScale';
 
 interface IImprovedGanttProps {
   tasks: TaskData[];
+  links: TaskLink[]; // Dependencies between tasks; only links whose tasks are both visible are drawn
+  previewTaskIds?: Set<string>; // Tasks with proposed, not yet applied dates - outlined on the timeline
+  calendars?: CalendarSettings; // Working days per project; without it every day is a working day
+  headerTiers?: ZoomLevel[]; // Timeline header rows; by default they follow the zoom level
+  markers?: MarkerSettings; // Status date and date markers; the today line is shown unless turned off here
+  extraColumns?: GridExtraColumn[]; // Dataset columns the user can add to the grid
+  columnLayoutKey?: string; // Where the user's column layout is saved; without it changes last until reload
   onTaskClick?: (task: TaskData) => void;
   onExpandCollapse?: (taskId: string, expanded: boolean) => void;
+  onTaskChanged?: (task: TaskData, changes: Partial<TaskData>) => void; // Bars are only draggable and cells editable when this is set
+  onTaskMoved?: (task: TaskData, target: TaskData, position: OutlineDropPosition) => void; // Rows can be dragged and indented when this is set
+  onDependencyCreated?: (predecessor: TaskData, successor: TaskData, dependencyType: DependencyType) => void;
+  onDependencyDeleted?: (link: TaskLink) => void;
+}
+
+// Line style per dependency type, shared with the legend in GanttChart
+export const dependencyTypeStyles: Record<DependencyType, { color: string; dashArray?: string; label: string; description: string }> = {
+  FinishToStart: { color: '#2c5aa0', label: 'FS', description: 'Finish-to-Start' },
+  StartToStart: { color: '#16a085', dashArray: '6,3', label: 'SS', description: 'Start-to-Start' },
+  FinishToFinish: { color: '#8e44ad', dashArray: '2,3', label: 'FF', description: 'Finish-to-Finish' },
+  StartToFinish: { color: '#d35400', dashArray: '8,3,2,3', label: 'SF', description: 'Start-to-Finish' }
+};
+
+interface ILinkDragState {
+  fromTaskId: string;
+  fromEnd: 'start' | 'finish';
+  originX: number; // Relative to the timeline content
+  originY: number;
+  currentX: number;
+  currentY: number;
+}
+
+interface IDragState {
+  taskId: string;
+  mode: 'move' | 'resize-start' | 'resize-end';
+  originX: number;
+  originalStart: Date;
+  originalFinish: Date;
+  previewStart: Date;
+  previewFinish: Date;
+}
+
+interface IEditingCell {
+  taskId: string;
+  columnId: EditableColumnId;
+  value: string | null; // null until the user types, so the editor shows the task's current value
+  error: string | null;
 }
 
 interface IImprovedGanttState {
   expandedTasks: Set<string>;
-  zoomLevel: 'Day' | 'Week' | 'Month' | 'Quarter';
+  zoomLevel: ZoomLevel; // Header granularity, follows pixelsPerDay
+  pixelsPerDay: number;
+  zoomLimited: boolean; // The last zoom was lowered to keep the timeline within the widest layout browsers support
   timelineStart: Date;
   timelineEnd: Date;
   timelineWidth: number;
@@ -22,11 +81,47 @@ interface IImprovedGanttState {
   // Cached flattened hierarchy
   cachedFlatHierarchy: TaskHierarchy[] | null;
   flatHierarchyCacheKey: string;
+  dragState: IDragState | null; // Bar being moved/resized
+  linkDragState: ILinkDragState | null; // Dependency being drawn between two bars
+  selectedLink: TaskLink | null;
+  showCriticalPath: boolean;
+  rowWindow: { start: number; end: number }; // Rows mounted in the grid and timeline (end exclusive)
+  columnWindow: { left: number; right: number }; // Horizontal range of the timeline header that is mounted, in pixels
+  showSlippingOnly: boolean;
+  slipThreshold: number; // Days behind the baseline before a task counts as slipping
+  columnLayout: GridColumnLayout[] | null; // User's grid columns; null for the defaults
+  showColumnPicker: boolean;
+  columnDropTarget: string | null; // Header a dragged column would be dropped in front of
+  editingCell: IEditingCell | null; // Grid cell with an open editor
+  rowDropTarget: { taskId: string; position: OutlineDropPosition } | null; // Where a dragged row would go
+  gridSort: GridSort | null; // Siblings sorted by a grid column; null for the outline order
+  taskFilter: TaskFilter;
+  showFilterBar: boolean;
+  searchText: string;
+  searchIndex: number; // Current search match
 }
 
+const CRITICAL_COLOR = '#c0392b';
+const ROW_HEIGHT = 36;
+const OVERSCAN_ROWS = 10; // Rows mounted above and below the viewport
+const HEADER_WINDOW_STEP = 500; // Pixels; the mounted header range moves in steps of this size
+const HEADER_OVERSCAN = 1000; // Pixels of header mounted left and right of the viewport
+const FLOAT_COLUMN_WIDTH = 96;
+const VARIANCE_COLUMN_WIDTH = 96;
+const BASELINE_COLOR = '#7f8c8d';
+const MILESTONE_SIZE = 18; // Width and height of the diamond's bounding box
+const MILESTONE_COLOR = '#2c3e50';
+const NON_WORKING_COLOR = 'rgba(108, 117, 125, 0.12)';
+const WHEEL_ZOOM_SPEED = 0.002; // Scale change per pixel of wheel delta
+const FIT_MARGIN = 0.05; // Share of the viewport left free on each side by fit and zoom to selection
+const HEADER_TIER_HEIGHT = 22;
+const HEADER_BOTTOM_TIER_HEIGHT = 40;
+const MARKER_STRIP_HEIGHT = 18;
+
 interface TaskHierarchy {
   task: TaskData;
   level: number;
+  outlineNumber: string; // WBS number, e.g. 1.2.3
   children: TaskHierarchy[];
   isVisible: boolean;
 }
@@ -35,12 +130,30 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
   private containerRef: React.RefObject<HTMLDivElement>;
   private leftGridRef: React.RefObject<HTMLDivElement>;
   private rightTimelineRef: React.RefObject<HTMLDivElement>;
+  private timelineContentRef: React.RefObject<HTMLDivElement>;
+  private timelineHeaderRef: React.RefObject<HTMLDivElement>;
   private hoverTimeoutId: number | null = null;
   // Instance-level cache that persists across renders without triggering setState
   private hierarchyCache: TaskHierarchy[] | null = null;
   private hierarchyCacheKey: string = '';
   private flatHierarchyCache: TaskHierarchy[] | null = null;
   private flatHierarchyCacheKey: string = '';
+  private criticalPathCache: { tasks: TaskData[]; links: TaskLink[]; calendars?: CalendarSettings; result: CriticalPathResult } | null = null;
+  private baselineCache: { version: number; hasBaselines: boolean } | null = null;
+  private taskStore = new TaskStore();
+  private rowOccupancyCache: { tasks: TaskHierarchy[]; timelineStart: Date; timelineEnd: Date; timelineWidth: number; occupancy: RowOccupancy } | null = null;
+  private pendingZoom: { pixelsPerDay: number; clientX: number } | null = null; // Applied on the next animation frame
+  private zoomFrame: number | null = null;
+  private pinchStart: { distance: number; pixelsPerDay: number } | null = null;
+  private columnResize: { columnId: string; originX: number; originWidth: number } | null = null;
+  private draggedColumnId: string | null = null;
+  private draggedTaskId: string | null = null;
+  private displayedRows: TaskHierarchy[] = []; // Rows of the last render, in order, for moving between cell editors
+  private sortedHierarchyCache: { hierarchy: TaskHierarchy[]; sort: GridSort; result: TaskHierarchy[] } | null = null;
+  private filterCache: { hierarchy: TaskHierarchy[]; filter: TaskFilter; taskIds: Set<string> } | null = null;
+  private suppressNextHeaderClick = false;
+  private searchCache: { hierarchy: TaskHierarchy[]; text: string; taskIds: string[] } | null = null; // Matching task ids in row order, for the last hierarchy and search text
+  private columnLayoutCache: { extraColumns?: GridExtraColumn[]; layout: GridColumnLayout[] | null; columns: ReturnType<typeof mergeColumnLayout> } | null = null;
 
   constructor(props: IImprovedGanttProps) {
     super(props);
@@ -48,51 +161,91 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     this.containerRef = React.createRef();
     this.leftGridRef = React.createRef();
     this.rightTimelineRef = React.createRef();
+    this.timelineContentRef = React.createRef();
+    this.timelineHeaderRef = React.createRef();
     
-    const { timelineStart, timelineEnd } = this.calculateTimelineBounds(props.tasks);
-    const defaultZoomLevel = 'Week';
+    const defaultZoomLevel: ZoomLevel = 'Week';
+    const defaultPixelsPerDay = getZoomPixelsPerDay(defaultZoomLevel);
+    const { timelineStart, timelineEnd } = this.calculateTimelineBounds(props.tasks, defaultZoomLevel);
     
     this.state = {
       expandedTasks: new Set(), // Start with all dropdowns/groups closed by default
       zoomLevel: defaultZoomLevel, // Default to Week view
+      pixelsPerDay: defaultPixelsPerDay,
+      zoomLimited: false,
       timelineStart,
       timelineEnd,
-      timelineWidth: this.calculateTimelineWidthByZoom(defaultZoomLevel, timelineStart, timelineEnd),
+      timelineWidth: getTimelineWidth(defaultPixelsPerDay, timelineStart, timelineEnd),
       hoveredTask: null,
       selectedTask: null,
       scrollingToTask: null, // Track scrolling animation
       cachedHierarchy: null,
       hierarchyCacheKey: '',
       cachedFlatHierarchy: null,
-      flatHierarchyCacheKey: ''
+      flatHierarchyCacheKey: '',
+      dragState: null,
+      linkDragState: null,
+      selectedLink: null,
+      showCriticalPath: false,
+      rowWindow: { start: 0, end: 40 },
+      columnWindow: { left: 0, right: 4 * HEADER_WINDOW_STEP },
+      showSlippingOnly: false,
+      slipThreshold: 0,
+      columnLayout: props.columnLayoutKey ? loadColumnLayout(props.columnLayoutKey) : null,
+      showColumnPicker: false,
+      columnDropTarget: null,
+      editingCell: null,
+      rowDropTarget: null,
+      gridSort: null,
+      taskFilter: emptyTaskFilter,
+      showFilterBar: false,
+      searchText: '',
+      searchIndex: 0
     };
   }
 
   public componentDidMount(): void {
     // Force a recalculation of timeline width after initial render
     // This ensures the Month view is properly sized from the start
-    const { timelineStart, timelineEnd, zoomLevel } = this.state;
-    const correctWidth = this.calculateTimelineWidthByZoom(zoomLevel, timelineStart, timelineEnd);
+    const { timelineStart, timelineEnd, pixelsPerDay } = this.state;
+    const correctWidth = getTimelineWidth(pixelsPerDay, timelineStart, timelineEnd);
     
     if (correctWidth !== this.state.timelineWidth) {
       this.setState({ timelineWidth: correctWidth });
     }
+    
+    this.updateRenderWindow();
+    window.addEventListener('resize', this.updateRenderWindow);
+    
+    // Native listeners, because React's can't stop the browser from zooming the page
+    const timeline = this.rightTimelineRef.current;
+    if (timeline) {
+      timeline.addEventListener('wheel', this.handleTimelineWheel, { passive: false });
+      timeline.addEventListener('touchstart', this.handlePinchStart, { passive: false });
+      timeline.addEventListener('touchmove', this.handlePinchMove, { passive: false });
+      timeline.addEventListener('touchend', this.handlePinchEnd);
+    }
   }
 
-  public componentDidUpdate(prevProps: IImprovedGanttProps): void {
+  public componentDidUpdate(prevProps: IImprovedGanttProps, prevState: IImprovedGanttState): void {
+    if (prevState.timelineWidth !== this.state.timelineWidth) {
+      this.updateRenderWindow();
+    }
+    
+    if (prevProps.columnLayoutKey !== this.props.columnLayoutKey && this.props.columnLayoutKey) {
+      this.setState({ columnLayout: loadColumnLayout(this.props.columnLayoutKey) });
+    }
+    
     if (prevProps.tasks !== this.props.tasks && this.props.tasks.length > 0) {
-      const { timelineStart, timelineEnd } = this.calculateTimelineBounds(this.props.tasks);
-      
       // Clear instance-level caches
       this.hierarchyCache = null;
       this.hierarchyCacheKey = '';
       this.flatHierarchyCache = null;
       this.flatHierarchyCacheKey = '';
       
+      // New bounds may limit the scale, and with it the header granularity
+      this.setScale(this.state.pixelsPerDay);
       this.setState({ 
-        timelineStart, 
-        timelineEnd,
-        timelineWidth: this.calculateTimelineWidthByZoom(this.state.zoomLevel, timelineStart, timelineEnd),
         // Clear state cache when tasks change
         cachedHierarchy: null,
         hierarchyCacheKey: '',
@@ -110,21 +263,283 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     if (this.throttleTimeout) {
       clearTimeout(this.throttleTimeout);
     }
+    window.removeEventListener('pointermove', this.handleBarDragMove);
+    window.removeEventListener('pointerup', this.handleBarDragEnd);
+    window.removeEventListener('pointermove', this.handleLinkDragMove);
+    window.removeEventListener('pointerup', this.handleLinkDragEnd);
+    window.removeEventListener('resize', this.updateRenderWindow);
+    window.removeEventListener('pointermove', this.handleColumnResizeMove);
+    window.removeEventListener('pointerup', this.handleColumnResizeEnd);
+    
+    const timeline = this.rightTimelineRef.current;
+    if (timeline) {
+      timeline.removeEventListener('wheel', this.handleTimelineWheel);
+      timeline.removeEventListener('touchstart', this.handlePinchStart);
+      timeline.removeEventListener('touchmove', this.handlePinchMove);
+      timeline.removeEventListener('touchend', this.handlePinchEnd);
+    }
+    if (this.zoomFrame !== null) {
+      cancelAnimationFrame(this.zoomFrame);
+    }
   }
 
+  /**
+   * Index over the current tasks and links, brought up to date with the props on each call
+   */
+  private getTaskStore = (): TaskStore => {
+    this.taskStore.setTasks(this.props.tasks);
+    this.taskStore.setLinks(this.props.links);
+    return this.taskStore;
+  };
+
   private generateHierarchyCacheKey = (): string => {
     const expandedTasksArray = Array.from(this.state.expandedTasks).sort();
-    const tasksHash = this.props.tasks.length + '_' + this.props.tasks.map(t => t.taskDataId).join('|');
-    return `${tasksHash}_${expandedTasksArray.join('|')}`;
+    return `${this.getTaskStore().version}_${expandedTasksArray.join('|')}`;
   };
 
   private generateFlatHierarchyCacheKey = (hierarchies: TaskHierarchy[]): string => {
     const expandedTasksArray = Array.from(this.state.expandedTasks).sort();
     const hierarchyHash = hierarchies.map(h => h.task.taskDataId).join('|');
-    return `${hierarchyHash}_${expandedTasksArray.join('|')}`;
+    const { gridSort } = this.state;
+    // The store version and sort cover order changes below the root tasks
+    return `${this.getTaskStore().version}_${gridSort ? `${gridSort.columnId}:${gridSort.direction}` : ''}_${hierarchyHash}_${expandedTasksArray.join('|')}`;
+  };
+
+  /**
+   * Critical path of the current tasks and links, recalculated only when they or the calendars change
+   */
+  private getCriticalPath = (): CriticalPathResult => {
+    const { tasks, links, calendars } = this.props;
+    const cache = this.criticalPathCache;
+    if (cache && cache.tasks === tasks && cache.links === links && cache.calendars === calendars) {
+      return cache.result;
+    }
+
+    const result = calculateCriticalPath(tasks, links, { getCalendar: calendars ? this.getCalendar : undefined });
+    this.criticalPathCache = { tasks, links, calendars, result };
+    return result;
+  };
+
+  /**
+   * True when any task has a baseline - the baseline bars and variance columns are shown only then
+   */
+  private hasBaselines = (): boolean => {
+    const store = this.getTaskStore();
+    if (!this.baselineCache || this.baselineCache.version !== store.version) {
+      this.baselineCache = { version: store.version, hasBaselines: store.getTasks().some(t => t.baselineStart && t.baselineFinish) };
+    }
+    return this.baselineCache.hasBaselines;
+  };
+
+  /**
+   * Rows left by the slipping filter: slipping tasks and the summaries above them
+   */
+  private filterSlippingTasks = (rows: TaskHierarchy[]): TaskHierarchy[] => {
+    const store = this.getTaskStore();
+    const keep = new Set<string>();
+    
+    store.getTasks().forEach(task => {
+      if (isSlipping(task, this.state.slipThreshold)) {
+        keep.add(task.taskDataId);
+        store.getAncestorIds(task.taskDataId).forEach(id => keep.add(id));
+      }
+    });
+    
+    return rows.filter(row => keep.has(row.task.taskDataId));
+  };
+
+  /**
+   * Hierarchy with the siblings at every level sorted by the grid sort, so children stay under their parents
+   */
+  private sortHierarchy = (hierarchy: TaskHierarchy[]): TaskHierarchy[] => {
+    const { gridSort } = this.state;
+    if (!gridSort) return hierarchy;
+    
+    const cache = this.sortedHierarchyCache;
+    if (cache && cache.hierarchy === hierarchy && cache.sort === gridSort) {
+      return cache.result;
+    }
+    
+    const factor = gridSort.direction === 'asc' ? 1 : -1;
+    const sortLevel = (nodes: TaskHierarchy[]): TaskHierarchy[] => nodes
+      .map(node => ({ ...node, children: sortLevel(node.children) }))
+      .sort((a, b) => factor * compareSortValues(this.getSortValue(a, gridSort.columnId), this.getSortValue(b, gridSort.columnId)));
+    
+    const result = sortLevel(hierarchy);
+    this.sortedHierarchyCache = { hierarchy, sort: gridSort, result };
+    return result;
+  };
+
+  private getSortValue = (row: TaskHierarchy, columnId: string): string | number => {
+    const { task } = row;
+    switch (columnId) {
+      case 'taskName': return task.taskName;
+      case 'taskNumber': return task.taskNumber ?? '';
+      case 'wbs': return row.outlineNumber;
+      case 'phase': return taskPhases.indexOf(task.taskPhase);
+      case 'startDate': return task.startDate.getTime();
+      case 'finishDate': return task.finishDate.getTime();
+      case 'duration': return task.duration ?? 0;
+      case 'progress': return task.progress ?? 0;
+      case 'predecessors': return this.formatPredecessors(task);
+      case 'project': return task.projectId || task.projectUID || '';
+      default: return task.extraFields?.[columnId.slice(EXTRA_COLUMN_PREFIX.length)] ?? '';
+    }
+  };
+
+  /**
+   * Header click: ascending, then descending, then back to the outline order
+   */
+  private toggleSort = (columnId: string): void => {
+    if (this.suppressNextHeaderClick) return;
+    
+    const { gridSort } = this.state;
+    if (gridSort?.columnId !== columnId) {
+      this.setState({ gridSort: { columnId, direction: 'asc' } });
+    } else {
+      this.setState({ gridSort: gridSort.direction === 'asc' ? { columnId, direction: 'desc' } : null });
+    }
+  };
+
+  /**
+   * Tasks that match the filter and the summaries above them, which stay visible for context.
+   * Summaries are matched on their rolled-up values.
+   */
+  private getFilteredTaskIds = (hierarchy: TaskHierarchy[], filter: TaskFilter): Set<string> => {
+    const cache = this.filterCache;
+    if (cache && cache.hierarchy === hierarchy && cache.filter === filter) {
+      return cache.taskIds;
+    }
+    
+    const taskIds = new Set<string>();
+    const now = new Date();
+    const visit = (node: TaskHierarchy, ancestorIds: string[]) => {
+      if (matchesTaskFilter(node.task, filter, now)) {
+        taskIds.add(node.task.taskDataId);
+        ancestorIds.forEach(id => taskIds.add(id));
+      }
+      node.children.forEach(child => visit(child, [...ancestorIds, node.task.taskDataId]));
+    };
+    hierarchy.forEach(node => visit(node, []));
+    
+    this.filterCache = { hierarchy, filter, taskIds };
+    return taskIds;
+  };
+
+  /**
+   * Update the filter and expand the summaries above the matching tasks, so the matches are shown
+   */
+  private setTaskFilter = (changes: Partial<TaskFilter>): void => {
+    const taskFilter = { ...this.state.taskFilter, ...changes };
+    if (countActiveFilters(taskFilter) === 0) {
+      this.setState({ taskFilter });
+      return;
+    }
+    
+    const filteredIds = this.getFilteredTaskIds(this.sortHierarchy(this.buildHierarchy()), taskFilter);
+    const store = this.getTaskStore();
+    const expandedTasks = new Set(this.state.expandedTasks);
+    filteredIds.forEach(id => {
+      if (store.hasChildren(id)) expandedTasks.add(id);
+    });
+    this.setState({ taskFilter, expandedTasks });
+  };
+
+  /**
+   * Tasks matching the search box, in grid order, including tasks under collapsed summaries
+   */
+  private getSearchMatchIds = (): string[] => {
+    const hierarchy = this.sortHierarchy(this.buildHierarchy());
+    const text = this.state.searchText;
+    const cache = this.searchCache;
+    if (cache && cache.hierarchy === hierarchy && cache.text === text) {
+      return cache.taskIds;
+    }
+    
+    const taskIds: string[] = [];
+    const visit = (node: TaskHierarchy) => {
+      if (matchesTaskSearch(node.task, text)) taskIds.push(node.task.taskDataId);
+      node.children.forEach(visit);
+    };
+    if (text.trim()) hierarchy.forEach(visit);
+    
+    this.searchCache = { hierarchy, text, taskIds };
+    return taskIds;
+  };
+
+  private getCurrentSearchMatchId = (): string | null => {
+    const matchIds = this.getSearchMatchIds();
+    return matchIds.length > 0 ? matchIds[Math.min(this.state.searchIndex, matchIds.length - 1)] : null;
+  };
+
+  /**
+   * New search text: expand the summaries above every match and jump to the first one
+   */
+  private setSearchText = (searchText: string): void => {
+    this.setState({ searchText, searchIndex: 0 }, () => {
+      const matchIds = this.getSearchMatchIds();
+      if (matchIds.length === 0) return;
+      
+      const store = this.getTaskStore();
+      const expandedTasks = new Set(this.state.expandedTasks);
+      matchIds.forEach(id => store.getAncestorIds(id).forEach(ancestorId => expandedTasks.add(ancestorId)));
+      this.setState({ expandedTasks }, () => this.jumpToSearchMatch());
+    });
+  };
+
+  private stepSearch = (step: number): void => {
+    const count = this.getSearchMatchIds().length;
+    if (count === 0) return;
+    
+    const searchIndex = (Math.min(this.state.searchIndex, count - 1) + step + count) % count;
+    this.setState({ searchIndex }, this.jumpToSearchMatch);
+  };
+
+  /**
+   * Select the current match and scroll both panes to it
+   */
+  private jumpToSearchMatch = (): void => {
+    const taskId = this.getCurrentSearchMatchId();
+    const rowIndex = this.displayedRows.findIndex(row => row.task.taskDataId === taskId);
+    if (rowIndex < 0) {
+      return; // Hidden by the grid filters
+    }
+    
+    const { task } = this.displayedRows[rowIndex];
+    this.setState({ selectedTask: task.taskDataId });
+    this.scrollToTask(task, rowIndex);
+    if (this.props.onTaskClick) {
+      this.props.onTaskClick(task);
+    }
+  };
+
+  private handleSearchKeyDown = (e: React.KeyboardEvent): void => {
+    e.stopPropagation(); // Typing isn't a grid shortcut
+    
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.stepSearch(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      this.setSearchText('');
+    }
+  };
+
+  /**
+   * Text with the parts matching the search box marked; the current match is marked stronger
+   */
+  private renderSearchHighlight = (text: string, isCurrentMatch: boolean): React.ReactNode => {
+    const { searchText } = this.state;
+    if (!searchText.trim()) return text;
+    
+    return splitSearchMatches(text, searchText).map((part, i) => part.isMatch ? (
+      <mark key={i} style={{ backgroundColor: isCurrentMatch ? '#ff9800' : '#fff176', color: 'inherit', padding: 0, borderRadius: '2px' }}>
+        {part.text}
+      </mark>
+    ) : part.text);
   };
 
   private throttleTimeout: number | null = null;
+  private suppressNextBarClick = false;
   private readonly ENABLE_HOVER_EFFECTS = false; // Disable hover effects for better performance
 
   private handleMouseEnter = (taskId: string) => {
@@ -172,26 +587,10 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     }, 100); // Increased delay to reduce rapid changes
   };
 
-  private deduplicateTasks = (tasks: TaskData[]): TaskData[] => {
-    const uniqueTasks = new Map<string, TaskData>();
-    const DEBUG_ENABLED = false; // Set to true for debugging
-    
-    tasks.forEach(task => {
-      if (!uniqueTasks.has(task.taskDataId)) {
-        uniqueTasks.set(task.taskDataId, task);
-      } else if (DEBUG_ENABLED) {
-        console.warn(`Duplicate task ID found: ${task.taskDataId} (${task.taskName})`);
-      }
-    });
-    
-    const result = Array.from(uniqueTasks.values());
-    if (DEBUG_ENABLED) {
-      console.log(`Deduplicated tasks: ${tasks.length} -> ${result.length}`);
-    }
-    return result;
-  };
-
-  private calculateTimelineBounds = (tasks: TaskData[]): { timelineStart: Date; timelineEnd: Date } => {
+  /**
+   * Task date range plus padding, rounded out to whole hours at Hour zoom and whole years at Year zoom
+   */
+  private calculateTimelineBounds = (tasks: TaskData[], zoomLevel: ZoomLevel): { timelineStart: Date; timelineEnd: Date } => {
     if (tasks.length === 0) {
       const today = new Date();
       return {
@@ -203,35 +602,159 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     let earliest = new Date(Math.min(...tasks.map(t => t.startDate.getTime())));
     let latest = new Date(Math.max(...tasks.map(t => t.finishDate.getTime())));
     
-    const padding = 7 * 24 * 60 * 60 * 1000; // 7 days
+    const padding = (zoomLevel === 'Hour' ? 1 : 7) * 24 * 60 * 60 * 1000; // 1 day at Hour zoom, otherwise 7 days
     earliest = new Date(earliest.getTime() - padding);
     latest = new Date(latest.getTime() + padding);
     
+    if (zoomLevel === 'Hour') {
+      earliest.setMinutes(0, 0, 0);
+      latest.setMinutes(60, 0, 0);
+    } else if (zoomLevel === 'Year') {
+      earliest = new Date(earliest.getFullYear(), 0, 1);
+      latest = new Date(latest.getFullYear() + 1, 0, 1);
+    }
+    
     return { timelineStart: earliest, timelineEnd: latest };
   };
 
-  private calculateTimelineWidthByZoom = (zoomLevel: string, start: Date, end: Date): number => {
-    const totalDays = Math.ceil((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
-    
-    switch (zoomLevel) {
-      case 'Day': return totalDays * 30; // 30px per day
-      case 'Week': return Math.ceil(totalDays / 7) * 100; // 100px per week
-      case 'Month': return Math.ceil(totalDays / 30) * 120; // 120px per month
-      case 'Quarter': return Math.ceil(totalDays / 90) * 150; // 150px per quarter
-      default: return 1200;
+  /**
+   * Change the scale and keep anchor.date at anchor.x (pixels from the left edge of the timeline viewport).
+   * The header granularity and the timeline bounds follow the new scale.
+   */
+  private setScale = (pixelsPerDay: number, anchor?: { date: Date; x: number }): void => {
+    const boundsFor = (level: ZoomLevel) => this.props.tasks.length > 0
+      ? this.calculateTimelineBounds(this.props.tasks, level)
+      : { timelineStart: this.state.timelineStart, timelineEnd: this.state.timelineEnd };
+    
+    let zoomLevel = getZoomLevelForScale(pixelsPerDay);
+    let bounds = boundsFor(zoomLevel);
+    const zoomLimited = isScaleLimitedByWidth(pixelsPerDay, bounds.timelineStart, bounds.timelineEnd);
+    const scale = clampPixelsPerDay(pixelsPerDay, bounds.timelineStart, bounds.timelineEnd);
+    if (getZoomLevelForScale(scale) !== zoomLevel) {
+      // Clamping moved the scale to a coarser level, whose bounds may be padded differently
+      zoomLevel = getZoomLevelForScale(scale);
+      bounds = boundsFor(zoomLevel);
     }
+    
+    this.setState({
+      zoomLevel,
+      pixelsPerDay: scale,
+      zoomLimited,
+      timelineStart: bounds.timelineStart,
+      timelineEnd: bounds.timelineEnd,
+      timelineWidth: getTimelineWidth(scale, bounds.timelineStart, bounds.timelineEnd)
+    }, () => {
+      const timeline = this.rightTimelineRef.current;
+      if (anchor && timeline) {
+        timeline.scrollLeft = Math.max(0, this.calculateDatePosition(anchor.date, anchor.date).left - anchor.x);
+      }
+    });
   };
 
-  private changeZoomLevel = (newZoom: 'Day' | 'Week' | 'Month' | 'Quarter') => {
-    const { timelineStart, timelineEnd } = this.state;
-    const newWidth = this.calculateTimelineWidthByZoom(newZoom, timelineStart, timelineEnd);
+  /**
+   * Date under a point of the timeline viewport (its center when clientX is left out)
+   */
+  private getViewportAnchor = (clientX?: number): { date: Date; x: number } | undefined => {
+    const timeline = this.rightTimelineRef.current;
+    if (!timeline) return undefined;
     
-    this.setState({ 
-      zoomLevel: newZoom,
-      timelineWidth: newWidth
+    const { timelineStart, timelineEnd, timelineWidth } = this.state;
+    const x = clientX === undefined ? timeline.clientWidth / 2 : clientX - timeline.getBoundingClientRect().left;
+    const msPerPixel = (timelineEnd.getTime() - timelineStart.getTime()) / timelineWidth;
+    return { date: new Date(timelineStart.getTime() + (timeline.scrollLeft + x) * msPerPixel), x };
+  };
+
+  private changeZoomLevel = (newZoom: ZoomLevel) => {
+    this.setScale(getZoomPixelsPerDay(newZoom), this.getViewportAnchor());
+  };
+
+  /**
+   * Scale so that the range fills the viewport (less FIT_MARGIN on each side) and center it
+   */
+  private zoomToRange = (start: Date, finish: Date): void => {
+    const timeline = this.rightTimelineRef.current;
+    if (!timeline) return;
+    
+    const days = Math.max(1 / 24, (finish.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)); // At least an hour, for milestones
+    const pixelsPerDay = timeline.clientWidth * (1 - 2 * FIT_MARGIN) / days;
+    this.setScale(pixelsPerDay, {
+      date: new Date((start.getTime() + finish.getTime()) / 2),
+      x: timeline.clientWidth / 2
+    });
+  };
+
+  private fitToWidth = (): void => {
+    const tasks = this.getTaskStore().getTasks();
+    if (tasks.length === 0) return;
+    
+    this.zoomToRange(
+      new Date(Math.min(...tasks.map(t => t.startDate.getTime()))),
+      new Date(Math.max(...tasks.map(t => t.finishDate.getTime())))
+    );
+  };
+
+  private zoomToSelection = (): void => {
+    const task = this.state.selectedTask ? this.getTaskStore().getTask(this.state.selectedTask) : undefined;
+    if (task) {
+      this.zoomToRange(task.startDate, task.finishDate);
+    }
+  };
+
+  /**
+   * Several wheel or pinch events can arrive per frame; only the last target scale is applied
+   */
+  private queueZoom = (pixelsPerDay: number, clientX: number): void => {
+    this.pendingZoom = { pixelsPerDay, clientX };
+    if (this.zoomFrame !== null) return;
+    
+    this.zoomFrame = requestAnimationFrame(() => {
+      this.zoomFrame = null;
+      const zoom = this.pendingZoom;
+      this.pendingZoom = null;
+      if (zoom) {
+        this.setScale(zoom.pixelsPerDay, this.getViewportAnchor(zoom.clientX));
+      }
     });
   };
 
+  /**
+   * Ctrl+wheel zooms around the mouse. Trackpad pinch arrives as Ctrl+wheel too; a plain wheel still scrolls.
+   */
+  private handleTimelineWheel = (e: WheelEvent): void => {
+    if (!e.ctrlKey) return;
+    e.preventDefault();
+    
+    const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY; // Line mode to pixels
+    const currentScale = this.pendingZoom?.pixelsPerDay ?? this.state.pixelsPerDay;
+    this.queueZoom(currentScale * Math.exp(-delta * WHEEL_ZOOM_SPEED), e.clientX);
+  };
+
+  private getTouchDistance = (touches: TouchList): number =>
+    Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+  private handlePinchStart = (e: TouchEvent): void => {
+    if (e.touches.length !== 2) return;
+    e.preventDefault();
+    this.pinchStart = { distance: this.getTouchDistance(e.touches), pixelsPerDay: this.state.pixelsPerDay };
+  };
+
+  /**
+   * Two-finger pinch on touch screens, zooming around the point between the fingers
+   */
+  private handlePinchMove = (e: TouchEvent): void => {
+    if (!this.pinchStart || e.touches.length !== 2) return;
+    e.preventDefault();
+    
+    const ratio = this.getTouchDistance(e.touches) / Math.max(1, this.pinchStart.distance);
+    this.queueZoom(this.pinchStart.pixelsPerDay * ratio, (e.touches[0].clientX + e.touches[1].clientX) / 2);
+  };
+
+  private handlePinchEnd = (e: TouchEvent): void => {
+    if (e.touches.length < 2) {
+      this.pinchStart = null;
+    }
+  };
+
   private syncScrollLeft = (scrollTop: number) => {
     if (this.rightTimelineRef.current && this.rightTimelineRef.current.scrollTop !== scrollTop) {
       this.rightTimelineRef.current.scrollTop = scrollTop;
@@ -244,19 +767,41 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     }
   };
 
+  /**
+   * Work out which rows are in the viewport (plus overscan), and which part of the header.
+   * Only those rows and header cells are mounted, so the state only changes when scrolling
+   * crosses a row boundary or a header step.
+   */
+  private updateRenderWindow = (): void => {
+    const container = this.rightTimelineRef.current;
+    if (!container) return;
+    
+    const start = Math.max(0, Math.floor(container.scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const end = Math.ceil((container.scrollTop + container.clientHeight) / ROW_HEIGHT) + OVERSCAN_ROWS;
+    const left = Math.max(0, Math.floor((container.scrollLeft - HEADER_OVERSCAN) / HEADER_WINDOW_STEP) * HEADER_WINDOW_STEP);
+    const right = Math.ceil((container.scrollLeft + container.clientWidth + HEADER_OVERSCAN) / HEADER_WINDOW_STEP) * HEADER_WINDOW_STEP;
+    const { rowWindow, columnWindow } = this.state;
+    
+    if (start !== rowWindow.start || end !== rowWindow.end) {
+      this.setState({ rowWindow: { start, end } });
+    }
+    if (left !== columnWindow.left || right !== columnWindow.right) {
+      this.setState({ columnWindow: { left, right } });
+    }
+  };
+
+  /**
+   * Follow the timeline's horizontal scroll immediately, so the header never lags the bars
+   */
   private syncTimelineHeaderScroll = (scrollLeft: number): void => {
-    const headerContainer = document.getElementById('timeline-header-container');
-    if (headerContainer && Math.abs(headerContainer.scrollLeft - scrollLeft) > 1) {
-      // Use smooth scrolling for header sync when called from scrollToTask
-      headerContainer.scrollTo({
-        left: scrollLeft,
-        behavior: 'smooth'
-      });
+    const headerContainer = this.timelineHeaderRef.current;
+    if (headerContainer && headerContainer.scrollLeft !== scrollLeft) {
+      headerContainer.scrollLeft = scrollLeft;
     }
   };
 
   private scrollToTask = (task: TaskData, taskIndex: number): void => {
-    const rowHeight = 36;
+    const rowHeight = ROW_HEIGHT;
     const taskPosition = this.calculateTaskPosition(task);
     
     // Get container dimensions
@@ -321,11 +866,6 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       ...scrollOptions
     });
     
-    // Smoothly sync the header scroll with a slight delay for better visual effect
-    setTimeout(() => {
-      this.syncTimelineHeaderScroll(targetHorizontalScroll);
-    }, 50);
-    
     // Clear scrolling animation state and remove highlight effects after animation completes
     setTimeout(() => {
       this.setState({ scrollingToTask: null });
@@ -351,8 +891,9 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       return this.hierarchyCache;
     }
     
-    // First, deduplicate tasks to remove duplicates
-    const uniqueTasks = this.deduplicateTasks(this.props.tasks);
+    // The store drops duplicate ids and indexes children by parent
+    const store = this.getTaskStore();
+    const uniqueTasks = store.getTasks();
     
     const DEBUG_ENABLED = false; // Set to true for debugging
     
@@ -372,32 +913,30 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       })));
     }
     
-    const rootTasks = uniqueTasks.filter(t => !t.parentTask);
-    
-    const taskMap = new Map<string, TaskData>();
-    uniqueTasks.forEach(task => taskMap.set(task.taskDataId, task));
+    const rootTasks = store.getRootTasks();
     
-    const buildTaskHierarchy = (task: TaskData, level: number): TaskHierarchy => {
+    const buildTaskHierarchy = (task: TaskData, level: number, outlineNumber: string): TaskHierarchy => {
       const children: TaskHierarchy[] = [];
-      const directChildren = uniqueTasks.filter(t => t.parentTask === task.taskDataId);
+      const directChildren = store.getChildren(task.taskDataId);
       
       if (DEBUG_ENABLED) {
         console.log(`Building hierarchy for ${task.taskName} (${task.taskDataId}), found ${directChildren.length} children`);
       }
       
-      directChildren.forEach(child => {
-        children.push(buildTaskHierarchy(child, level + 1));
+      directChildren.forEach((child, i) => {
+        children.push(buildTaskHierarchy(child, level + 1, `${outlineNumber}.${i + 1}`));
       });
       
       return {
         task,
         level,
+        outlineNumber,
         children,
         isVisible: true
       };
     };
     
-    const result = rootTasks.map(task => buildTaskHierarchy(task, 0));
+    const result = rootTasks.map((task, i) => buildTaskHierarchy(task, 0, `${i + 1}`));
     
     // Update instance-level cache (no setState, no re-render)
     this.hierarchyCache = result;
@@ -462,7 +1001,6 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
 
   private toggleExpand = (taskId: string) => {
     const { expandedTasks } = this.state;
-    const { tasks } = this.props;
     const newExpanded = new Set(expandedTasks);
     
     const DEBUG_ENABLED = false; // Set to true for debugging
@@ -475,19 +1013,13 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       // Collapsing: remove this task and ALL its descendants from expanded set
       newExpanded.delete(taskId);
       
-      // Recursively collapse all descendants
-      const collapseDescendants = (parentId: string) => {
-        const children = tasks.filter(t => t.parentTask === parentId);
-        children.forEach(child => {
-          if (DEBUG_ENABLED) {
-            console.log(`Collapsing descendant: ${child.taskDataId}`);
-          }
-          newExpanded.delete(child.taskDataId);
-          collapseDescendants(child.taskDataId); // Recursive collapse
-        });
-      };
-      
-      collapseDescendants(taskId);
+      // Collapse all descendants too
+      this.getTaskStore().getDescendantIds(taskId).forEach(descendantId => {
+        if (DEBUG_ENABLED) {
+          console.log(`Collapsing descendant: ${descendantId}`);
+        }
+        newExpanded.delete(descendantId);
+      });
     } else {
       // Expanding: just add this task to expanded set
       newExpanded.add(taskId);
@@ -517,6 +1049,235 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     }
   };
 
+  private startBarDrag = (e: React.PointerEvent, task: TaskData, mode: IDragState['mode']): void => {
+    if (e.button !== 0 || !this.props.onTaskChanged || task.isSummaryTask) return;
+    
+    e.stopPropagation();
+    e.preventDefault();
+    
+    this.setState({
+      dragState: {
+        taskId: task.taskDataId,
+        mode,
+        originX: e.clientX,
+        originalStart: task.startDate,
+        originalFinish: task.finishDate,
+        previewStart: task.startDate,
+        previewFinish: task.finishDate
+      }
+    });
+    
+    window.addEventListener('pointermove', this.handleBarDragMove);
+    window.addEventListener('pointerup', this.handleBarDragEnd);
+  };
+
+  private handleBarDragMove = (e: PointerEvent): void => {
+    const { dragState, timelineStart, timelineEnd, timelineWidth } = this.state;
+    if (!dragState) return;
+    
+    const msPerPixel = (timelineEnd.getTime() - timelineStart.getTime()) / timelineWidth;
+    const deltaMs = (e.clientX - dragState.originX) * msPerPixel;
+    const { originalStart, originalFinish } = dragState;
+    
+    let previewStart = originalStart;
+    let previewFinish = originalFinish;
+    
+    const task = this.getTaskStore().getTask(dragState.taskId);
+    const calendar = task && this.props.calendars ? this.getCalendar(task) : undefined;
+    
+    if (dragState.mode === 'move' && calendar) {
+      // Start on a working day and keep the number of working days
+      previewStart = nextWorkingTime(calendar, this.snapDate(new Date(originalStart.getTime() + deltaMs)));
+      previewFinish = addWorkingDays(calendar, previewStart, getWorkingDays(calendar, originalStart, originalFinish));
+    } else if (dragState.mode === 'move') {
+      // Snap the start and keep the duration
+      previewStart = this.snapDate(new Date(originalStart.getTime() + deltaMs));
+      previewFinish = new Date(previewStart.getTime() + (originalFinish.getTime() - originalStart.getTime()));
+    } else if (dragState.mode === 'resize-start') {
+      previewStart = this.snapDate(new Date(originalStart.getTime() + deltaMs));
+      if (previewStart >= originalFinish) {
+        previewStart = this.addSnapUnits(this.snapDate(originalFinish), -1);
+      }
+    } else {
+      previewFinish = this.snapDate(new Date(originalFinish.getTime() + deltaMs));
+      if (previewFinish <= originalStart) {
+        previewFinish = this.addSnapUnits(this.snapDate(originalStart), 1);
+      }
+    }
+    
+    if (previewStart.getTime() !== dragState.previewStart.getTime() || previewFinish.getTime() !== dragState.previewFinish.getTime()) {
+      this.setState({ dragState: { ...dragState, previewStart, previewFinish } });
+    }
+  };
+
+  private handleBarDragEnd = (): void => {
+    window.removeEventListener('pointermove', this.handleBarDragMove);
+    window.removeEventListener('pointerup', this.handleBarDragEnd);
+    
+    const { dragState } = this.state;
+    this.setState({ dragState: null });
+    if (!dragState) return;
+    
+    const { previewStart, previewFinish, originalStart, originalFinish } = dragState;
+    if (previewStart.getTime() === originalStart.getTime() && previewFinish.getTime() === originalFinish.getTime()) {
+      return; // Plain click - let the click handler select the task
+    }
+    
+    // The click event that follows the drag should not select/scroll
+    this.suppressNextBarClick = true;
+    
+    const task = this.getTaskStore().getTask(dragState.taskId);
+    if (task && this.props.onTaskChanged) {
+      this.props.onTaskChanged(task, {
+        startDate: previewStart,
+        finishDate: previewFinish,
+        duration: this.calculateDurationDays(task, previewStart, previewFinish)
+      });
+    }
+  };
+
+  private getTimelineContentPoint = (clientX: number, clientY: number): { x: number; y: number } => {
+    const rect = this.timelineContentRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: clientX, y: clientY };
+  };
+
+  private startLinkDrag = (e: React.PointerEvent, task: TaskData, end: 'start' | 'finish', rowIndex: number): void => {
+    if (e.button !== 0 || !this.props.onDependencyCreated) return;
+    
+    e.stopPropagation();
+    e.preventDefault();
+    
+    const { left, width } = this.calculateTaskPosition(task);
+    const originX = end === 'start' ? left : left + width;
+    const originY = rowIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const current = this.getTimelineContentPoint(e.clientX, e.clientY);
+    
+    this.setState({
+      linkDragState: {
+        fromTaskId: task.taskDataId,
+        fromEnd: end,
+        originX,
+        originY,
+        currentX: current.x,
+        currentY: current.y
+      },
+      selectedLink: null
+    });
+    
+    window.addEventListener('pointermove', this.handleLinkDragMove);
+    window.addEventListener('pointerup', this.handleLinkDragEnd);
+  };
+
+  private handleLinkDragMove = (e: PointerEvent): void => {
+    const { linkDragState } = this.state;
+    if (!linkDragState) return;
+    
+    const current = this.getTimelineContentPoint(e.clientX, e.clientY);
+    this.setState({ linkDragState: { ...linkDragState, currentX: current.x, currentY: current.y } });
+  };
+
+  private handleLinkDragEnd = (e: PointerEvent): void => {
+    window.removeEventListener('pointermove', this.handleLinkDragMove);
+    window.removeEventListener('pointerup', this.handleLinkDragEnd);
+    
+    const { linkDragState } = this.state;
+    this.setState({ linkDragState: null });
+    if (!linkDragState || !this.props.onDependencyCreated) return;
+    
+    // Find what the link was dropped on - a connector handle or the bar itself
+    const dropTarget = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement | null;
+    const connector = dropTarget?.closest('[data-connector-task-id]') as HTMLElement | null;
+    const bar = dropTarget?.closest('[data-task-timeline-id]') as HTMLElement | null;
+    
+    let toTaskId: string | null = null;
+    let toEnd: 'start' | 'finish' = 'start';
+    
+    if (connector) {
+      toTaskId = connector.dataset.connectorTaskId ?? null;
+      toEnd = connector.dataset.connectorEnd === 'finish' ? 'finish' : 'start';
+    } else if (bar) {
+      // Dropped on the bar body - use the closer end
+      toTaskId = bar.dataset.taskTimelineId ?? null;
+      const rect = bar.getBoundingClientRect();
+      toEnd = e.clientX > rect.left + rect.width / 2 ? 'finish' : 'start';
+    }
+    
+    if (!toTaskId || toTaskId === linkDragState.fromTaskId) return;
+    
+    const store = this.getTaskStore();
+    const predecessor = store.getTask(linkDragState.fromTaskId);
+    const successor = store.getTask(toTaskId);
+    if (!predecessor || !successor) return;
+    
+    const dependencyType = `${linkDragState.fromEnd === 'finish' ? 'Finish' : 'Start'}To${toEnd === 'start' ? 'Start' : 'Finish'}` as DependencyType;
+    this.props.onDependencyCreated(predecessor, successor, dependencyType);
+  };
+
+  private deleteSelectedLink = (): void => {
+    const { selectedLink } = this.state;
+    if (!selectedLink || !this.props.onDependencyDeleted) return;
+    
+    this.setState({ selectedLink: null });
+    this.props.onDependencyDeleted(selectedLink);
+  };
+
+  private handleKeyDown = (e: React.KeyboardEvent): void => {
+    const { editingCell, selectedTask } = this.state;
+    if (e.key === 'Escape' && editingCell) {
+      this.setState({ editingCell: null });
+      return;
+    }
+    if ((e.key === 'F2' || e.key === 'Enter') && !editingCell && selectedTask && e.target === e.currentTarget) {
+      // Edit the first editable cell of the selected row
+      const task = this.getTaskStore().getTask(selectedTask);
+      const column = task && this.getVisibleColumns().find(c => isEditableColumn(c.definition.id, task));
+      if (task && column) {
+        e.preventDefault();
+        this.startCellEdit(task, column.definition.id as EditableColumnId);
+      }
+      return;
+    }
+    
+    if (e.altKey && e.shiftKey && (e.key === 'ArrowRight' || e.key === 'ArrowLeft') && selectedTask && this.props.onTaskMoved && !this.state.gridSort) {
+      // Indent/outdent the selected task, like Project
+      e.preventDefault();
+      const store = this.getTaskStore();
+      const target = e.key === 'ArrowRight' ? getIndentTarget(store, selectedTask) : getOutdentTarget(store, selectedTask);
+      if (target) {
+        this.moveTaskTo(selectedTask, target.targetId, target.position);
+      }
+      return;
+    }
+    
+    if ((e.key === 'Delete' || e.key === 'Backspace') && this.state.selectedLink) {
+      e.preventDefault();
+      this.deleteSelectedLink();
+    } else if (e.key === 'Escape' && this.state.selectedLink) {
+      this.setState({ selectedLink: null });
+    }
+  };
+
+  /**
+   * Round a date to the nearest unit of the current zoom level (hour, day, week or month)
+   */
+  private snapDate = (date: Date): Date => snapToZoomUnit(date, this.state.zoomLevel);
+
+  private addSnapUnits = (date: Date, units: number): Date => addSnapUnits(date, this.state.zoomLevel, units);
+
+  /**
+   * Working calendar of the task's project; only called when calendars are configured
+   */
+  private getCalendar = (task: TaskData): WorkCalendar => getTaskCalendar(this.props.calendars!, task);
+
+  private calculateDurationDays = (task: TaskData, startDate: Date, finishDate: Date): number => {
+    if (this.props.calendars) {
+      return getWorkingDuration(this.getCalendar(task), startDate, finishDate);
+    }
+    
+    const daysDiff = Math.ceil((finishDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
+    return Math.max(1, daysDiff);
+  };
+
   private getPhaseColor = (phase: string): string => {
     switch (phase.toLowerCase()) {
       case 'initiation': return '#3498db';
@@ -536,11 +1297,40 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     const taskDuration = task.finishDate.getTime() - task.startDate.getTime();
     
     const left = (taskStart / totalDuration) * timelineWidth;
+    
+    // Milestones are a diamond centred on their date, so links attach to its tips
+    if (task.isMilestone) {
+      return { left: left - MILESTONE_SIZE / 2, width: MILESTONE_SIZE };
+    }
+    
     const width = Math.max((taskDuration / totalDuration) * timelineWidth, 20);
     
     return { left, width };
   };
 
+  /**
+   * Position of a date range on the timeline, without the minimum bar width
+   */
+  private calculateDatePosition = (start: Date, finish: Date): { left: number; width: number } => {
+    const { timelineStart, timelineEnd, timelineWidth } = this.state;
+    const totalDuration = timelineEnd.getTime() - timelineStart.getTime();
+    
+    return {
+      left: ((start.getTime() - timelineStart.getTime()) / totalDuration) * timelineWidth,
+      width: ((finish.getTime() - start.getTime()) / totalDuration) * timelineWidth
+    };
+  };
+
+  /**
+   * Dates while dragging; the Hour view snaps to hours, so it shows the time too
+   */
+  private formatPreviewDate = (date: Date): string => {
+    if (this.state.zoomLevel !== 'Hour') {
+      return this.formatDate(date);
+    }
+    return `${this.formatDate(date)} ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
   private formatDate = (date: Date): string => {
     return date.toLocaleDateString('en-US', { 
       month: 'short', 
@@ -563,306 +1353,552 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
   };
 
   private renderZoomControls = (): JSX.Element => {
-    const { zoomLevel } = this.state;
-    const zoomOptions: ('Day' | 'Week' | 'Month' | 'Quarter')[] = ['Day', 'Week', 'Month', 'Quarter'];
+    const { zoomLevel, showCriticalPath, showSlippingOnly, slipThreshold, selectedTask } = this.state;
+    const cycleTaskCount = showCriticalPath ? this.getCriticalPath().cycleTaskIds.length : 0;
+    const zoomOptions = zoomScales.map(scale => scale.level);
+    const activeFilterCount = countActiveFilters(this.state.taskFilter);
+    const { gridSort, searchText, searchIndex } = this.state;
+    const searchMatchCount = this.getSearchMatchIds().length;
+    const zoomButtonStyle: React.CSSProperties = {
+      padding: '6px 16px',
+      border: '1px solid #007bff',
+      borderRadius: '4px',
+      backgroundColor: 'white',
+      color: '#007bff',
+      cursor: 'pointer',
+      fontSize: '13px',
+      fontWeight: '500',
+      transition: 'all 0.2s'
+    };
     
     return (
       <div style={{
         display: 'flex',
         alignItems: 'center',
         gap: '8px',
+        flexWrap: 'wrap',
         padding: '8px 16px',
         backgroundColor: '#f8f9fa',
         borderBottom: '1px solid #dee2e6',
         fontSize: '14px'
       }}>
-        <span style={{ fontWeight: 'bold', marginRight: '8px' }}>View:</span>
+        <span style={{ fontWeight: 'bold', marginRight: '8px' }} title="Ctrl+wheel or pinch on the timeline to zoom">View:</span>
         {zoomOptions.map(zoom => (
           <button
             key={zoom}
             onClick={() => this.changeZoomLevel(zoom)}
             style={{
-              padding: '6px 16px',
-              border: '1px solid #007bff',
-              borderRadius: '4px',
+              ...zoomButtonStyle,
               backgroundColor: zoomLevel === zoom ? '#007bff' : 'white',
-              color: zoomLevel === zoom ? 'white' : '#007bff',
-              cursor: 'pointer',
-              fontSize: '13px',
-              fontWeight: '500',
-              transition: 'all 0.2s'
+              color: zoomLevel === zoom ? 'white' : '#007bff'
             }}
           >
             {zoom}
           </button>
         ))}
+        {this.state.zoomLimited && (
+          <span
+            style={{ fontSize: '12px', color: '#856404' }}
+            title="The timeline would get wider than browsers can display, so the zoom was lowered"
+          >
+            ⚠ Zoom limited by the schedule length
+          </span>
+        )}
+        <button onClick={this.fitToWidth} style={{ ...zoomButtonStyle, marginLeft: '8px' }} title="Fit the whole project into the timeline">
+          Fit
+        </button>
+        <button
+          onClick={this.zoomToSelection}
+          disabled={!selectedTask}
+          style={{ ...zoomButtonStyle, opacity: selectedTask ? 1 : 0.5, cursor: selectedTask ? 'pointer' : 'not-allowed' }}
+          title="Zoom to the selected task"
+        >
+          Zoom to selection
+        </button>
+        <span style={{ position: 'relative', marginLeft: '16px' }}>
+          <button
+            onClick={() => this.setState(prev => ({ showColumnPicker: !prev.showColumnPicker }))}
+            style={{ ...zoomButtonStyle, backgroundColor: this.state.showColumnPicker ? '#e9ecef' : 'white' }}
+            title="Choose the grid columns"
+          >
+            ☰ Columns
+          </button>
+          {this.state.showColumnPicker && this.renderColumnPicker()}
+        </span>
+        <button
+          onClick={() => this.setState(prev => ({ showFilterBar: !prev.showFilterBar }))}
+          style={{ ...zoomButtonStyle, backgroundColor: this.state.showFilterBar || activeFilterCount > 0 ? '#e9ecef' : 'white' }}
+          title="Filter the tasks by phase, dates, progress and text"
+        >
+          ⚲ Filter{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+        </button>
+        {gridSort && (
+          <button
+            onClick={() => this.setState({ gridSort: null })}
+            style={zoomButtonStyle}
+            title="Show the tasks in their outline order again"
+          >
+            Clear sort
+          </button>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: '16px', fontSize: '13px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={showCriticalPath}
+            onChange={(e) => this.setState({ showCriticalPath: e.target.checked })}
+          />
+          Show critical path
+        </label>
+        {cycleTaskCount > 0 && (
+          <span style={{ color: '#e67e22', fontSize: '12px' }} title="Tasks in a dependency loop are left out of the critical path">
+            ⚠ {cycleTaskCount} tasks in a dependency loop
+          </span>
+        )}
+        {this.hasBaselines() && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: '16px', fontSize: '13px', cursor: 'pointer' }} title="Only show tasks that start or finish later than their baseline">
+            <input
+              type="checkbox"
+              checked={showSlippingOnly}
+              onChange={(e) => this.setState({ showSlippingOnly: e.target.checked })}
+            />
+            Slipping more than
+            <input
+              type="number"
+              min={0}
+              value={slipThreshold}
+              onChange={(e) => this.setState({ slipThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+              style={{ width: '50px', fontSize: '13px' }}
+            />
+            days
+          </label>
+        )}
+        <span style={{ display: 'flex', alignItems: 'center', gap: '4px', marginLeft: 'auto' }}>
+          <input
+            type="search"
+            placeholder="Find task name, # or ID"
+            value={searchText}
+            onChange={(e) => this.setSearchText(e.target.value)}
+            onKeyDown={this.handleSearchKeyDown}
+            title="Enter for the next match, Shift+Enter for the previous one"
+            style={{ width: '180px', fontSize: '13px', padding: '5px 8px', border: '1px solid #ced4da', borderRadius: '4px' }}
+          />
+          {searchText.trim() && (
+            <span style={{ fontSize: '12px', color: searchMatchCount > 0 ? '#6c757d' : '#dc3545', minWidth: '50px', textAlign: 'center' }}>
+              {searchMatchCount > 0 ? `${Math.min(searchIndex, searchMatchCount - 1) + 1} of ${searchMatchCount}` : 'No matches'}
+            </span>
+          )}
+          <button
+            onClick={() => this.stepSearch(-1)}
+            disabled={searchMatchCount === 0}
+            style={{ ...zoomButtonStyle, padding: '6px 10px', opacity: searchMatchCount > 0 ? 1 : 0.5 }}
+            title="Previous match"
+          >
+            ▲
+          </button>
+          <button
+            onClick={() => this.stepSearch(1)}
+            disabled={searchMatchCount === 0}
+            style={{ ...zoomButtonStyle, padding: '6px 10px', opacity: searchMatchCount > 0 ? 1 : 0.5 }}
+            title="Next match"
+          >
+            ▼
+          </button>
+        </span>
       </div>
     );
   };
 
-  private renderTimelineHeader = (): JSX.Element => {
-    const { timelineStart, timelineEnd, timelineWidth, zoomLevel } = this.state;
+  /**
+   * Filter criteria below the toolbar. Tasks have to match all of them; summaries above a match stay visible.
+   */
+  private renderFilterBar = (rowCount: number, visibleRowCount: number): JSX.Element => {
+    const { taskFilter } = this.state;
+    const labelStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '4px', fontSize: '13px' };
+    const inputStyle: React.CSSProperties = { fontSize: '13px', padding: '3px 4px', border: '1px solid #ced4da', borderRadius: '3px' };
     
-    const headerHeight = 40;
-    const cellStyle: React.CSSProperties = {
-      textAlign: 'center',
-      fontSize: '12px',
-      fontWeight: 'bold',
-      color: '#495057',
-      borderRight: '1px solid #dee2e6',
-      borderBottom: '1px solid #dee2e6',
-      backgroundColor: '#f8f9fa'
+    return (
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '12px',
+        padding: '6px 16px',
+        backgroundColor: '#f8f9fa',
+        borderBottom: '1px solid #dee2e6'
+      }}>
+        <input
+          type="text"
+          placeholder="Filter tasks..."
+          value={taskFilter.text}
+          onChange={(e) => this.setTaskFilter({ text: e.target.value })}
+          onKeyDown={(e) => e.stopPropagation()} // Typing isn't a grid shortcut
+          style={{ ...inputStyle, width: '160px' }}
+        />
+        <span style={{ display: 'flex', gap: '4px' }}>
+          {taskPhases.map(phase => {
+            const isSelected = taskFilter.phases.includes(phase);
+            return (
+              <button
+                key={phase}
+                onClick={() => this.setTaskFilter({
+                  phases: isSelected ? taskFilter.phases.filter(p => p !== phase) : [...taskFilter.phases, phase]
+                })}
+                style={{
+                  padding: '2px 8px',
+                  borderRadius: '12px',
+                  border: `1px solid ${this.getPhaseColor(phase)}`,
+                  backgroundColor: isSelected ? this.getPhaseColor(phase) : 'white',
+                  color: isSelected ? 'white' : this.getPhaseColor(phase),
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  cursor: 'pointer'
+                }}
+              >
+                {phase}
+              </button>
+            );
+          })}
+        </span>
+        <label style={labelStyle} title="Tasks that overlap these dates">
+          From
+          <input type="date" value={taskFilter.dateFrom} onChange={(e) => this.setTaskFilter({ dateFrom: e.target.value })} style={inputStyle} />
+          to
+          <input type="date" value={taskFilter.dateTo} onChange={(e) => this.setTaskFilter({ dateTo: e.target.value })} style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          Progress
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={taskFilter.minProgress}
+            onChange={(e) => this.setTaskFilter({ minProgress: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            style={{ ...inputStyle, width: '50px' }}
+          />
+          –
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={taskFilter.maxProgress}
+            onChange={(e) => this.setTaskFilter({ maxProgress: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            style={{ ...inputStyle, width: '50px' }}
+          />
+          %
+        </label>
+        <label style={{ ...labelStyle, cursor: 'pointer' }} title="Unfinished tasks whose finish date has passed">
+          <input type="checkbox" checked={taskFilter.overdueOnly} onChange={(e) => this.setTaskFilter({ overdueOnly: e.target.checked })} />
+          Overdue
+        </label>
+        {countActiveFilters(taskFilter) > 0 && (
+          <>
+            <button
+              onClick={() => this.setTaskFilter(emptyTaskFilter)}
+              style={{ padding: '3px 8px', fontSize: '12px', border: '1px solid #dee2e6', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer' }}
+            >
+              Clear filters
+            </button>
+            <span style={{ fontSize: '12px', color: '#6c757d' }}>
+              Showing {visibleRowCount} of {rowCount} rows
+            </span>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Dates of the mounted part of the timeline (columnWindow), within the timeline bounds
+   */
+  private getColumnWindowDates = (): { windowStart: Date; windowEnd: Date } => {
+    const { timelineStart, timelineEnd, timelineWidth, columnWindow } = this.state;
+    const msPerPixel = (timelineEnd.getTime() - timelineStart.getTime()) / timelineWidth;
+    return {
+      windowStart: new Date(Math.max(timelineStart.getTime(), timelineStart.getTime() + columnWindow.left * msPerPixel)),
+      windowEnd: new Date(Math.min(timelineEnd.getTime(), timelineStart.getTime() + columnWindow.right * msPerPixel))
     };
+  };
 
-    if (zoomLevel === 'Day') {
-      const days: JSX.Element[] = [];
-      const current = new Date(timelineStart);
-      const cellWidth = 30;
-      
-      while (current <= timelineEnd) {
-        const dayNum = current.getDate();
-        const month = current.toLocaleDateString('en-US', { month: 'short' });
-        
-        days.push(
-          <div key={current.toISOString()} style={{
-            ...cellStyle,
-            width: cellWidth,
-            height: `${headerHeight - 1}px`,
-            display: 'flex',
-            flexDirection: 'column',
-            justifyContent: 'center',
-            alignItems: 'center'
-          }}>
-            <div>{month}</div>
-            <div style={{ fontSize: '14px', fontWeight: 'bold' }}>{dayNum}</div>
-          </div>
-        );
-        
-        current.setDate(current.getDate() + 1);
+  /**
+   * Header cells for a zoom level in the mounted part of the header (columnWindow), positioned
+   * like the bars so they line up at any scale. The first and last cells are cut off at the
+   * timeline bounds.
+   */
+  private getHeaderCells = (level: ZoomLevel): { start: Date; left: number; width: number }[] => {
+    const { timelineWidth } = this.state;
+    const { windowStart, windowEnd } = this.getColumnWindowDates();
+    const cells: { start: Date; left: number; width: number }[] = [];
+    let current = startOfZoomUnit(windowStart, level);
+    
+    while (current < windowEnd) {
+      const next = addZoomUnits(current, level, 1);
+      const position = this.calculateDatePosition(current, next);
+      const left = Math.max(0, position.left);
+      cells.push({ start: current, left, width: Math.min(timelineWidth, position.left + position.width) - left });
+      current = next;
+    }
+    
+    return cells;
+  };
+
+  /**
+   * Cell label. Upper tiers use a single line; the bottom tier keeps the two-line labels.
+   */
+  private renderHeaderLabel = (level: ZoomLevel, start: Date, isBottomTier: boolean): JSX.Element | string => {
+    if (!isBottomTier) {
+      switch (level) {
+        case 'Day': return start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+        case 'Week': return `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+        case 'Month': return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+        case 'Quarter': return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+        default: return String(start.getFullYear());
       }
-      
-      return (
-        <div style={{ 
-          display: 'flex', 
-          height: headerHeight,
-          backgroundColor: '#f8f9fa',
-          borderBottom: '2px solid #007bff'
-        }}>
-          {days}
-        </div>
-      );
     }
     
-    if (zoomLevel === 'Week') {
-      const weeks: JSX.Element[] = [];
-      const current = new Date(timelineStart);
-      const cellWidth = 100;
-      
-      // Start from beginning of week
-      current.setDate(current.getDate() - current.getDay());
-      
-      while (current <= timelineEnd) {
-        const weekStart = new Date(current);
-        const weekEnd = new Date(current);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        
-        weeks.push(
-          <div key={current.toISOString()} style={{
-            ...cellStyle,
-            width: cellWidth,
-            height: headerHeight,
-            display: 'flex',
-            flexDirection: 'column',
-            justifyContent: 'center',
-            alignItems: 'center'
-          }}>
+    switch (level) {
+      case 'Hour':
+        return (
+          <>
+            <div style={{ fontSize: '10px', color: '#6c757d' }}>
+              {start.getHours() === 0 ? start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '\u00a0'}
+            </div>
+            <div>{String(start.getHours()).padStart(2, '0')}</div>
+          </>
+        );
+      case 'Day':
+        return (
+          <>
+            <div>{start.toLocaleDateString('en-US', { month: 'short' })}</div>
+            <div style={{ fontSize: '14px', fontWeight: 'bold' }}>{start.getDate()}</div>
+          </>
+        );
+      case 'Week': {
+        const weekEnd = addZoomUnits(start, 'Day', 6);
+        return (
+          <>
             <div style={{ fontSize: '11px' }}>
-              {weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - 
+              {start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - 
               {weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
             </div>
             <div style={{ fontSize: '10px', color: '#6c757d' }}>
-              Week {Math.ceil((current.getTime() - new Date(current.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000))}
+              Week {Math.ceil((start.getTime() - new Date(start.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000))}
             </div>
-          </div>
+          </>
         );
-        
-        current.setDate(current.getDate() + 7);
       }
-      
-      return (
-        <div style={{ 
-          display: 'flex', 
-          height: headerHeight,
-          backgroundColor: '#f8f9fa',
-          borderBottom: '2px solid #007bff'
-        }}>
-          {weeks}
-        </div>
-      );
+      case 'Month':
+        return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+      case 'Quarter':
+        return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+      case 'Year':
+        return String(start.getFullYear());
     }
+  };
+
+  /**
+   * One row of header cells. Labels are sticky, so a cell that is partly scrolled out of
+   * view keeps its label at the left edge of the header.
+   */
+  private renderHeaderTier = (level: ZoomLevel, isBottomTier: boolean): JSX.Element => {
+    const { timelineWidth, zoomLevel } = this.state;
+    const height = isBottomTier ? HEADER_BOTTOM_TIER_HEIGHT : HEADER_TIER_HEIGHT;
     
-    if (zoomLevel === 'Month') {
-      const months: JSX.Element[] = [];
-      const current = new Date(timelineStart.getFullYear(), timelineStart.getMonth(), 1);
-      const cellWidth = 120;
-      
-      while (current <= timelineEnd) {
-        const monthName = current.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-        
-        months.push(
-          <div key={current.toISOString()} style={{
-            ...cellStyle,
-            width: cellWidth,
-            height: headerHeight,
+    return (
+      <div key={level} style={{ position: 'relative', width: timelineWidth, height }}>
+        {this.getHeaderCells(level).map(cell => (
+          <div key={cell.start.toISOString()} style={{
+            position: 'absolute',
+            left: cell.left,
+            width: cell.width,
+            height,
+            boxSizing: 'border-box',
             display: 'flex',
-            justifyContent: 'center',
-            alignItems: 'center'
+            alignItems: 'center',
+            justifyContent: isBottomTier ? 'center' : 'flex-start',
+            fontSize: isBottomTier && zoomLevel === 'Year' ? '14px' : '12px',
+            fontWeight: 'bold',
+            color: isBottomTier ? '#495057' : '#343a40',
+            borderRight: level === 'Hour' && cell.start.getHours() === 23 ? '2px solid #adb5bd' : '1px solid #dee2e6', // Mark the end of each day
+            borderBottom: '1px solid #dee2e6',
+            backgroundColor: isBottomTier ? '#f8f9fa' : '#eef1f4'
           }}>
-            {monthName}
+            <div style={{
+              position: 'sticky',
+              left: 0,
+              maxWidth: '100%',
+              padding: '0 6px',
+              boxSizing: 'border-box',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              textAlign: 'center'
+            }}>
+              {this.renderHeaderLabel(level, cell.start, isBottomTier)}
+            </div>
           </div>
-        );
-        
-        current.setMonth(current.getMonth() + 1);
-      }
-      
-      return (
-        <div style={{ 
-          display: 'flex', 
-          height: headerHeight,
-          backgroundColor: '#f8f9fa',
-          borderBottom: '2px solid #007bff'
-        }}>
-          {months}
-        </div>
-      );
-    }
-    
-    // Quarter view
-    const quarters: JSX.Element[] = [];
-    const current = new Date(timelineStart.getFullYear(), Math.floor(timelineStart.getMonth() / 3) * 3, 1);
-    const cellWidth = 150;
-    
-    while (current <= timelineEnd) {
-      const quarter = Math.floor(current.getMonth() / 3) + 1;
-      const year = current.getFullYear();
-      
-      quarters.push(
-        <div key={current.toISOString()} style={{
-          ...cellStyle,
-          width: cellWidth,
-          height: headerHeight,
-          display: 'flex',
-          justifyContent: 'center',
-          alignItems: 'center'
-        }}>
-          Q{quarter} {year}
-        </div>
-      );
-      
-      current.setMonth(current.getMonth() + 3);
-    }
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * Stacked header, coarsest tier on top. The tiers come from the headerTiers prop or follow
+   * the granularity of the current scale (see getHeaderTiers).
+   */
+  private renderTimelineHeader = (): JSX.Element => {
+    const tiers = getHeaderTiers(this.state.zoomLevel, this.props.headerTiers);
     
     return (
       <div style={{ 
-        display: 'flex', 
-        height: headerHeight,
+        width: this.state.timelineWidth,
+        paddingRight: 20, // Room for the timeline's vertical scrollbar, so the header can scroll as far as the bars
         backgroundColor: '#f8f9fa',
         borderBottom: '2px solid #007bff'
       }}>
-        {quarters}
+        {this.renderMarkerStrip()}
+        {tiers.map((level, i) => this.renderHeaderTier(level, i === tiers.length - 1))}
       </div>
     );
   };
 
-  private renderDependencyLines = (tasks: TaskHierarchy[]): JSX.Element => {
+  /**
+   * Bar extents of the displayed rows, rebuilt when the rows or the scale change
+   */
+  private getRowOccupancy = (tasks: TaskHierarchy[]): RowOccupancy => {
+    const { timelineStart, timelineEnd, timelineWidth } = this.state;
+    const cache = this.rowOccupancyCache;
+    if (cache && cache.tasks === tasks && cache.timelineStart === timelineStart
+      && cache.timelineEnd === timelineEnd && cache.timelineWidth === timelineWidth) {
+      return cache.occupancy;
+    }
+    
+    const occupancy = new RowOccupancy(tasks.map(({ task }) => {
+      const { left, width } = this.calculateTaskPosition(task);
+      return { left, right: left + width };
+    }));
+    this.rowOccupancyCache = { tasks, timelineStart, timelineEnd, timelineWidth, occupancy };
+    return occupancy;
+  };
+
+  /**
+   * Dependency lines for links whose rows overlap the mounted rows (firstRow..lastRow),
+   * including links that pass through them with both ends out of view
+   */
+  private renderDependencyLines = (tasks: TaskHierarchy[], firstRow: number, lastRow: number): JSX.Element => {
     const DEBUG_DEPENDENCIES = false; // Set to true for debugging dependency lines
     
     // Create a map for quick lookup of task index in the flattened visible list
     const taskIndexMap = new Map<string, number>();
     tasks.forEach((taskHierarchy, index) => {
       taskIndexMap.set(taskHierarchy.task.taskDataId, index);
-      // Also map by task number for flexibility
-      taskIndexMap.set(taskHierarchy.task.taskNumber, index);
     });
     
     if (DEBUG_DEPENDENCIES) {
       console.log('=== Dependency Analysis ===');
-      console.log('Visible tasks with successors:');
-      tasks.forEach((th, idx) => {
-        if (th.task.successor) {
-          console.log(`${idx}: ${th.task.taskName} (${th.task.taskDataId}) -> successor: ${th.task.successor}`);
-          const successorExists = taskIndexMap.has(th.task.successor);
-          console.log(`  Successor found in visible tasks: ${successorExists}`);
-        }
-      });
+      console.log(`Links: ${this.props.links.length}, with both tasks visible: ${
+        this.props.links.filter(l => taskIndexMap.has(l.predecessorId) && taskIndexMap.has(l.successorId)).length}`);
     }
 
+    // Bar extents per row, used to route lines around bars
+    const occupancy = this.getRowOccupancy(tasks);
+    const getBarExtent = (row: number) => occupancy.getExtent(row);
+    const overlapsScreen = (row: number, otherRow: number) => Math.min(row, otherRow) <= lastRow && Math.max(row, otherRow) >= firstRow;
+
     const paths: JSX.Element[] = [];
+    const criticalLinkKeys = this.state.showCriticalPath ? this.getCriticalPath().criticalLinkKeys : null;
     
-    tasks.forEach((taskHierarchy, index) => {
-      const task = taskHierarchy.task;
+    this.props.links.forEach(link => {
+      // Links to collapsed or filtered out tasks aren't drawn
+      const index = taskIndexMap.get(link.predecessorId);
+      const successorIndex = taskIndexMap.get(link.successorId);
       
-      if (task.successor) {
-        // Find successor task in the flattened visible tasks
-        const successorIndex = taskIndexMap.get(task.successor);
-        const successorTaskHierarchy = successorIndex !== undefined ? tasks[successorIndex] : null;
+      if (index !== undefined && successorIndex !== undefined && successorIndex !== index
+        && overlapsScreen(index, successorIndex)) {
+        const task = tasks[index].task;
+        const successorTask = tasks[successorIndex].task;
+        const dependencyType = link.type;
+        const lineStyle = dependencyTypeStyles[dependencyType];
         
-        if (successorTaskHierarchy && successorIndex !== undefined) {
-          const successorTask = successorTaskHierarchy.task;
-          const taskPos = this.calculateTaskPosition(task);
-          const successorPos = this.calculateTaskPosition(successorTask);
-          
-          const startX = taskPos.left + taskPos.width;
-          const startY = (index * 36) + 18; // Row height * index + half row (36/2 = 18)
-          const endX = successorPos.left;
-          const endY = (successorIndex * 36) + 18; // Use correct successor row position
-          
-          // Skip drawing if positions are invalid
-          if (startX < 0 || endX < 0) {
-            return;
-          }
-          
-          if (DEBUG_DEPENDENCIES) {
-            console.log(`Drawing dependency: ${task.taskName} -> ${successorTask.taskName}`);
-            console.log(`  Positions: (${startX}, ${startY}) -> (${endX}, ${endY})`);
-          }
-          
-          // Create clean MS Project-style dependency line
-          const arrowSize = 4;
-          const lineColor = '#2c5aa0';
-          const gap = 8; // Gap from task bar to line start
-          
-          // Calculate clean L-shaped path like MS Project
-          let pathD: string;
-          
-          if (Math.abs(endY - startY) < 5) {
-            // Same row or very close - straight horizontal line
-            pathD = `M ${startX + gap} ${startY} L ${endX - gap - arrowSize} ${endY}`;
-          } else {
-            // Different rows - create clean L-shaped path
-            const cornerX = startX + 20;
-            pathD = `M ${startX + gap} ${startY} L ${cornerX} ${startY} L ${cornerX} ${endY} L ${endX - gap - arrowSize} ${endY}`;
-          }
-          
-          paths.push(
-            <g key={`dep-${task.taskDataId}-${successorTask.taskDataId}`}>
-              {/* Clean dependency line */}
+        // Anchor on the bar edges the dependency type refers to
+        const fromFinish = dependencyType === 'FinishToStart' || dependencyType === 'FinishToFinish';
+        const toStart = dependencyType === 'FinishToStart' || dependencyType === 'StartToStart';
+        const startX = fromFinish ? getBarExtent(index).right : getBarExtent(index).left;
+        const endX = toStart ? getBarExtent(successorIndex).left : getBarExtent(successorIndex).right;
+        
+        // Skip drawing if positions are invalid
+        if (startX < 0 || endX < 0) {
+          return;
+        }
+        
+        const pathD = this.routeDependency(index, successorIndex, startX, endX, fromFinish ? 1 : -1, toStart ? 1 : -1, occupancy);
+        const endY = (successorIndex * ROW_HEIGHT) + ROW_HEIGHT / 2;
+        const lagLabel = link.lag !== 0 ? ` ${link.lag > 0 ? '+' : ''}${link.lag}d` : '';
+        
+        if (DEBUG_DEPENDENCIES) {
+          console.log(`Drawing ${dependencyType}${lagLabel} dependency: ${task.taskName} -> ${successorTask.taskName}: ${pathD}`);
+        }
+        
+        const { selectedLink } = this.state;
+        const isLinkSelected = selectedLink?.predecessorId === link.predecessorId && selectedLink?.successorId === link.successorId;
+        const arrowSize = 5;
+        const isCriticalLink = !!criticalLinkKeys?.has(getLinkKey(link.predecessorId, link.successorId));
+        const lineColor = isLinkSelected ? '#dc3545' : (isCriticalLink ? CRITICAL_COLOR : lineStyle.color);
+        // Arrow points right into a start edge and left into a finish edge
+        const arrowDirection = toStart ? 1 : -1;
+        const arrowTipX = endX - arrowDirection * 2;
+        const arrowBaseX = arrowTipX - arrowDirection * arrowSize;
+        // Delete button sits just outside the arrow
+        const deleteButtonX = arrowBaseX - arrowDirection * 10;
+        
+        paths.push(
+          <g key={`dep-${link.predecessorId}-${link.successorId}`}>
+            {/* Wide invisible stroke so the thin line is easy to click */}
+            {this.props.onDependencyDeleted && (
               <path
                 d={pathD}
-                stroke={lineColor}
-                strokeWidth="1.5"
+                stroke="transparent"
+                strokeWidth="10"
                 fill="none"
-                opacity="0.9"
-              />
-              {/* Simple arrow head */}
-              <path
-                d={`M ${endX - gap} ${endY} L ${endX - gap - arrowSize} ${endY - arrowSize/2} L ${endX - gap - arrowSize} ${endY + arrowSize/2} Z`}
-                fill={lineColor}
-                opacity="0.9"
-              />
-            </g>
-          );
-        }
+                style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  this.setState({ selectedLink: link });
+                }}
+              >
+                <title>{`${task.taskName} → ${successorTask.taskName} (${lineStyle.label}${lagLabel}) - click to select, Delete to remove`}</title>
+              </path>
+            )}
+            {/* Orthogonal dependency line, styled per dependency type */}
+            <path
+              d={pathD}
+              stroke={lineColor}
+              strokeWidth={isLinkSelected ? '2.5' : (isCriticalLink ? '2' : '1.5')}
+              strokeDasharray={lineStyle.dashArray}
+              fill="none"
+              opacity="0.9"
+            />
+            {/* Arrow head */}
+            <path
+              d={`M ${arrowTipX} ${endY} L ${arrowBaseX} ${endY - arrowSize / 2} L ${arrowBaseX} ${endY + arrowSize / 2} Z`}
+              fill={lineColor}
+              opacity="0.9"
+            />
+            {/* Delete button at the end of the selected link */}
+            {isLinkSelected && (
+              <g
+                style={{ pointerEvents: 'all', cursor: 'pointer' }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  this.deleteSelectedLink();
+                }}
+              >
+                <circle cx={deleteButtonX} cy={endY - 10} r="7" fill="#dc3545" />
+                <text x={deleteButtonX} y={endY - 7} textAnchor="middle" fontSize="10" fill="white">✕</text>
+                <title>Delete dependency</title>
+              </g>
+            )}
+          </g>
+        );
       }
     });
     
@@ -879,24 +1915,104 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
         }}
       >
         {paths}
+        {this.renderLinkDragLine()}
       </svg>
     );
   };
 
+  /**
+   * Build an orthogonal SVG path between two bar edges.
+   * exitDirection is +1 when leaving a finish edge (to the right) and -1 for a start edge;
+   * entryDirection is +1 when entering a start edge (from the left) and -1 for a finish edge.
+   * Horizontal runs stay in the two rows or on row boundaries, and the vertical run through
+   * the rows in between is moved sideways until it doesn't cross any bar.
+   */
+  private routeDependency = (
+    fromRow: number,
+    toRow: number,
+    startX: number,
+    endX: number,
+    exitDirection: number,
+    entryDirection: number,
+    occupancy: RowOccupancy
+  ): string => {
+    const rowHeight = ROW_HEIGHT;
+    const stub = 10; // Horizontal run before turning
+    const startY = fromRow * rowHeight + rowHeight / 2;
+    const endY = toRow * rowHeight + rowHeight / 2;
+    const stubOut = startX + exitDirection * stub;
+    const stubIn = endX - entryDirection * stub;
+    
+    // A vertical run at x must leave in the exit direction and arrive in the entry direction
+    const isValidColumn = (x: number) => exitDirection * (x - stubOut) >= 0 && entryDirection * (stubIn - x) >= 0;
+    
+    const desiredX = exitDirection === entryDirection
+      ? stubOut
+      : (exitDirection < 0 ? Math.min(stubOut, stubIn) : Math.max(stubOut, stubIn));
+    
+    if (isValidColumn(desiredX)) {
+      const columnX = occupancy.findFreeColumn(desiredX, fromRow, toRow, exitDirection === entryDirection ? 0 : exitDirection);
+      if (isValidColumn(columnX)) {
+        return `M ${startX} ${startY} L ${columnX} ${startY} L ${columnX} ${endY} L ${endX} ${endY}`;
+      }
+    }
+    
+    // No direct route - step onto the row boundaries next to each row and cross over between them
+    const goingDown = toRow > fromRow;
+    const fromBoundaryY = goingDown ? (fromRow + 1) * rowHeight : fromRow * rowHeight;
+    const toBoundaryY = goingDown ? toRow * rowHeight : (toRow + 1) * rowHeight;
+    const columnX = occupancy.findFreeColumn(stubOut, fromRow, toRow, 0);
+    
+    return [
+      `M ${startX} ${startY}`,
+      `L ${stubOut} ${startY}`,
+      `L ${stubOut} ${fromBoundaryY}`,
+      `L ${columnX} ${fromBoundaryY}`,
+      `L ${columnX} ${toBoundaryY}`,
+      `L ${stubIn} ${toBoundaryY}`,
+      `L ${stubIn} ${endY}`,
+      `L ${endX} ${endY}`
+    ].join(' ');
+  };
+
+  /**
+   * Dashed line following the pointer while a dependency is being drawn
+   */
+  private renderLinkDragLine = (): JSX.Element | null => {
+    const { linkDragState } = this.state;
+    if (!linkDragState) return null;
+    
+    return (
+      <line
+        x1={linkDragState.originX}
+        y1={linkDragState.originY}
+        x2={linkDragState.currentX}
+        y2={linkDragState.currentY}
+        stroke="#2c5aa0"
+        strokeWidth="2"
+        strokeDasharray="5,4"
+      />
+    );
+  };
+
   private renderTaskRow = (taskHierarchy: TaskHierarchy, index: number): JSX.Element => {
-    const { task, level } = taskHierarchy;
+    const { task } = taskHierarchy;
     const { hoveredTask, selectedTask } = this.state;
-    const { tasks } = this.props;
     
-    const hasChildren = tasks.some(t => t.parentTask === task.taskDataId);
-    const isExpanded = this.state.expandedTasks.has(task.taskDataId);
     const isHovered = hoveredTask === task.taskDataId;
     const isSelected = selectedTask === task.taskDataId;
     const isScrollingTo = this.state.scrollingToTask === task.taskDataId;
+    const isEditing = this.state.editingCell?.taskId === task.taskDataId;
+    const isDraggable = !!this.props.onTaskMoved && !isEditing && !this.state.gridSort; // Sorted rows aren't in outline order
+    const { rowDropTarget } = this.state;
+    const dropPosition = rowDropTarget?.taskId === task.taskDataId ? rowDropTarget.position : null;
     
     const rowStyle: React.CSSProperties = {
       display: 'flex',
-      height: '36px', // Increased height for better readability
+      position: 'relative',
+      zIndex: isEditing ? 1 : undefined, // Editor errors overlap the next row
+      height: `${ROW_HEIGHT}px`, // Increased height for better readability
+      boxSizing: 'border-box', // Border inside the row so rows stay exactly ROW_HEIGHT apart
       borderBottom: '1px solid #e9ecef',
       borderLeft: isSelected ? '4px solid #2196f3' : '4px solid transparent', // Left border for selected task
       backgroundColor: isScrollingTo 
@@ -906,7 +2022,13 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
           : (isSelected ? '#bbdefb' : (index % 2 === 0 ? '#ffffff' : '#fafbfc')), // Stronger selected color
       cursor: 'pointer',
       transition: isScrollingTo ? 'all 0.3s ease-in-out' : 'all 0.2s ease',
-      transform: isScrollingTo ? 'scale(1.01)' : 'scale(1)' // Subtle scale during scroll
+      transform: isScrollingTo ? 'scale(1.01)' : 'scale(1)', // Subtle scale during scroll
+      // Line above or below the row for a sibling drop, outline for dropping as a child
+      boxShadow: dropPosition === 'before'
+        ? 'inset 0 3px 0 #007bff'
+        : dropPosition === 'after'
+          ? 'inset 0 -3px 0 #007bff'
+          : dropPosition === 'child' ? 'inset 0 0 0 2px #007bff' : undefined
     };
     
     // Create optimized event handlers to prevent excessive re-renders
@@ -926,117 +2048,241 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
 
     return (
       <div 
+        data-task-id={task.taskDataId}
         style={rowStyle}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
         onClick={handleClick}
+        draggable={isDraggable}
+        onDragStart={isDraggable ? (e) => this.handleRowDragStart(e, task) : undefined}
+        onDragOver={(e) => this.handleRowDragOver(e, task)}
+        onDrop={this.handleRowDrop}
+        onDragEnd={this.handleRowDragEnd}
       >
-        <div style={{ 
-          width: 350, // Increased width to accommodate longer task names
-          padding: '8px 12px', // Increased padding for better spacing
-          borderRight: '1px solid #dee2e6',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          <div style={{ marginLeft: level * 20, display: 'flex', alignItems: 'center', width: '100%' }}>
-            {hasChildren && (
-              <span 
-                style={{ 
-                  marginRight: '8px', 
-                  cursor: 'pointer',
-                  userSelect: 'none',
-                  fontSize: '12px',
-                  color: '#007bff',
-                  fontWeight: 'bold',
-                  width: '16px',
-                  textAlign: 'center'
-                }}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  this.toggleExpand(task.taskDataId);
-                }}
-              >
-                {isExpanded ? '▼' : '▶'}
-              </span>
-            )}
-            <span style={{ 
-              fontWeight: task.isSummaryTask ? 'bold' : 'normal',
-              color: task.isSummaryTask ? '#34495e' : '#495057',
-              fontSize: '14px',
-              overflow: 'hidden',
-              textOverflow: 'ellipsis',
-              whiteSpace: 'nowrap',
-              maxWidth: 255, // Updated for new column width
-              display: 'inline-block'
-            }}
-            title={task.taskName} // Show full name on hover
-            >
-              {task.taskName}
-            </span>
-          </div>
-        </div>
+        {this.getVisibleColumns().map(column => this.renderGridCell(column, taskHierarchy))}
         
-        <div style={{ 
-          width: 100, 
-          padding: '6px 8px', 
-          borderRight: '1px solid #dee2e6',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          <span style={{ 
-            backgroundColor: this.getPhaseColor(task.taskPhase),
-            color: 'white',
-            padding: '3px 8px',
-            borderRadius: '12px',
-            fontSize: '11px',
-            fontWeight: '500',
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-            whiteSpace: 'nowrap',
-            maxWidth: '84px'
-          }}
-          title={task.taskPhase} // Show full phase name on hover
+        {this.state.showCriticalPath && this.renderFloatCells(task)}
+        {this.hasBaselines() && this.renderVarianceCells(task)}
+      </div>
+    );
+  };
+
+  private handleRowDragStart = (e: React.DragEvent, task: TaskData): void => {
+    this.draggedTaskId = task.taskDataId;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.taskName); // Firefox only starts a drag with data
+  };
+
+  /**
+   * The top and bottom quarter of a row drop before or after it, the middle makes the task its child
+   */
+  private handleRowDragOver = (e: React.DragEvent, task: TaskData): void => {
+    if (!this.draggedTaskId) return;
+    
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    const position: OutlineDropPosition = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'child';
+    const current = this.state.rowDropTarget;
+    
+    if (!canMoveTask(this.getTaskStore(), this.draggedTaskId, task.taskDataId, position)) {
+      if (current) this.setState({ rowDropTarget: null });
+      return;
+    }
+    
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (!current || current.taskId !== task.taskDataId || current.position !== position) {
+      this.setState({ rowDropTarget: { taskId: task.taskDataId, position } });
+    }
+  };
+
+  private handleRowDrop = (e: React.DragEvent): void => {
+    e.preventDefault();
+    const taskId = this.draggedTaskId;
+    const { rowDropTarget } = this.state;
+    this.draggedTaskId = null;
+    this.setState({ rowDropTarget: null });
+    
+    if (taskId && rowDropTarget) {
+      this.moveTaskTo(taskId, rowDropTarget.taskId, rowDropTarget.position);
+    }
+  };
+
+  private handleRowDragEnd = (): void => {
+    this.draggedTaskId = null;
+    if (this.state.rowDropTarget) {
+      this.setState({ rowDropTarget: null });
+    }
+  };
+
+  private moveTaskTo = (taskId: string, targetId: string, position: OutlineDropPosition): void => {
+    const store = this.getTaskStore();
+    const task = store.getTask(taskId);
+    const target = store.getTask(targetId);
+    if (!task || !target || !this.props.onTaskMoved || !canMoveTask(store, taskId, targetId, position)) return;
+    
+    if (position === 'child') {
+      // Keep the task in view under its new parent
+      this.setState(prevState => ({ expandedTasks: new Set(prevState.expandedTasks).add(targetId) }));
+    }
+    this.props.onTaskMoved(task, target, position);
+  };
+
+  /**
+   * Expand toggle, icons and name of a task, indented by its level
+   */
+  private renderTaskNameCell = (taskHierarchy: TaskHierarchy): JSX.Element => {
+    const { task, level } = taskHierarchy;
+    const hasChildren = this.getTaskStore().hasChildren(task.taskDataId);
+    const isExpanded = this.state.expandedTasks.has(task.taskDataId);
+    const isCurrentMatch = this.getCurrentSearchMatchId() === task.taskDataId;
+    
+    return (
+      <div style={{ marginLeft: level * 20, display: 'flex', alignItems: 'center', minWidth: 0, flex: 1 }}>
+        {hasChildren && (
+          <span 
+            style={{ 
+              marginRight: '8px', 
+              cursor: 'pointer',
+              userSelect: 'none',
+              fontSize: '12px',
+              color: '#007bff',
+              fontWeight: 'bold',
+              width: '16px',
+              textAlign: 'center'
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              this.toggleExpand(task.taskDataId);
+            }}
           >
-            {task.taskPhase}
+            {isExpanded ? '▼' : '▶'}
           </span>
+        )}
+        {task.isMilestone && (
+          <span style={{ marginRight: '6px', color: MILESTONE_COLOR, fontSize: '12px', flexShrink: 0 }} title="Milestone">
+            ◆
+          </span>
+        )}
+        <span style={{ 
+          fontWeight: task.isSummaryTask ? 'bold' : 'normal',
+          color: task.isSummaryTask ? '#34495e' : '#495057',
+          fontSize: '14px',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          minWidth: 0,
+          display: 'inline-block'
+        }}
+        title={task.taskName} // Show full name on hover
+        >
+          {this.renderSearchHighlight(task.taskName, isCurrentMatch)}
+        </span>
+        {task.isIncomplete && (
+          <span
+            style={{ marginLeft: '6px', color: '#e67e22', fontSize: '12px', flexShrink: 0 }}
+            title={`Missing columns: ${(task.incompleteFields ?? []).join(', ')} - default values shown`}
+          >
+            ⚠
+          </span>
+        )}
+        {task.rollupMismatches && (
+          <span
+            style={{ marginLeft: '6px', color: '#8e44ad', fontSize: '12px', fontWeight: 'bold', flexShrink: 0 }}
+            title={`Stored values differ from the children:\n${task.rollupMismatches.join('\n')}`}
+          >
+            ≠
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Total and free float columns, shown while the critical path is on
+   */
+  private renderFloatCells = (task: TaskData): JSX.Element => {
+    const analysis = this.getCriticalPath().tasks.get(task.taskDataId);
+    const cellStyle: React.CSSProperties = {
+      width: FLOAT_COLUMN_WIDTH,
+      flexShrink: 0,
+      boxSizing: 'border-box',
+      padding: '6px 8px',
+      borderRight: '1px solid #dee2e6',
+      fontSize: '13px',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      color: analysis?.isCritical ? CRITICAL_COLOR : '#495057',
+      fontWeight: analysis?.isCritical ? 'bold' : 'normal'
+    };
+    
+    return (
+      <>
+        <div style={cellStyle} title={analysis ? `Late start ${this.formatDate(analysis.lateStart)}, late finish ${this.formatDate(analysis.lateFinish)}` : undefined}>
+          {analysis ? `${analysis.totalFloat}d` : '–'}
         </div>
-        
-        <div style={{ 
-          width: 100, 
-          padding: '6px 8px', 
-          borderRight: '1px solid #dee2e6',
-          fontSize: '13px',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          {this.formatDate(task.startDate)}
+        <div style={cellStyle}>
+          {analysis ? `${analysis.freeFloat}d` : '–'}
         </div>
-        
-        <div style={{ 
-          width: 80, 
-          padding: '6px 8px', 
-          borderRight: '1px solid #dee2e6',
-          fontSize: '13px',
-          textAlign: 'center',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center'
-        }}>
-          {task.duration}d
+      </>
+    );
+  };
+
+  /**
+   * Start and finish variance against the baseline in days; late is red, early is green
+   */
+  private renderVarianceCells = (task: TaskData): JSX.Element => {
+    const variance = getScheduleVariance(task);
+    const cellStyle = (days: number | undefined): React.CSSProperties => ({
+      width: VARIANCE_COLUMN_WIDTH,
+      flexShrink: 0,
+      boxSizing: 'border-box',
+      padding: '6px 8px',
+      borderRight: '1px solid #dee2e6',
+      fontSize: '13px',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      color: days === undefined || days === 0 ? '#495057' : (days > 0 ? '#c0392b' : '#27ae60')
+    });
+    const formatVariance = (days: number) => `${days > 0 ? '+' : ''}${days}d`;
+    
+    return (
+      <>
+        <div style={cellStyle(variance?.startVariance)} title={task.baselineStart ? `Baseline start ${this.formatDate(task.baselineStart)}` : 'No baseline'}>
+          {variance ? formatVariance(variance.startVariance) : '–'}
         </div>
-        
-        <div style={{ 
-          width: 80, 
-          padding: '6px 8px',
-          fontSize: '13px',
-          textAlign: 'center',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center'
-        }}>
-          {Math.round((task.progress ?? 0) * 100)}%
+        <div style={cellStyle(variance?.finishVariance)} title={task.baselineFinish ? `Baseline finish ${this.formatDate(task.baselineFinish)}` : 'No baseline'}>
+          {variance ? formatVariance(variance.finishVariance) : '–'}
         </div>
-      </div>
+      </>
+    );
+  };
+
+  /**
+   * Thin bar under the task bar showing where the baseline had it
+   */
+  private renderBaselineBar = (task: TaskData): JSX.Element | null => {
+    if (!task.baselineStart || !task.baselineFinish) return null;
+    
+    const { left, width } = this.calculateTaskPosition({ ...task, startDate: task.baselineStart, finishDate: task.baselineFinish });
+    return (
+      <div
+        style={{
+          position: 'absolute',
+          left,
+          width,
+          top: task.isSummaryTask ? '29px' : '27px',
+          height: '4px',
+          backgroundColor: BASELINE_COLOR,
+          opacity: 0.6,
+          borderRadius: '2px',
+          zIndex: 2,
+          pointerEvents: 'none'
+        }}
+        title={`Baseline ${this.formatDate(task.baselineStart)} – ${this.formatDate(task.baselineFinish)}`}
+      />
     );
   };
 
@@ -1046,17 +2292,24 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     const color = this.getPhaseColor(task.taskPhase);
     const isSelected = this.state.selectedTask === task.taskDataId;
     const isScrollingTo = this.state.scrollingToTask === task.taskDataId;
+    const { dragState } = this.state;
+    const isDragging = dragState?.taskId === task.taskDataId;
+    const isDraggable = !!this.props.onTaskChanged && !task.isSummaryTask;
+    const isCritical = this.state.showCriticalPath && !!this.getCriticalPath().tasks.get(task.taskDataId)?.isCritical;
+    const isPreview = !!this.props.previewTaskIds?.has(task.taskDataId);
     
     const barStyle: React.CSSProperties = {
       position: 'absolute',
       left,
       width,
       height: task.isSummaryTask ? '20px' : '16px',
-      backgroundColor: task.isSummaryTask ? '#0078db' : color,
+      backgroundColor: task.isSummaryTask ? '#0078db' : (isCritical ? CRITICAL_COLOR : color),
       borderRadius: task.isSummaryTask ? '10px' : '8px',
       top: task.isSummaryTask ? '6px' : '8px',
       opacity: 0.9,
-      border: task.isSummaryTask ? '1px solid #84b7e9' : '1px solid rgba(255,255,255,0.4)',
+      border: isPreview
+        ? '2px dashed #f39c12'
+        : task.isSummaryTask ? '1px solid #84b7e9' : (isCritical ? '1px solid #7b241c' : '1px solid rgba(255,255,255,0.4)'),
       boxShadow: isScrollingTo
         ? '0 6px 20px rgba(76, 175, 80, 0.5)' // Green glow during scroll animation
         : isSelected 
@@ -1065,11 +2318,26 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
             ? '0 2px 6px rgba(0,0,0,0.3)' 
             : '0 1px 4px rgba(0,0,0,0.2)',
       zIndex: isScrollingTo ? 6 : (isSelected ? 5 : 3), // Bring scrolling task to front
-      cursor: 'pointer',
+      cursor: isDraggable ? (isDragging ? 'grabbing' : 'grab') : 'pointer',
+      userSelect: 'none',
+      touchAction: 'none',
       transition: isScrollingTo ? 'all 0.3s ease-in-out' : 'all 0.2s ease',
       transform: isScrollingTo ? 'scale(1.05)' : (isSelected ? 'scale(1.02)' : 'scale(1)') // Enhanced scale during scroll
     };
 
+    // Milestones draw their own diamond inside a transparent bar
+    if (task.isMilestone) {
+      Object.assign(barStyle, {
+        height: `${MILESTONE_SIZE}px`,
+        top: `${(ROW_HEIGHT - 1 - MILESTONE_SIZE) / 2}px`,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: 0,
+        boxShadow: 'none',
+        opacity: 1
+      });
+    }
+
     const progressStyle: React.CSSProperties = {
       position: 'absolute',
       left: 0,
@@ -1080,10 +2348,33 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       borderRadius: task.isSummaryTask ? '8px' : '4px'
     };
 
+    const connectorStyle: React.CSSProperties = {
+      position: 'absolute',
+      top: '50%',
+      width: '10px',
+      height: '10px',
+      marginTop: '-5px',
+      borderRadius: '50%',
+      backgroundColor: 'white',
+      border: '2px solid #2c5aa0',
+      cursor: 'crosshair',
+      zIndex: 12
+    };
+
+    const resizeHandleStyle: React.CSSProperties = {
+      position: 'absolute',
+      top: 0,
+      width: '6px',
+      height: '100%',
+      cursor: 'ew-resize',
+      zIndex: 4
+    };
+
     return (
       <div style={{
         position: 'relative',
-        height: '36px', // Updated to match row height
+        height: `${ROW_HEIGHT}px`, // Updated to match row height
+        boxSizing: 'border-box',
         borderBottom: '1px solid #e9ecef',
         borderLeft: isScrollingTo 
           ? '4px solid #4caf50' // Green border during scroll animation
@@ -1099,15 +2390,23 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       }}>
         <div 
           style={barStyle}
+          data-task-timeline-id={task.taskDataId}
+          onPointerDown={(e) => this.startBarDrag(e, task, 'move')}
           onClick={(e) => {
             e.stopPropagation(); // Prevent event bubbling
-            this.setState({ selectedTask: task.taskDataId });
+            if (this.suppressNextBarClick) {
+              this.suppressNextBarClick = false;
+              return;
+            }
+            this.setState({ selectedTask: task.taskDataId, selectedLink: null });
             this.scrollToTask(task, index);
             if (this.props.onTaskClick) {
               this.props.onTaskClick(task);
             }
           }}
         >
+          {task.isMilestone ? this.renderMilestone(task, isCritical, isPreview, isSelected) : (
+          <>
           <div style={progressStyle}></div>
           {/* Task name on timeline bar - show on most bars */}
           {width > 80 && (
@@ -1163,7 +2462,696 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
               {Math.round((task.progress ?? 0) * 100)}%
             </span>
           )}
+          </>
+          )}
+          {/* Resize handles at both ends */}
+          {isDraggable && !task.isMilestone && (
+            <>
+              <div
+                style={{ ...resizeHandleStyle, left: 0 }}
+                onPointerDown={(e) => this.startBarDrag(e, task, 'resize-start')}
+                title="Drag to change the start date"
+              />
+              <div
+                style={{ ...resizeHandleStyle, right: 0 }}
+                onPointerDown={(e) => this.startBarDrag(e, task, 'resize-end')}
+                title="Drag to change the finish date"
+              />
+            </>
+          )}
+          {/* Connector handles to draw dependencies - shown on the selected bar and on all bars while linking */}
+          {this.props.onDependencyCreated && (isSelected || this.state.linkDragState) && (
+            <>
+              <div
+                style={{ ...connectorStyle, left: -14 }}
+                data-connector-task-id={task.taskDataId}
+                data-connector-end="start"
+                onPointerDown={(e) => this.startLinkDrag(e, task, 'start', index)}
+                title="Drag to another task to link from this task's start"
+              />
+              <div
+                style={{ ...connectorStyle, right: -14 }}
+                data-connector-task-id={task.taskDataId}
+                data-connector-end="finish"
+                onPointerDown={(e) => this.startLinkDrag(e, task, 'finish', index)}
+                title="Drag to another task to link from this task's finish"
+              />
+            </>
+          )}
+        </div>
+        {this.hasBaselines() && this.renderBaselineBar(task)}
+        {isDragging && dragState && this.renderDragGhost(task, dragState)}
+      </div>
+    );
+  };
+
+  /**
+   * Today line, status date line and date markers that overlap the timeline
+   */
+  private getTimelineMarkers = (): TimelineMarker[] => {
+    const { markers } = this.props;
+    const { timelineStart, timelineEnd } = this.state;
+    const result: TimelineMarker[] = [];
+    
+    if (markers?.showToday !== false) {
+      const today = new Date();
+      result.push({ id: 'today', label: 'Today', date: today, color: TODAY_MARKER_COLOR, tooltip: this.formatDate(today) });
+    }
+    if (markers?.statusDate) {
+      result.push({ id: 'status-date', label: 'Status date', date: markers.statusDate, color: STATUS_DATE_COLOR, lineStyle: 'dashed', tooltip: this.formatDate(markers.statusDate) });
+    }
+    result.push(...(markers?.markers ?? []));
+    
+    return result.filter(marker => (marker.endDate ?? marker.date) >= timelineStart && marker.date <= timelineEnd);
+  };
+
+  private getMarkerTooltip = (marker: TimelineMarker): string => {
+    const dates = marker.endDate
+      ? `${this.formatDate(marker.date)} - ${this.formatDate(marker.endDate)}`
+      : this.formatDate(marker.date);
+    return [marker.label || dates, marker.tooltip ?? (marker.label ? dates : '')].filter(line => line).join('\n');
+  };
+
+  /**
+   * Marker lines across the rows; markers with an end date shade the window between their lines
+   */
+  private renderDateMarkers = (height: number): JSX.Element | null => {
+    const markers = this.getTimelineMarkers();
+    if (markers.length === 0) return null;
+    
+    return (
+      <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height, pointerEvents: 'none', zIndex: 2 }}>
+        {markers.map(marker => {
+          const { left, width } = this.calculateDatePosition(marker.date, marker.endDate ?? marker.date);
+          const border = `2px ${marker.lineStyle ?? 'solid'} ${marker.color}`;
+          return (
+            <div key={marker.id} style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: left - 1,
+              width: marker.endDate ? width + 2 : 0,
+              borderLeft: border,
+              borderRight: marker.endDate ? border : undefined
+            }}>
+              {marker.endDate && (
+                <div style={{ width: '100%', height: '100%', backgroundColor: marker.color, opacity: 0.12 }} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  /**
+   * Marker labels above the header tiers, so they stay visible while scrolling down the rows
+   */
+  private renderMarkerStrip = (): JSX.Element | null => {
+    const markers = this.getTimelineMarkers();
+    if (markers.length === 0) return null;
+    
+    return (
+      <div style={{ position: 'relative', width: this.state.timelineWidth, height: MARKER_STRIP_HEIGHT, backgroundColor: 'white', borderBottom: '1px solid #dee2e6' }}>
+        {markers.map(marker => (
+          <div
+            key={marker.id}
+            title={this.getMarkerTooltip(marker)}
+            style={{
+              position: 'absolute',
+              left: this.calculateDatePosition(marker.date, marker.date).left - 1,
+              top: 2,
+              maxWidth: 160,
+              height: MARKER_STRIP_HEIGHT - 4,
+              lineHeight: `${MARKER_STRIP_HEIGHT - 4}px`,
+              padding: '0 6px',
+              borderRadius: '0 3px 3px 0',
+              backgroundColor: marker.color,
+              color: 'white',
+              fontSize: '10px',
+              fontWeight: 'bold',
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              cursor: 'default'
+            }}
+          >
+            {marker.label || '\u00a0'}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  /**
+   * Shade weekends and holidays at Hour, Day and Week zoom. Uses the calendar of the selected
+   * task's project, or the default calendar when nothing is selected. Like the header, only
+   * the mounted part of the timeline (columnWindow) is shaded.
+   */
+  private renderNonWorkingDays = (height: number): JSX.Element | null => {
+    const { calendars } = this.props;
+    const { zoomLevel, selectedTask } = this.state;
+    if (!calendars || (zoomLevel !== 'Hour' && zoomLevel !== 'Day' && zoomLevel !== 'Week')) return null;
+    
+    const task = selectedTask ? this.getTaskStore().getTask(selectedTask) : undefined;
+    const calendar = task ? this.getCalendar(task) : calendars.defaultCalendar;
+    const { windowStart, windowEnd } = this.getColumnWindowDates();
+    
+    return (
+      <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height, pointerEvents: 'none', zIndex: 1 }}>
+        {getNonWorkingRanges(calendar, windowStart, windowEnd).map(range => {
+          const { left, width } = this.calculateDatePosition(range.start, range.finish);
+          return (
+            <div
+              key={range.start.toISOString()}
+              style={{ position: 'absolute', top: 0, bottom: 0, left, width, backgroundColor: NON_WORKING_COLOR }}
+            />
+          );
+        })}
+      </div>
+    );
+  };
+
+  /**
+   * Diamond with the task name beside it, drawn inside the milestone's bar
+   */
+  private renderMilestone = (task: TaskData, isCritical: boolean, isPreview: boolean, isSelected: boolean): JSX.Element => {
+    const diamondSize = Math.round(MILESTONE_SIZE / Math.SQRT2);
+    
+    return (
+      <>
+        <div style={{
+          position: 'absolute',
+          left: (MILESTONE_SIZE - diamondSize) / 2,
+          top: (MILESTONE_SIZE - diamondSize) / 2,
+          width: diamondSize,
+          height: diamondSize,
+          boxSizing: 'border-box',
+          transform: 'rotate(45deg)',
+          backgroundColor: isCritical ? CRITICAL_COLOR : MILESTONE_COLOR,
+          border: isPreview ? '2px dashed #f39c12' : (isSelected ? '2px solid #2196f3' : '1px solid white'),
+          boxShadow: '0 1px 4px rgba(0,0,0,0.3)'
+        }} />
+        <span style={{
+          position: 'absolute',
+          left: MILESTONE_SIZE + 16, // Clear of the connector handle
+          top: '50%',
+          transform: 'translateY(-50%)',
+          fontSize: '11px',
+          fontWeight: 'bold',
+          color: '#2c3e50',
+          whiteSpace: 'nowrap',
+          pointerEvents: 'none'
+        }}>
+          {task.taskName} · {this.formatDate(task.startDate)}
+        </span>
+      </>
+    );
+  };
+
+  /**
+   * Dashed preview of the new bar position with the dates it would get
+   */
+  private renderDragGhost = (task: TaskData, dragState: IDragState): JSX.Element => {
+    const { previewStart, previewFinish } = dragState;
+    const { left, width } = this.calculateTaskPosition({ ...task, startDate: previewStart, finishDate: previewFinish });
+    
+    return (
+      <>
+        <div style={{
+          position: 'absolute',
+          left,
+          width,
+          top: '6px',
+          height: '20px',
+          border: '2px dashed #2c5aa0',
+          borderRadius: '8px',
+          backgroundColor: 'rgba(44, 90, 160, 0.15)',
+          pointerEvents: 'none',
+          zIndex: 7
+        }} />
+        <div style={{
+          position: 'absolute',
+          left: left + width + 8,
+          top: '6px',
+          padding: '2px 8px',
+          backgroundColor: '#343a40',
+          color: 'white',
+          fontSize: '11px',
+          borderRadius: '4px',
+          whiteSpace: 'nowrap',
+          pointerEvents: 'none',
+          zIndex: 8
+        }}>
+          {this.formatPreviewDate(previewStart)} - {this.formatPreviewDate(previewFinish)} ({this.calculateDurationDays(task, previewStart, previewFinish)}d)
         </div>
+      </>
+    );
+  };
+
+  /**
+   * All columns with the user's order, widths and visibility applied
+   */
+  private getColumnLayout = () => {
+    const { extraColumns } = this.props;
+    const { columnLayout } = this.state;
+    const cache = this.columnLayoutCache;
+    if (cache && cache.extraColumns === extraColumns && cache.layout === columnLayout) {
+      return cache.columns;
+    }
+    
+    const columns = mergeColumnLayout(getGridColumnDefinitions(extraColumns), columnLayout);
+    this.columnLayoutCache = { extraColumns, layout: columnLayout, columns };
+    return columns;
+  };
+
+  private getVisibleColumns = () => this.getColumnLayout().filter(column => column.visible);
+
+  /**
+   * Store a changed layout. Saved columns that aren't available right now (e.g. extra columns
+   * that aren't loaded yet) are kept so they come back with the user's settings.
+   */
+  private updateColumnLayout = (columns: GridColumnLayout[], save = true): void => {
+    const ids = new Set(columns.map(column => column.id));
+    const unavailable = (this.state.columnLayout ?? []).filter(column => !ids.has(column.id));
+    const columnLayout = [...columns, ...unavailable];
+    
+    this.setState({ columnLayout });
+    if (save && this.props.columnLayoutKey) {
+      saveColumnLayout(this.props.columnLayoutKey, columnLayout);
+    }
+  };
+
+  private toLayout = (columns: { definition: GridColumnDefinition; width: number; visible: boolean }[]): GridColumnLayout[] =>
+    columns.map(column => ({ id: column.definition.id, width: column.width, visible: column.visible }));
+
+  private toggleColumn = (columnId: string): void => {
+    this.updateColumnLayout(this.toLayout(this.getColumnLayout()).map(column =>
+      column.id === columnId ? { ...column, visible: !column.visible } : column));
+  };
+
+  private resetColumns = (): void => {
+    this.setState({ columnLayout: null });
+    if (this.props.columnLayoutKey) {
+      saveColumnLayout(this.props.columnLayoutKey, null);
+    }
+  };
+
+  private startColumnResize = (e: React.PointerEvent, columnId: string, width: number): void => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    
+    this.columnResize = { columnId, originX: e.clientX, originWidth: width };
+    window.addEventListener('pointermove', this.handleColumnResizeMove);
+    window.addEventListener('pointerup', this.handleColumnResizeEnd);
+  };
+
+  private handleColumnResizeMove = (e: PointerEvent): void => {
+    const resize = this.columnResize;
+    if (!resize) return;
+    
+    const columns = this.getColumnLayout();
+    const minWidth = columns.find(column => column.definition.id === resize.columnId)?.definition.minWidth ?? 40;
+    const width = Math.max(minWidth, Math.round(resize.originWidth + e.clientX - resize.originX));
+    this.updateColumnLayout(this.toLayout(columns).map(column => column.id === resize.columnId ? { ...column, width } : column), false);
+  };
+
+  private handleColumnResizeEnd = (): void => {
+    window.removeEventListener('pointermove', this.handleColumnResizeMove);
+    window.removeEventListener('pointerup', this.handleColumnResizeEnd);
+    this.columnResize = null;
+    
+    // The click that ends the resize shouldn't sort the column
+    this.suppressNextHeaderClick = true;
+    window.setTimeout(() => { this.suppressNextHeaderClick = false; });
+    
+    // Save once at the end instead of on every move
+    this.updateColumnLayout(this.toLayout(this.getColumnLayout()));
+  };
+
+  /**
+   * Dropping a header on another one moves it in front of that column
+   */
+  private handleColumnDrop = (e: React.DragEvent, targetId: string): void => {
+    e.preventDefault();
+    const draggedId = this.draggedColumnId;
+    this.draggedColumnId = null;
+    this.setState({ columnDropTarget: null });
+    
+    if (draggedId && draggedId !== targetId) {
+      this.updateColumnLayout(moveColumn(this.toLayout(this.getColumnLayout()), draggedId, targetId));
+    }
+  };
+
+  /**
+   * Predecessors as task numbers with the link type and lag, e.g. "12; 15SS+2d"
+   */
+  private formatPredecessors = (task: TaskData): string => {
+    const store = this.getTaskStore();
+    return store.getPredecessorLinks(task.taskDataId).map(link => {
+      const predecessor = store.getTask(link.predecessorId);
+      const type = link.type !== 'FinishToStart' || link.lag ? dependencyTypeStyles[link.type].label : '';
+      const lag = link.lag ? `${link.lag > 0 ? '+' : ''}${link.lag}d` : '';
+      const reference = [predecessor?.taskNumber, predecessor?.taskName].find(Boolean) ?? link.predecessorId;
+      return `${reference}${type}${lag}`;
+    }).join('; ');
+  };
+
+  private renderGridCell = (column: { definition: GridColumnDefinition; width: number }, taskHierarchy: TaskHierarchy): JSX.Element => {
+    const { task } = taskHierarchy;
+    const { definition, width } = column;
+    const { editingCell } = this.state;
+    const isEditable = !!this.props.onTaskChanged && isEditableColumn(definition.id, task);
+    const cellStyle: React.CSSProperties = {
+      width,
+      flexShrink: 0,
+      boxSizing: 'border-box',
+      padding: '6px 8px',
+      borderRight: '1px solid #dee2e6',
+      fontSize: '13px',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: definition.align === 'center' ? 'center' : 'flex-start',
+      overflow: 'hidden',
+      whiteSpace: 'nowrap'
+    };
+    
+    if (isEditable && editingCell && editingCell.taskId === task.taskDataId && editingCell.columnId === definition.id) {
+      return (
+        <div key={definition.id} style={{ ...cellStyle, padding: '4px', overflow: 'visible', position: 'relative' }}>
+          {definition.id === 'taskName' && <div style={{ width: taskHierarchy.level * 20, flexShrink: 0 }} />}
+          {this.renderCellEditor(task, editingCell)}
+        </div>
+      );
+    }
+    
+    const renderText = (text: string) => (
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }} title={text}>{text}</span>
+    );
+    
+    let content: React.ReactNode;
+    switch (definition.id) {
+      case 'taskName':
+        content = this.renderTaskNameCell(taskHierarchy);
+        break;
+      case 'taskNumber':
+        content = (
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }} title={task.taskNumber}>
+            {this.renderSearchHighlight(task.taskNumber ?? '', this.getCurrentSearchMatchId() === task.taskDataId)}
+          </span>
+        );
+        break;
+      case 'wbs':
+        content = renderText(taskHierarchy.outlineNumber);
+        break;
+      case 'phase':
+        content = (
+          <span style={{ 
+            backgroundColor: this.getPhaseColor(task.taskPhase),
+            color: 'white',
+            padding: '3px 8px',
+            borderRadius: '12px',
+            fontSize: '11px',
+            fontWeight: '500',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap'
+          }}
+          title={task.taskPhase} // Show full phase name on hover
+          >
+            {task.taskPhase}
+          </span>
+        );
+        break;
+      case 'startDate':
+        content = this.formatDate(task.startDate);
+        break;
+      case 'finishDate':
+        content = this.formatDate(task.finishDate);
+        break;
+      case 'duration':
+        content = `${task.duration}d`;
+        break;
+      case 'progress':
+        content = `${Math.round((task.progress ?? 0) * 100)}%`;
+        break;
+      case 'predecessors':
+        content = renderText(this.formatPredecessors(task));
+        break;
+      case 'project':
+        content = renderText(task.projectId || task.projectUID || '');
+        break;
+      default:
+        content = renderText(task.extraFields?.[definition.id.slice(EXTRA_COLUMN_PREFIX.length)] ?? '');
+    }
+    
+    return (
+      <div
+        key={definition.id}
+        style={definition.id === 'taskName' ? { ...cellStyle, padding: '8px 12px' } : cellStyle}
+        onDoubleClick={isEditable ? (e) => {
+          e.stopPropagation();
+          this.startCellEdit(task, definition.id as EditableColumnId);
+        } : undefined}
+      >
+        {content}
+      </div>
+    );
+  };
+
+  private startCellEdit = (task: TaskData, columnId: EditableColumnId): void => {
+    this.setState({ editingCell: { taskId: task.taskDataId, columnId, value: null, error: null }, selectedTask: task.taskDataId });
+  };
+
+  /**
+   * Validate the open editor and pass its change on like a timeline edit.
+   * Returns false, and keeps the editor open with the error, when the value isn't valid.
+   */
+  private commitCellEdit = (): boolean => {
+    const { editingCell } = this.state;
+    if (!editingCell) return true;
+    
+    const task = this.getTaskStore().getTask(editingCell.taskId);
+    if (!task || editingCell.value === null || !this.props.onTaskChanged) {
+      this.setState({ editingCell: null });
+      return true;
+    }
+    
+    const { changes, error } = parseCellEdit(task, editingCell.columnId, editingCell.value, {
+      calculateDuration: this.calculateDurationDays,
+      addDuration: (t, startDate, days) => this.props.calendars
+        ? addWorkingDays(this.getCalendar(t), startDate, days)
+        : new Date(startDate.getTime() + days * 24 * 60 * 60 * 1000)
+    });
+    if (error) {
+      this.setState({ editingCell: { ...editingCell, error } });
+      return false;
+    }
+    
+    this.setState({ editingCell: null });
+    if (Object.keys(changes).length > 0) {
+      this.props.onTaskChanged(task, changes);
+    }
+    return true;
+  };
+
+  /**
+   * Commit the open editor and open the next editable cell: Tab moves along the row, Enter down the column
+   */
+  private moveCellEdit = (direction: 'next' | 'previous' | 'down' | 'up'): void => {
+    const { editingCell } = this.state;
+    if (!editingCell || !this.commitCellEdit()) return;
+    
+    const rows = this.displayedRows;
+    const columnIds = this.getVisibleColumns().map(column => column.definition.id);
+    let rowIndex = rows.findIndex(row => row.task.taskDataId === editingCell.taskId);
+    if (rowIndex < 0) return;
+    
+    if (direction === 'down' || direction === 'up') {
+      const step = direction === 'down' ? 1 : -1;
+      for (rowIndex += step; rowIndex >= 0 && rowIndex < rows.length; rowIndex += step) {
+        if (isEditableColumn(editingCell.columnId, rows[rowIndex].task)) {
+          this.openCellEditorAt(rowIndex, editingCell.columnId);
+          return;
+        }
+      }
+      return;
+    }
+    
+    // Along the row, wrapping to the next or previous row
+    const step = direction === 'next' ? 1 : -1;
+    let columnIndex = columnIds.indexOf(editingCell.columnId);
+    while (rowIndex >= 0 && rowIndex < rows.length) {
+      for (columnIndex += step; columnIndex >= 0 && columnIndex < columnIds.length; columnIndex += step) {
+        if (isEditableColumn(columnIds[columnIndex], rows[rowIndex].task)) {
+          this.openCellEditorAt(rowIndex, columnIds[columnIndex] as EditableColumnId);
+          return;
+        }
+      }
+      rowIndex += step;
+      columnIndex = step > 0 ? -1 : columnIds.length;
+    }
+  };
+
+  private openCellEditorAt = (rowIndex: number, columnId: EditableColumnId): void => {
+    const { task } = this.displayedRows[rowIndex];
+    this.startCellEdit(task, columnId);
+    if (this.props.onTaskClick) {
+      this.props.onTaskClick(task);
+    }
+    
+    // Keep the row in view; scrolling the grid also mounts it if it was outside the row window
+    const container = this.leftGridRef.current;
+    if (!container) return;
+    const rowTop = rowIndex * ROW_HEIGHT;
+    if (rowTop < container.scrollTop) {
+      container.scrollTop = rowTop;
+    } else if (rowTop + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop + ROW_HEIGHT - container.clientHeight;
+    }
+  };
+
+  private handleCellEditorKeyDown = (e: React.KeyboardEvent): void => {
+    // Keys typed in an editor are not grid shortcuts (e.g. Backspace deleting the selected link)
+    e.stopPropagation();
+    
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      this.moveCellEdit(e.shiftKey ? 'previous' : 'next');
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      this.moveCellEdit(e.shiftKey ? 'up' : 'down');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      // Back to the grid once the editor is gone, so its blur doesn't commit; F2 or Enter edits again
+      this.setState({ editingCell: null }, () => this.containerRef.current?.focus({ preventScroll: true }));
+    }
+  };
+
+  /**
+   * Text, dropdown, date or number input for the cell being edited, with the validation error below it
+   */
+  private renderCellEditor = (task: TaskData, editingCell: IEditingCell): JSX.Element => {
+    const { columnId, error } = editingCell;
+    const value = editingCell.value ?? getEditorValue(task, columnId);
+    const editorProps = {
+      autoFocus: true,
+      value,
+      title: error ?? undefined,
+      style: {
+        width: '100%',
+        minWidth: 0,
+        height: '26px',
+        boxSizing: 'border-box',
+        padding: '2px 4px',
+        border: `1px solid ${error ? '#dc3545' : '#007bff'}`,
+        borderRadius: '3px',
+        fontSize: '13px',
+        outline: 'none'
+      } as React.CSSProperties,
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        this.setState({ editingCell: { ...editingCell, value: e.target.value, error: null } });
+      },
+      onKeyDown: this.handleCellEditorKeyDown,
+      onBlur: () => {
+        // Moving to another cell has already committed this one
+        const current = this.state.editingCell;
+        if (current && current.taskId === editingCell.taskId && current.columnId === editingCell.columnId) {
+          this.commitCellEdit();
+        }
+      },
+      onClick: (e: React.MouseEvent) => e.stopPropagation(),
+      onDoubleClick: (e: React.MouseEvent) => e.stopPropagation()
+    };
+    
+    let editor: JSX.Element;
+    switch (columnId) {
+      case 'phase':
+        editor = (
+          <select {...editorProps}>
+            {taskPhases.map(phase => <option key={phase} value={phase}>{phase}</option>)}
+          </select>
+        );
+        break;
+      case 'startDate':
+      case 'finishDate':
+        editor = <input type="date" {...editorProps} />;
+        break;
+      case 'duration':
+        editor = <input type="number" min={0} step="any" {...editorProps} />;
+        break;
+      case 'progress':
+        editor = <input type="number" min={0} max={100} step={1} {...editorProps} />;
+        break;
+      default:
+        editor = <input type="text" {...editorProps} />;
+    }
+    
+    return (
+      <>
+        {editor}
+        {error && (
+          <div style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            zIndex: 20,
+            padding: '3px 6px',
+            backgroundColor: '#dc3545',
+            color: 'white',
+            fontSize: '11px',
+            borderRadius: '0 0 3px 3px',
+            whiteSpace: 'nowrap'
+          }}>
+            {error}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  /**
+   * Show/hide list for the grid columns, opened from the toolbar
+   */
+  private renderColumnPicker = (): JSX.Element => {
+    return (
+      <div
+        style={{
+          position: 'absolute',
+          top: '100%',
+          left: 0,
+          marginTop: '4px',
+          zIndex: 200,
+          minWidth: '200px',
+          maxHeight: '320px',
+          overflowY: 'auto',
+          padding: '8px',
+          backgroundColor: 'white',
+          border: '1px solid #dee2e6',
+          borderRadius: '4px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          fontSize: '13px'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {this.getColumnLayout().map(column => (
+          <label key={column.definition.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '3px 0', cursor: column.definition.required ? 'default' : 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={column.visible}
+              disabled={column.definition.required}
+              onChange={() => this.toggleColumn(column.definition.id)}
+            />
+            {column.definition.title}
+          </label>
+        ))}
+        <button
+          onClick={this.resetColumns}
+          style={{ marginTop: '6px', padding: '4px 8px', fontSize: '12px', border: '1px solid #dee2e6', borderRadius: '4px', backgroundColor: '#f8f9fa', cursor: 'pointer' }}
+        >
+          Reset columns
+        </button>
       </div>
     );
   };
@@ -1175,69 +3163,119 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
       fontWeight: 'bold',
       color: '#495057'
     };
+    const { columnDropTarget, gridSort } = this.state;
     
     return (
       <div style={{ 
         display: 'flex',
+        paddingLeft: 4, // Matches the rows' selection border
         ...headerStyle
       }}>
-        <div style={{ 
-          width: 350, // Updated to match task column width
-          padding: '12px 16px', 
-          borderRight: '1px solid #dee2e6',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          Task Name
-        </div>
-        <div style={{ 
-          width: 100, 
-          padding: '12px 8px', 
-          borderRight: '1px solid #dee2e6',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          Phase
-        </div>
-        <div style={{ 
-          width: 100, 
-          padding: '12px 8px', 
-          borderRight: '1px solid #dee2e6',
-          display: 'flex',
-          alignItems: 'center'
-        }}>
-          Start Date
-        </div>
-        <div style={{ 
-          width: 80, 
-          padding: '12px 8px', 
-          borderRight: '1px solid #dee2e6',
-          textAlign: 'center',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center'
-        }}>
-          Duration
-        </div>
-        <div style={{ 
-          width: 80, 
-          padding: '12px 8px',
-          textAlign: 'center',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center'
-        }}>
-          Progress
-        </div>
+        {this.getVisibleColumns().map(column => (
+          <div
+            key={column.definition.id}
+            draggable
+            onDragStart={(e) => {
+              this.draggedColumnId = column.definition.id;
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', column.definition.id); // Firefox only starts a drag with data
+            }}
+            onDragOver={(e) => {
+              if (!this.draggedColumnId) return;
+              e.preventDefault();
+              if (columnDropTarget !== column.definition.id) this.setState({ columnDropTarget: column.definition.id });
+            }}
+            onDragEnd={() => {
+              this.draggedColumnId = null;
+              this.setState({ columnDropTarget: null });
+            }}
+            onDrop={(e) => this.handleColumnDrop(e, column.definition.id)}
+            onClick={() => this.toggleSort(column.definition.id)}
+            title="Click to sort, drag to move the column, drag the right edge to resize it"
+            style={{ 
+              position: 'relative',
+              width: column.width,
+              flexShrink: 0,
+              boxSizing: 'border-box',
+              padding: column.definition.id === 'taskName' ? '12px 16px' : '12px 8px',
+              borderRight: '1px solid #dee2e6',
+              borderLeft: columnDropTarget === column.definition.id ? '3px solid #007bff' : undefined, // Drop position
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: column.definition.align === 'center' ? 'center' : 'flex-start',
+              overflow: 'hidden',
+              whiteSpace: 'nowrap',
+              cursor: 'grab'
+            }}
+          >
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{column.definition.title}</span>
+            {gridSort?.columnId === column.definition.id && (
+              <span style={{ marginLeft: '4px', color: '#007bff', fontSize: '10px', flexShrink: 0 }}>
+                {gridSort.direction === 'asc' ? '▲' : '▼'}
+              </span>
+            )}
+            <div
+              onPointerDown={(e) => this.startColumnResize(e, column.definition.id, column.width)}
+              onDragStart={(e) => { e.preventDefault(); e.stopPropagation(); }}
+              style={{ position: 'absolute', top: 0, right: 0, width: 6, height: '100%', cursor: 'col-resize' }}
+            />
+          </div>
+        ))}
+        {this.state.showCriticalPath && (['Total Float', 'Free Float'].map(title => (
+          <div key={title} style={{ 
+            width: FLOAT_COLUMN_WIDTH, 
+            flexShrink: 0,
+            boxSizing: 'border-box',
+            padding: '12px 8px',
+            borderRight: '1px solid #dee2e6',
+            textAlign: 'center',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}>
+            {title}
+          </div>
+        )))}
+        {this.hasBaselines() && (['Start Var.', 'Finish Var.'].map(title => (
+          <div key={title} style={{ 
+            width: VARIANCE_COLUMN_WIDTH, 
+            flexShrink: 0,
+            boxSizing: 'border-box',
+            padding: '12px 8px',
+            borderRight: '1px solid #dee2e6',
+            textAlign: 'center',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}
+          title="Days later (+) or earlier (-) than the baseline">
+            {title}
+          </div>
+        )))}
       </div>
     );
   };
 
   public render(): JSX.Element {
-    const hierarchy = this.buildHierarchy();
-    const visibleTasks = this.flattenHierarchy(hierarchy);
-    const { timelineWidth } = this.state;
-    const gridWidth = 731; // Updated width for left grid (350 + 100 + 100 + 80 + 80)
+    const hierarchy = this.sortHierarchy(this.buildHierarchy());
+    const flatTasks = this.flattenHierarchy(hierarchy);
+    let visibleTasks = this.state.showSlippingOnly && this.hasBaselines() ? this.filterSlippingTasks(flatTasks) : flatTasks;
+    if (countActiveFilters(this.state.taskFilter) > 0) {
+      const filteredIds = this.getFilteredTaskIds(hierarchy, this.state.taskFilter);
+      visibleTasks = visibleTasks.filter(row => filteredIds.has(row.task.taskDataId));
+    }
+    this.displayedRows = visibleTasks;
+    const { timelineWidth, rowWindow } = this.state;
+    // Only the rows around the viewport are mounted; spacers keep the scroll height
+    const windowStart = Math.min(rowWindow.start, visibleTasks.length);
+    const windowEnd = Math.min(rowWindow.end, visibleTasks.length);
+    const windowedTasks = visibleTasks.slice(windowStart, windowEnd);
+    const topSpacerHeight = windowStart * ROW_HEIGHT;
+    const bottomSpacerHeight = (visibleTasks.length - windowEnd) * ROW_HEIGHT;
+    const gridWidth = 4 // Left grid: selection border, columns, float and variance columns
+      + this.getVisibleColumns().reduce((sum, column) => sum + column.width, 0)
+      + (this.state.showCriticalPath ? 2 * FLOAT_COLUMN_WIDTH : 0)
+      + (this.hasBaselines() ? 2 * VARIANCE_COLUMN_WIDTH : 0);
 
     // Add CSS keyframes for scroll animations
     const scrollAnimationStyles = `
@@ -1270,18 +3308,25 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
     `;
 
     return (
-      <div style={{ 
-        display: 'flex', 
-        flexDirection: 'column',
-        height: '100%',
-        border: '1px solid #dee2e6',
-        backgroundColor: 'white',
-        borderRadius: '8px',
-        overflow: 'hidden',
-        boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
-      }}>
+      <div 
+        ref={this.containerRef}
+        tabIndex={0}
+        onKeyDown={this.handleKeyDown}
+        style={{ 
+          display: 'flex', 
+          flexDirection: 'column',
+          height: '100%',
+          border: '1px solid #dee2e6',
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+          outline: 'none'
+        }}
+      >
         <div dangerouslySetInnerHTML={{ __html: scrollAnimationStyles }} />
         {this.renderZoomControls()}
+        {this.state.showFilterBar && this.renderFilterBar(flatTasks.length, visibleTasks.length)}
         
         {/* Sticky Headers Row */}
         <div style={{ 
@@ -1292,33 +3337,28 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
           backgroundColor: '#ffffff',
           borderBottom: '2px solid #dee2e6'
         }}>
-          {/* Left Grid Header */}
+          {/* Left Grid Header, aligned with the bottom timeline header tier */}
           <div style={{ 
             width: gridWidth, 
             flexShrink: 0,
-            borderRight: '2px solid #dee2e6'
+            borderRight: '2px solid #dee2e6',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'flex-end'
           }}>
             {this.renderGridHeader()}
           </div>
           
-          {/* Right Timeline Header Container */}
-          <div style={{ 
-            flex: 1,
-            overflow: 'hidden',
-            position: 'relative'
-          }}>
-            <div 
-              id="timeline-header-container"
-              style={{ 
-                width: timelineWidth, // Use exact timeline width for proper alignment
-                marginLeft: 20, // Will be controlled by sync,
-                overflowX: 'hidden', // Will be controlled by sync
-                overflowY: 'hidden',
-                scrollBehavior: 'smooth' // Native smooth scrolling support
-              }}
-            >
-              {this.renderTimelineHeader()}
-            </div>
+          {/* Right Timeline Header Container - scrolled by syncTimelineHeaderScroll */}
+          <div 
+            ref={this.timelineHeaderRef}
+            style={{ 
+              flex: 1,
+              overflow: 'hidden',
+              position: 'relative'
+            }}
+          >
+            {this.renderTimelineHeader()}
           </div>
         </div>
 
@@ -1337,8 +3377,7 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
               style={{ 
                 flex: 1,
                 overflowY: 'auto',
-                overflowX: 'hidden',
-                scrollBehavior: 'smooth' // Native smooth scrolling support
+                overflowX: 'hidden'
               }}
               onScroll={(e) => {
                 const target = e.target as HTMLDivElement;
@@ -1346,13 +3385,16 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
                 if (target.scrollTop !== (this.rightTimelineRef.current?.scrollTop || 0)) {
                   this.syncScrollLeft(target.scrollTop);
                 }
+                this.updateRenderWindow();
               }}
             >
-              {visibleTasks.map((taskHierarchy, index) => 
-                <div key={`task-row-${taskHierarchy.task.taskDataId}-${index}`}>
-                  {this.renderTaskRow(taskHierarchy, index)}
+              <div style={{ height: topSpacerHeight }} />
+              {windowedTasks.map((taskHierarchy, i) => 
+                <div key={`task-row-${taskHierarchy.task.taskDataId}-${windowStart + i}`}>
+                  {this.renderTaskRow(taskHierarchy, windowStart + i)}
                 </div>
               )}
+              <div style={{ height: bottomSpacerHeight }} />
             </div>
           </div>
           
@@ -1368,8 +3410,7 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
               style={{ 
                 flex: 1,
                 overflowY: 'auto',
-                overflowX: 'auto', // Allow horizontal scrolling
-                scrollBehavior: 'smooth' // Native smooth scrolling support
+                overflowX: 'auto' // Allow horizontal scrolling
               }}
               onScroll={(e) => {
                 const target = e.target as HTMLDivElement;
@@ -1377,6 +3418,7 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
                 if (target.scrollTop !== (this.leftGridRef.current?.scrollTop || 0)) {
                   this.syncScrollRight(target.scrollTop);
                 }
+                this.updateRenderWindow();
                 // Sync horizontal scrolling with the sticky header
                 this.syncTimelineHeaderScroll(target.scrollLeft);
               }}
@@ -1385,19 +3427,30 @@ export class ImprovedGanttChart extends React.Component<IImprovedGanttProps, IIm
                 width: timelineWidth, // Use exact timeline width for consistency
                 position: 'relative'
               }}>
-                <div style={{ 
-                  position: 'relative',
-                  minHeight: `${visibleTasks.length * 36}px` // Updated to match new row height
-                }}>
+                <div 
+                  ref={this.timelineContentRef}
+                  style={{ 
+                    position: 'relative',
+                    minHeight: `${visibleTasks.length * ROW_HEIGHT}px` // Updated to match new row height
+                  }}
+                  onClick={() => {
+                    if (this.state.selectedLink) {
+                      this.setState({ selectedLink: null });
+                    }
+                  }}
+                >
+                  {this.renderNonWorkingDays(visibleTasks.length * ROW_HEIGHT)}
+                  {this.renderDateMarkers(visibleTasks.length * ROW_HEIGHT)}
                   {/* Render task bars first (lower z-index) */}
-                  {visibleTasks.map((taskHierarchy, index) => 
-                    <div key={`timeline-bar-${taskHierarchy.task.taskDataId}-${index}`}>
-                      {this.renderTimelineBar(taskHierarchy, index)}
+                  <div style={{ height: topSpacerHeight }} />
+                  {windowedTasks.map((taskHierarchy, i) => 
+                    <div key={`timeline-bar-${taskHierarchy.task.taskDataId}-${windowStart + i}`}>
+                      {this.renderTimelineBar(taskHierarchy, windowStart + i)}
                     </div>
                   )}
                   {/* Render dependency lines on top (higher z-index) */}
                   <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 10 }}>
-                    {this.renderDependencyLines(visibleTasks)}
+                    {this.renderDependencyLines(visibleTasks, windowStart, windowEnd - 1)}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,334 @@
+import { TaskData, TaskLink } from "./types";
+import { getLinkKey } from "./TaskLinks";
+
+export type PendingChangeType = 'create' | 'update' | 'delete';
+
+export interface PendingChange {
+  taskId: string;
+  type: PendingChangeType;
+  changes: Partial<TaskData>; // For creates this holds the whole new task
+  error?: string; // Message of the last failed save attempt
+}
+
+export interface PendingLinkChange {
+  key: string; // predecessorId->successorId
+  type: PendingChangeType;
+  link: TaskLink;
+  error?: string;
+}
+
+export interface SaveError {
+  taskId: string;
+  taskName: string;
+  type: PendingChangeType;
+  message: string;
+}
+
+// Operations the queue needs to persist changes - implemented by DataverseService
+export interface TaskWriter {
+  createTask(task: TaskData): Promise<string>;
+  updateTask(taskId: string, changes: Partial<TaskData>): Promise<void>;
+  deleteTask(taskId: string): Promise<void>;
+  createLink(link: TaskLink): Promise<string>;
+  updateLink(link: TaskLink): Promise<void>;
+  deleteLink(link: TaskLink): Promise<void>;
+}
+
+/**
+ * Queue of schedule edits that have not been saved to Dataverse yet.
+ * Edits to the same task are merged so each record is written at most once per save.
+ */
+export class PendingChangesQueue {
+  private changes = new Map<string, PendingChange>();
+  private linkChanges = new Map<string, PendingLinkChange>(); // Only used with a link table
+
+  public get count(): number {
+    return this.changes.size + this.linkChanges.size;
+  }
+
+  public has(taskId: string): boolean {
+    return this.changes.has(taskId);
+  }
+
+  public getChanges(): PendingChange[] {
+    return Array.from(this.changes.values());
+  }
+
+  public clear(): void {
+    this.changes.clear();
+    this.linkChanges.clear();
+  }
+
+  /**
+   * Queue field changes for a task. Changes to a task that is still pending creation
+   * are folded into the create; changes to a task pending deletion are ignored.
+   */
+  public enqueueUpdate(taskId: string, changes: Partial<TaskData>): void {
+    const existing = this.changes.get(taskId);
+
+    if (existing?.type === 'delete') {
+      return;
+    }
+
+    this.changes.set(taskId, {
+      taskId,
+      type: existing?.type ?? 'update',
+      changes: { ...existing?.changes, ...changes }
+    });
+  }
+
+  public enqueueCreate(task: TaskData): void {
+    this.changes.set(task.taskDataId, {
+      taskId: task.taskDataId,
+      type: 'create',
+      changes: { ...task }
+    });
+  }
+
+  /**
+   * Queue a delete. Deleting a task that was never saved just drops it from the queue.
+   */
+  public enqueueDelete(taskId: string): void {
+    const existing = this.changes.get(taskId);
+
+    if (existing?.type === 'create') {
+      this.changes.delete(taskId);
+      return;
+    }
+
+    this.changes.set(taskId, { taskId, type: 'delete', changes: {} });
+  }
+
+  /**
+   * Queue a new link record. Re-adding a link that is pending deletion updates the existing record instead.
+   */
+  public enqueueLinkCreate(link: TaskLink): void {
+    const key = getLinkKey(link.predecessorId, link.successorId);
+    const existing = this.linkChanges.get(key);
+
+    if (existing?.type === 'delete') {
+      this.linkChanges.set(key, { key, type: 'update', link: { ...link, linkId: existing.link.linkId } });
+      return;
+    }
+
+    this.linkChanges.set(key, { key, type: 'create', link: { ...link } });
+  }
+
+  public enqueueLinkUpdate(link: TaskLink): void {
+    const key = getLinkKey(link.predecessorId, link.successorId);
+    const existing = this.linkChanges.get(key);
+
+    this.linkChanges.set(key, { key, type: existing?.type === 'create' ? 'create' : 'update', link: { ...link } });
+  }
+
+  /**
+   * Queue removal of a link record. Removing a link that was never saved just drops it from the queue.
+   */
+  public enqueueLinkDelete(link: TaskLink): void {
+    const key = getLinkKey(link.predecessorId, link.successorId);
+    const existing = this.linkChanges.get(key);
+
+    if (existing?.type === 'create') {
+      this.linkChanges.delete(key);
+      return;
+    }
+
+    this.linkChanges.set(key, { key, type: 'delete', link: { ...link, linkId: link.linkId ?? existing?.link.linkId } });
+  }
+
+  /**
+   * Overlay the pending link changes on the loaded links
+   */
+  public applyToLinks(links: TaskLink[]): TaskLink[] {
+    if (this.linkChanges.size === 0) {
+      return links;
+    }
+
+    const result = links
+      .filter(link => this.linkChanges.get(getLinkKey(link.predecessorId, link.successorId))?.type !== 'delete')
+      .map(link => {
+        const change = this.linkChanges.get(getLinkKey(link.predecessorId, link.successorId));
+        return change?.type === 'update' ? change.link : link;
+      });
+
+    this.linkChanges.forEach(change => {
+      if (change.type === 'create') {
+        result.push(change.link);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Overlay the pending changes on the loaded tasks so edits show before they are saved
+   */
+  public applyTo(tasks: TaskData[]): TaskData[] {
+    if (this.changes.size === 0) {
+      return tasks;
+    }
+
+    const result: TaskData[] = [];
+
+    tasks.forEach(task => {
+      const change = this.changes.get(task.taskDataId);
+      if (!change) {
+        result.push(task);
+      } else if (change.type === 'update') {
+        result.push({ ...task, ...change.changes });
+      }
+      // Deleted tasks are left out
+    });
+
+    this.changes.forEach(change => {
+      if (change.type === 'create') {
+        result.push(change.changes as TaskData);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Write all pending changes. Creates run first, parents before their children, so updates and
+   * links can refer to the new records; then updates, then link changes, then deletes. Successful
+   * changes leave the queue; failed ones stay queued with their error so the user can retry or
+   * discard them. A change whose parent is a new task that couldn't be created fails too.
+   */
+  public async save(writer: TaskWriter, getTaskName: (taskId: string) => string): Promise<SaveError[]> {
+    const errors: SaveError[] = [];
+    const creates = this.getChanges().filter(change => change.type === 'create');
+    const pending = [
+      ...this.orderParentsFirst(creates),
+      ...this.getChanges().filter(change => change.type === 'update'),
+      ...this.getChanges().filter(change => change.type === 'delete')
+    ];
+    let linksSaved = false;
+
+    for (const change of pending) {
+      if (change.type === 'delete' && !linksSaved) {
+        // Links go before task deletes so they don't point at removed records
+        linksSaved = true;
+        await this.saveLinks(writer, getTaskName, errors);
+      }
+
+      try {
+        // Still a temporary id: the parent's create failed
+        const parentId = change.changes.parentTask;
+        if (parentId && this.changes.get(parentId)?.type === 'create') {
+          throw new Error(`Parent task ${this.changes.get(parentId)!.changes.taskName ?? parentId} is not saved`);
+        }
+
+        if (change.type === 'create') {
+          const newId = await writer.createTask(change.changes as TaskData);
+          this.changes.delete(change.taskId);
+          this.replaceTaskId(change.taskId, newId);
+        } else if (change.type === 'update') {
+          await writer.updateTask(change.taskId, change.changes);
+          this.changes.delete(change.taskId);
+        } else {
+          await writer.deleteTask(change.taskId);
+          this.changes.delete(change.taskId);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+        change.error = message;
+        errors.push({
+          taskId: change.taskId,
+          taskName: change.changes.taskName ?? getTaskName(change.taskId),
+          type: change.type,
+          message
+        });
+      }
+    }
+
+    if (!linksSaved) {
+      await this.saveLinks(writer, getTaskName, errors);
+    }
+
+    return errors;
+  }
+
+  private async saveLinks(writer: TaskWriter, getTaskName: (taskId: string) => string, errors: SaveError[]): Promise<void> {
+    for (const change of Array.from(this.linkChanges.values())) {
+      try {
+        if (change.type === 'create') {
+          await writer.createLink(change.link);
+        } else if (change.type === 'update') {
+          await writer.updateLink(change.link);
+        } else {
+          await writer.deleteLink(change.link);
+        }
+        this.linkChanges.delete(change.key);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+        change.error = message;
+        errors.push({
+          taskId: change.link.predecessorId,
+          taskName: `${getTaskName(change.link.predecessorId)} → ${getTaskName(change.link.successorId)}`,
+          type: change.type,
+          message
+        });
+      }
+    }
+  }
+
+  /**
+   * Creates in an order where a new parent comes before its new children
+   */
+  private orderParentsFirst(creates: PendingChange[]): PendingChange[] {
+    const createsById = new Map(creates.map(change => [change.taskId, change]));
+    const ordered: PendingChange[] = [];
+    const visited = new Set<string>();
+
+    const visit = (change: PendingChange) => {
+      if (visited.has(change.taskId)) return; // Also stops at parent loops
+      visited.add(change.taskId);
+      const parent = change.changes.parentTask ? createsById.get(change.changes.parentTask) : undefined;
+      if (parent) visit(parent);
+      ordered.push(change);
+    };
+
+    creates.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Point references to a temporary id at the id Dataverse assigned on create
+   */
+  private replaceTaskId(oldId: string, newId: string): void {
+    this.changes.forEach(change => {
+      if (change.changes.parentTask === oldId) {
+        change.changes.parentTask = newId;
+      }
+      if (change.changes.successorUID) {
+        change.changes.successorUID = change.changes.successorUID
+          .split(';')
+          .map(id => id === oldId ? newId : id)
+          .join(';');
+      }
+      if (change.changes.successor) {
+        change.changes.successor = change.changes.successor
+          .split(';')
+          .map(reference => {
+            // Entries may carry a type and lag after the id, e.g. "<id>SS+2d"
+            const suffix = reference.substring(oldId.length);
+            return reference.startsWith(oldId) && /^(FS|SS|FF|SF|$)/i.test(suffix) ? newId + suffix : reference;
+          })
+          .join(';');
+      }
+    });
+
+    const linkChanges = Array.from(this.linkChanges.values());
+    this.linkChanges.clear();
+    linkChanges.forEach(change => {
+      const link = {
+        ...change.link,
+        predecessorId: change.link.predecessorId === oldId ? newId : change.link.predecessorId,
+        successorId: change.link.successorId === oldId ? newId : change.link.successorId
+      };
+      const key = getLinkKey(link.predecessorId, link.successorId);
+      this.linkChanges.set(key, { ...change, key, link });
+    });
+  }
+}
@@ -0,0 +1,128 @@
+export interface BarExtent {
+  left: number;
+  right: number;
+}
+
+const MARGIN = 4; // Space kept between a vertical dependency line and a bar
+
+/**
+ * Merge two lists of extents sorted by left edge into one sorted list without overlaps
+ */
+const mergeExtents = (a: BarExtent[], b: BarExtent[]): BarExtent[] => {
+  const merged: BarExtent[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    const next = j >= b.length || (i < a.length && a[i].left <= b[j].left) ? a[i++] : b[j++];
+    const last = merged[merged.length - 1];
+    if (last && next.left < last.right) {
+      merged[merged.length - 1] = { left: last.left, right: Math.max(last.right, next.right) };
+    } else {
+      merged.push(next);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * The extent in a sorted, non-overlapping list that x falls strictly inside
+ */
+const findBlockingExtent = (extents: BarExtent[], x: number): BarExtent | undefined => {
+  let low = 0;
+  let high = extents.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (extents[mid].right <= x) {
+      low = mid + 1;
+    } else if (extents[mid].left >= x) {
+      high = mid - 1;
+    } else {
+      return extents[mid];
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Bar extents of the displayed rows, built once per render so dependency lines can be routed
+ * around bars without scanning every row they pass. A segment tree holds, for each range of
+ * rows, the merged extents of their bars (widened by a margin).
+ */
+export class RowOccupancy {
+  private extents: BarExtent[];
+  private leafCount = 1;
+  private tree: BarExtent[][];
+
+  constructor(extents: BarExtent[]) {
+    this.extents = extents;
+    while (this.leafCount < extents.length) this.leafCount *= 2;
+
+    this.tree = new Array<BarExtent[]>(this.leafCount * 2).fill([]);
+    extents.forEach((extent, row) => {
+      this.tree[this.leafCount + row] = [{ left: extent.left - MARGIN, right: extent.right + MARGIN }];
+    });
+    for (let node = this.leafCount - 1; node > 0; node--) {
+      this.tree[node] = mergeExtents(this.tree[node * 2], this.tree[node * 2 + 1]);
+    }
+  }
+
+  public get rowCount(): number {
+    return this.extents.length;
+  }
+
+  public getExtent(row: number): BarExtent {
+    return this.extents[row];
+  }
+
+  /**
+   * Find the x closest to desiredX where a vertical line through the rows between fromRow and
+   * toRow (both excluded) doesn't cross a bar. direction limits the search to one side (0 = either).
+   */
+  public findFreeColumn(desiredX: number, fromRow: number, toRow: number, direction: number): number {
+    const nodes = this.getNodes(Math.min(fromRow, toRow) + 1, Math.max(fromRow, toRow) - 1);
+
+    // Step over blocking extents until no row range blocks x
+    const search = (step: number): number => {
+      let x = desiredX;
+      for (;;) {
+        let blocking: BarExtent | undefined;
+        for (const node of nodes) {
+          blocking = findBlockingExtent(node, x);
+          if (blocking) break;
+        }
+        if (!blocking) return x;
+        x = step > 0 ? blocking.right : blocking.left;
+      }
+    };
+
+    if (direction !== 0) {
+      return search(direction);
+    }
+
+    const right = search(1);
+    const left = search(-1);
+    return right - desiredX <= desiredX - left ? right : left;
+  }
+
+  /**
+   * Extent lists of the tree nodes that together cover rows firstRow..lastRow
+   */
+  private getNodes(firstRow: number, lastRow: number): BarExtent[][] {
+    const nodes: BarExtent[][] = [];
+    let low = Math.max(0, firstRow) + this.leafCount;
+    let high = Math.min(this.extents.length - 1, lastRow) + this.leafCount + 1;
+
+    while (low < high) {
+      if (low & 1) nodes.push(this.tree[low++]);
+      if (high & 1) nodes.push(this.tree[--high]);
+      low >>= 1;
+      high >>= 1;
+    }
+
+    return nodes.filter(node => node.length > 0);
+  }
+}
@@ -0,0 +1,170 @@
+import { TaskData, TaskLink } from "./types";
+import { getLinkRequiredStart } from "./CriticalPath";
+import { rollupTasks } from "./SummaryRollup";
+import { WorkCalendar, addWorkingDays, getWorkingDays, getWorkingDuration, nextWorkingTime } from "./WorkCalendar";
+
+export interface ScheduleOptions {
+  pullSuccessors: boolean; // Also move successors earlier when their predecessors allow it
+  getCalendar?: (task: TaskData) => WorkCalendar; // Lag and durations count working days; starts skip non-working days
+}
+
+export type ScheduleChangeReason = 'moved' | 'pushed' | 'pulled' | 'summary';
+
+export interface ScheduledTaskChange {
+  taskId: string;
+  taskName: string;
+  reason: ScheduleChangeReason;
+  originalStart: Date;
+  originalFinish: Date;
+  startDate: Date;
+  finishDate: Date;
+  duration: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_TOLERANCE = 1 / (24 * 60); // Days; differences under a minute don't move a task
+
+interface WorkingDates {
+  start: number; // Days since epoch
+  finish: number;
+  reason?: ScheduleChangeReason;
+}
+
+const toDays = (date: Date) => date.getTime() / DAY_MS;
+const toDate = (days: number) => new Date(Math.round(days * DAY_MS));
+
+/**
+ * Work out every task affected by moving one task.
+ * Successors reachable through links are pushed later when a link is violated (and pulled
+ * earlier when pullSuccessors is set), keeping their durations; summary tasks above any
+ * moved task are rolled up from their children. With a calendar, durations are kept in
+ * working days and moved tasks start on a working day. The moved task comes first in the result.
+ */
+export const rescheduleTask = (
+  tasks: TaskData[],
+  links: TaskLink[],
+  taskId: string,
+  dates: { startDate: Date; finishDate: Date },
+  options: ScheduleOptions
+): ScheduledTaskChange[] => {
+  const tasksById = new Map(tasks.map(task => [task.taskDataId, task]));
+  const working = new Map<string, WorkingDates>();
+  tasks.forEach(task => working.set(task.taskDataId, { start: toDays(task.startDate), finish: toDays(task.finishDate) }));
+
+  const movedTask = tasksById.get(taskId);
+  if (!movedTask) {
+    return [];
+  }
+  working.set(taskId, { start: toDays(dates.startDate), finish: toDays(dates.finishDate), reason: 'moved' });
+
+  // Links between schedulable tasks; summaries follow their children instead
+  const isScheduled = (id: string) => tasksById.has(id) && !tasksById.get(id)!.isSummaryTask;
+  const scheduleLinks = links.filter(link => isScheduled(link.predecessorId) && isScheduled(link.successorId));
+  const successorLinks = new Map<string, TaskLink[]>();
+  const predecessorLinks = new Map<string, TaskLink[]>();
+  scheduleLinks.forEach(link => {
+    successorLinks.set(link.predecessorId, [...(successorLinks.get(link.predecessorId) ?? []), link]);
+    predecessorLinks.set(link.successorId, [...(predecessorLinks.get(link.successorId) ?? []), link]);
+  });
+
+  // Tasks downstream of the moved task
+  const reachable = new Set<string>([taskId]);
+  const stack = [taskId];
+  while (stack.length > 0) {
+    (successorLinks.get(stack.pop()!) ?? []).forEach(link => {
+      if (!reachable.has(link.successorId)) {
+        reachable.add(link.successorId);
+        stack.push(link.successorId);
+      }
+    });
+  }
+
+  // Visit them in dependency order so each task sees its predecessors' final dates
+  const remainingPredecessors = new Map<string, number>();
+  reachable.forEach(id => {
+    remainingPredecessors.set(id, (predecessorLinks.get(id) ?? []).filter(link => reachable.has(link.predecessorId)).length);
+  });
+  const queue = [taskId];
+  let visited = 0;
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    visited++;
+
+    if (id !== taskId) {
+      const current = working.get(id)!;
+      const calendar = options.getCalendar?.(tasksById.get(id)!);
+      const addDays = calendar
+        ? (day: number, delta: number) => toDays(addWorkingDays(calendar, toDate(day), delta))
+        : (day: number, delta: number) => day + delta;
+      const duration = calendar
+        ? getWorkingDays(calendar, toDate(current.start), toDate(current.finish))
+        : current.finish - current.start;
+      let requiredStart = Math.max(...(predecessorLinks.get(id) ?? []).map(link => {
+        const predecessor = working.get(link.predecessorId)!;
+        return getLinkRequiredStart(link, predecessor.start, predecessor.finish, duration, addDays);
+      }));
+      if (calendar) {
+        requiredStart = toDays(nextWorkingTime(calendar, toDate(requiredStart)));
+      }
+
+      const isLate = current.start < requiredStart - DATE_TOLERANCE;
+      if (isLate || (options.pullSuccessors && current.start > requiredStart + DATE_TOLERANCE)) {
+        working.set(id, {
+          start: requiredStart,
+          finish: addDays(requiredStart, duration),
+          reason: isLate ? 'pushed' : 'pulled'
+        });
+      }
+    }
+
+    (successorLinks.get(id) ?? []).forEach(link => {
+      const count = remainingPredecessors.get(link.successorId)! - 1;
+      remainingPredecessors.set(link.successorId, count);
+      if (count === 0) queue.push(link.successorId);
+    });
+  }
+
+  if (visited < reachable.size) {
+    console.warn(`Dependency loop below ${movedTask.taskName} - ${reachable.size - visited} tasks were not rescheduled`);
+  }
+
+  // Only summaries above a moved task are rolled up again
+  const summariesToUpdate = new Set<string>();
+  working.forEach((dates, id) => {
+    let parentId = dates.reason ? tasksById.get(id)?.parentTask : undefined;
+    while (parentId && !summariesToUpdate.has(parentId)) {
+      summariesToUpdate.add(parentId);
+      parentId = tasksById.get(parentId)?.parentTask;
+    }
+  });
+  const scheduledTasks = rollupTasks(tasks.map(task => {
+    const dates = working.get(task.taskDataId)!;
+    return dates.reason
+      ? { ...task, startDate: toDate(dates.start), finishDate: toDate(dates.finish) }
+      : task;
+  }), { onlyTaskIds: summariesToUpdate, getCalendar: options.getCalendar });
+
+  const changes: ScheduledTaskChange[] = [];
+  scheduledTasks.forEach((scheduled, i) => {
+    const task = tasks[i];
+    if (scheduled.startDate.getTime() === task.startDate.getTime() && scheduled.finishDate.getTime() === task.finishDate.getTime()) {
+      return;
+    }
+
+    changes.push({
+      taskId: task.taskDataId,
+      taskName: task.taskName,
+      reason: working.get(task.taskDataId)!.reason ?? 'summary',
+      originalStart: task.startDate,
+      originalFinish: task.finishDate,
+      startDate: scheduled.startDate,
+      finishDate: scheduled.finishDate,
+      duration: options.getCalendar
+        ? getWorkingDuration(options.getCalendar(task), scheduled.startDate, scheduled.finishDate)
+        : Math.max(1, Math.ceil((scheduled.finishDate.getTime() - scheduled.startDate.getTime()) / DAY_MS))
+    });
+  });
+
+  return changes.sort((a, b) => (a.taskId === taskId ? -1 : b.taskId === taskId ? 1 : 0));
+};
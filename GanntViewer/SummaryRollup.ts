@@ -0,0 +1,113 @@
+import { TaskStore } from "./TaskStore";
+import { TaskData } from "./types";
+import { WorkCalendar, getWorkingDuration } from "./WorkCalendar";
+
+export interface RollupNode {
+  task: TaskData;
+  children: RollupNode[];
+}
+
+export interface RollupOptions {
+  onlyTaskIds?: Set<string>; // Limit the rollup to these summaries; others keep their stored values
+  flagMismatches?: boolean; // Record stored values that disagree with the children in rollupMismatches
+  getCalendar?: (task: TaskData) => WorkCalendar; // Count summary durations in working days
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_TOLERANCE_MS = 60 * 1000;
+const PROGRESS_TOLERANCE = 0.005;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Derive summary tasks from their children, bottom-up: start is the earliest child start,
+ * finish the latest child finish and progress the children's progress weighted by duration.
+ * Node tasks are replaced in place with updated copies; leaves are left alone.
+ */
+export const rollupHierarchy = (roots: RollupNode[], options: RollupOptions = {}): void => {
+  const visiting = new Set<string>();
+
+  const rollup = (node: RollupNode): void => {
+    const { task } = node;
+    if (node.children.length === 0 || visiting.has(task.taskDataId)) return;
+
+    visiting.add(task.taskDataId);
+    node.children.forEach(rollup);
+    visiting.delete(task.taskDataId);
+
+    if (!task.isSummaryTask || (options.onlyTaskIds && !options.onlyTaskIds.has(task.taskDataId))) return;
+
+    const children = node.children.map(child => child.task);
+    const start = Math.min(...children.map(child => child.startDate.getTime()));
+    const finish = Math.max(...children.map(child => child.finishDate.getTime()));
+
+    // Weight by duration; children without duration (milestones) only count when all of them are
+    const weights = children.map(child => Math.max(0, child.finishDate.getTime() - child.startDate.getTime()));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const progress = totalWeight > 0
+      ? children.reduce((sum, child, i) => sum + (child.progress ?? 0) * weights[i], 0) / totalWeight
+      : children.reduce((sum, child) => sum + (child.progress ?? 0), 0) / children.length;
+
+    const mismatches: string[] = [];
+    if (options.flagMismatches) {
+      if (Math.abs(task.startDate.getTime() - start) > DATE_TOLERANCE_MS) {
+        mismatches.push(`Start ${formatDate(task.startDate)} (children start ${formatDate(new Date(start))})`);
+      }
+      if (Math.abs(task.finishDate.getTime() - finish) > DATE_TOLERANCE_MS) {
+        mismatches.push(`Finish ${formatDate(task.finishDate)} (children finish ${formatDate(new Date(finish))})`);
+      }
+      if (Math.abs((task.progress ?? 0) - progress) > PROGRESS_TOLERANCE) {
+        mismatches.push(`Progress ${Math.round((task.progress ?? 0) * 100)}% (children ${Math.round(progress * 100)}%)`);
+      }
+    }
+
+    node.task = {
+      ...task,
+      startDate: new Date(start),
+      finishDate: new Date(finish),
+      duration: options.getCalendar
+        ? Math.max(1, getWorkingDuration(options.getCalendar(task), new Date(start), new Date(finish)))
+        : Math.max(1, Math.ceil((finish - start) / DAY_MS)),
+      progress,
+      rollupMismatches: mismatches.length > 0 ? mismatches : undefined
+    };
+  };
+
+  roots.forEach(rollup);
+};
+
+/**
+ * Roll up a flat task list, using parentTask to find children. Returns the tasks in the same order.
+ */
+export const rollupTasks = (tasks: TaskData[], options: RollupOptions = {}): TaskData[] => {
+  const nodes = new Map<string, RollupNode>();
+  tasks.forEach(task => nodes.set(task.taskDataId, { task, children: [] }));
+
+  const roots: RollupNode[] = [];
+  tasks.forEach(task => {
+    const parentNode = task.parentTask ? nodes.get(task.parentTask) : undefined;
+    if (parentNode && parentNode.task !== task) {
+      parentNode.children.push(nodes.get(task.taskDataId)!);
+    } else {
+      roots.push(nodes.get(task.taskDataId)!);
+    }
+  });
+
+  rollupHierarchy(roots, options);
+
+  return tasks.map(task => nodes.get(task.taskDataId)!.task);
+};
+
+/**
+ * Tasks with children are summary tasks, all others are plain tasks. Returns the tasks in the same order;
+ * tasks whose flag is already right are kept as they are.
+ */
+export const markSummaryTasks = (tasks: TaskData[]): TaskData[] => {
+  const store = new TaskStore();
+  store.setTasks(tasks);
+
+  return tasks.map(task => {
+    const isSummaryTask = store.hasChildren(task.taskDataId);
+    return !!task.isSummaryTask === isSummaryTask ? task : { ...task, isSummaryTask };
+  });
+};
@@ -0,0 +1,261 @@
+import { IInputs } from "./generated/ManifestTypes";
+import { DependencyType, TaskData, TaskLink } from "./types";
+import { TableMetadata, getAttributeMetadata, isLookupAttribute, isTextAttribute } from "./ColumnMapping";
+
+// Columns of a link table - one record per dependency
+export type LinkField = 'linkId' | 'predecessor' | 'successor' | 'type' | 'lag';
+
+export interface LinkTableMapping {
+  tableName: string;
+  columns: Partial<Record<LinkField, string>>;
+}
+
+export interface LinkTableValidationResult {
+  errors: string[]; // The link table can't be used
+  warnings: string[];
+  lookupFields: LinkField[];
+  textFields: LinkField[];
+  entitySetName?: string;
+}
+
+export const dependencyTypeAbbreviations: Record<DependencyType, string> = {
+  FinishToStart: 'FS',
+  StartToStart: 'SS',
+  FinishToFinish: 'FF',
+  StartToFinish: 'SF'
+};
+
+export const getLinkKey = (predecessorId: string, successorId: string): string => `${predecessorId}->${successorId}`;
+
+const linkFields: LinkField[] = ['linkId', 'predecessor', 'successor', 'type', 'lag'];
+const guidPattern = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+// Reference followed by an optional type and lag, e.g. "12", "12SS", "12FS+2d", "12FF-1.5 days"
+const successorTokenPattern = /^(.+?)(?:\s*(FS|SS|FF|SF)(?:\s*([+-])\s*(\d+(?:\.\d+)?)\s*(?:d|days?)?)?)?$/i;
+
+/**
+ * Link table columns when only the table name is configured, e.g. pme_tasklink ->
+ * pme_tasklinkid, pme_predecessortask, pme_successortask, pme_dependencytype, pme_lag
+ */
+const getDefaultLinkColumns = (tableName: string): Record<LinkField, string> => {
+  const prefix = tableName.includes('_') ? tableName.split('_')[0] : 'pme';
+  return {
+    linkId: `${tableName}id`,
+    predecessor: `${prefix}_predecessortask`,
+    successor: `${prefix}_successortask`,
+    type: `${prefix}_dependencytype`,
+    lag: `${prefix}_lag`
+  };
+};
+
+/**
+ * Parse the dependencyTable manifest property.
+ * Accepts a table name or a JSON object such as {"tableName": "new_tasklink", "predecessor": "new_from"}.
+ * Returns no mapping when the property is empty so links are read from the successor column.
+ */
+export const parseLinkTableMapping = (rawValue: string | null | undefined): { mapping: LinkTableMapping | null; warnings: string[] } => {
+  const warnings: string[] = [];
+
+  if (!rawValue?.trim()) {
+    return { mapping: null, warnings };
+  }
+
+  const value = rawValue.trim();
+  if (!value.startsWith('{')) {
+    return { mapping: { tableName: value, columns: getDefaultLinkColumns(value) }, warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    warnings.push(`Dependency table setting is not valid JSON and was ignored: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { mapping: null, warnings };
+  }
+
+  const settings = parsed as Record<string, unknown>;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings) || typeof settings.tableName !== 'string' || !settings.tableName.trim()) {
+    warnings.push('Dependency table setting must be a JSON object with a tableName and was ignored');
+    return { mapping: null, warnings };
+  }
+
+  const mapping: LinkTableMapping = {
+    tableName: settings.tableName.trim(),
+    columns: getDefaultLinkColumns(settings.tableName.trim())
+  };
+
+  Object.entries(settings).forEach(([key, column]) => {
+    if (key === 'tableName') return;
+
+    if (!linkFields.includes(key as LinkField)) {
+      warnings.push(`Unknown link field "${key}" in dependency table setting`);
+    } else if (typeof column !== 'string' || !column.trim()) {
+      warnings.push(`Dependency table column for "${key}" must be a non-empty string`);
+    } else {
+      mapping.columns[key as LinkField] = column.trim();
+    }
+  });
+
+  return { mapping, warnings };
+};
+
+/**
+ * Read the link table configured on the control
+ */
+export const getLinkTableMapping = (context: ComponentFramework.Context<IInputs>): { mapping: LinkTableMapping | null; warnings: string[] } => {
+  return parseLinkTableMapping(context.parameters.dependencyTable?.raw);
+};
+
+/**
+ * Validate the link table against its metadata. The table and its id, predecessor and
+ * successor columns are required; missing type or lag columns are unmapped with a warning.
+ */
+export const validateLinkTableMapping = async (
+  context: ComponentFramework.Context<IInputs>,
+  mapping: LinkTableMapping
+): Promise<LinkTableValidationResult> => {
+  const result: LinkTableValidationResult = { errors: [], warnings: [], lookupFields: [], textFields: [] };
+  const mappedColumns = Object.values(mapping.columns).filter((c): c is string => !!c);
+
+  let metadata: TableMetadata;
+  try {
+    metadata = await context.utils.getEntityMetadata(mapping.tableName, mappedColumns) as TableMetadata;
+  } catch (error) {
+    result.errors.push(`Dependency table "${mapping.tableName}" could not be found: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return result;
+  }
+
+  result.entitySetName = metadata.EntitySetName;
+
+  const attributes = metadata.Attributes;
+  if (!attributes) return result; // Metadata shape unknown - don't block loading
+
+  linkFields.forEach(field => {
+    const column = mapping.columns[field];
+    const attribute = column ? getAttributeMetadata(attributes, column) : undefined;
+
+    if (!attribute) {
+      const message = `Column "${column}" for link ${field} does not exist on ${mapping.tableName}`;
+      if (field === 'type' || field === 'lag') {
+        result.warnings.push(message);
+        delete mapping.columns[field];
+      } else {
+        result.errors.push(message);
+      }
+    } else if (isLookupAttribute(attribute)) {
+      result.lookupFields.push(field);
+    } else if (isTextAttribute(attribute)) {
+      result.textFields.push(field);
+    }
+  });
+
+  return result;
+};
+
+const splitDelimited = (value: string | undefined): string[] =>
+  (value ?? '').split(/[;,]/).map(part => part.trim()).filter(part => part.length > 0);
+
+const normalizeReference = (value: string): string =>
+  guidPattern.test(value) ? value.replace(/[{}]/g, '').toLowerCase() : value;
+
+/**
+ * Parse a delimited successor field such as "12;15SS+2d;18FF-1".
+ * Entries without a type use defaultType; lag is only read after an explicit type.
+ */
+export const parseSuccessorField = (
+  value: string | undefined,
+  defaultType: DependencyType
+): { reference: string; type: DependencyType; lag: number }[] => {
+  return splitDelimited(value).map(token => {
+    // GUIDs may end in characters that look like a type or lag
+    if (guidPattern.test(token)) {
+      return { reference: normalizeReference(token), type: defaultType, lag: 0 };
+    }
+
+    const match = successorTokenPattern.exec(token);
+    if (!match) {
+      return { reference: token, type: defaultType, lag: 0 };
+    }
+
+    const [, reference, abbreviation, sign, amount] = match;
+    const type = abbreviation
+      ? (Object.keys(dependencyTypeAbbreviations) as DependencyType[])
+        .find(t => dependencyTypeAbbreviations[t] === abbreviation.toUpperCase()) ?? defaultType
+      : defaultType;
+    const lag = amount ? parseFloat(amount) * (sign === '-' ? -1 : 1) : 0;
+
+    return { reference: reference.trim(), type, lag };
+  });
+};
+
+/**
+ * Build links from the successor fields of the tasks.
+ * References are resolved through successorUID when it lines up with successor,
+ * otherwise by task id or task number. Links to tasks that aren't loaded are dropped.
+ */
+export const buildLinksFromTasks = (tasks: TaskData[]): TaskLink[] => {
+  const idByReference = new Map<string, string>();
+  tasks.forEach(task => idByReference.set(task.taskDataId, task.taskDataId));
+  tasks.forEach(task => {
+    if (task.taskNumber && !idByReference.has(task.taskNumber)) {
+      idByReference.set(task.taskNumber, task.taskDataId);
+    }
+  });
+
+  const links: TaskLink[] = [];
+  const seen = new Set<string>();
+
+  tasks.forEach(task => {
+    if (!task.successor && !task.successorUID) return;
+
+    const defaultType = task.dependencyType ?? 'FinishToStart';
+    const uids = splitDelimited(task.successorUID).map(normalizeReference);
+    const entries = task.successor
+      ? parseSuccessorField(task.successor, defaultType)
+      : uids.map(uid => ({ reference: uid, type: defaultType, lag: 0 }));
+
+    entries.forEach((entry, index) => {
+      const uid = uids.length === entries.length ? uids[index] : undefined;
+      const successorId = (uid ? idByReference.get(uid) : undefined) ?? idByReference.get(entry.reference);
+
+      if (!successorId || successorId === task.taskDataId) return;
+
+      const key = getLinkKey(task.taskDataId, successorId);
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      links.push({ predecessorId: task.taskDataId, successorId, type: entry.type, lag: entry.lag });
+    });
+  });
+
+  return links;
+};
+
+/**
+ * Write a predecessor's outgoing links back into its successor fields.
+ * dependencyType takes the first link's type, so entries of that type without lag stay plain references.
+ */
+export const toSuccessorFields = (
+  links: TaskLink[],
+  getTask: (taskId: string) => TaskData | undefined
+): Pick<TaskData, 'successor' | 'successorUID' | 'dependencyType'> => {
+  if (links.length === 0) {
+    return { successor: undefined, successorUID: undefined, dependencyType: undefined };
+  }
+
+  const dependencyType = links[0].type;
+  const successor = links.map(link => {
+    const taskNumber = getTask(link.successorId)?.taskNumber;
+    const reference = taskNumber !== undefined && taskNumber !== '' ? taskNumber : link.successorId;
+    if (link.type === dependencyType && link.lag === 0) {
+      return reference;
+    }
+    const lag = link.lag !== 0 ? `${link.lag > 0 ? '+' : '-'}${Math.abs(link.lag)}d` : '';
+    return `${reference}${dependencyTypeAbbreviations[link.type]}${lag}`;
+  }).join(';');
+
+  return {
+    successor,
+    successorUID: links.map(link => link.successorId).join(';'),
+    dependencyType
+  };
+};
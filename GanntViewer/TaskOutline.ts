@@ -0,0 +1,158 @@
+import { TaskData } from "./types";
+import { TaskStore } from "./TaskStore";
+import { RollupOptions, rollupTasks } from "./SummaryRollup";
+
+// Where a dragged row goes relative to the row it is dropped on
+export type OutlineDropPosition = 'before' | 'after' | 'child';
+
+export interface OutlineChange {
+  taskId: string;
+  changes: Partial<TaskData>;
+}
+
+export interface OutlineMoveOptions {
+  includeWbs: boolean; // Also return new outline numbers, for tables with a WBS column
+  getCalendar?: RollupOptions['getCalendar'];
+}
+
+/**
+ * Outline numbers such as 1, 1.2 and 1.2.3 from each task's position among its siblings
+ */
+export const getOutlineNumbers = (store: TaskStore): Map<string, string> => {
+  const numbers = new Map<string, string>();
+
+  const visit = (task: TaskData, outlineNumber: string) => {
+    if (numbers.has(task.taskDataId)) return; // Parent loop
+    numbers.set(task.taskDataId, outlineNumber);
+    store.getChildren(task.taskDataId).forEach((child, i) => visit(child, `${outlineNumber}.${i + 1}`));
+  };
+
+  store.getRootTasks().forEach((task, i) => visit(task, `${i + 1}`));
+  return numbers;
+};
+
+/**
+ * A task can't be dropped on itself or below itself, and milestones don't take children
+ */
+export const canMoveTask = (store: TaskStore, taskId: string, targetId: string, position: OutlineDropPosition): boolean => {
+  const target = store.getTask(targetId);
+  if (!target || !store.hasTask(taskId) || taskId === targetId) return false;
+  if (position === 'child' && target.isMilestone) return false;
+  return !store.getDescendantIds(taskId).includes(targetId);
+};
+
+/**
+ * Indent makes a task the last child of the sibling above it
+ */
+export const getIndentTarget = (store: TaskStore, taskId: string): { targetId: string; position: OutlineDropPosition } | null => {
+  const task = store.getTask(taskId);
+  if (!task) return null;
+
+  const siblings = task.parentTask && store.hasTask(task.parentTask) ? store.getChildren(task.parentTask) : store.getRootTasks();
+  const index = siblings.findIndex(sibling => sibling.taskDataId === taskId);
+  const previous = index > 0 ? siblings[index - 1] : undefined;
+  return previous && !previous.isMilestone ? { targetId: previous.taskDataId, position: 'child' } : null;
+};
+
+/**
+ * Outdent makes a task the sibling right after its parent
+ */
+export const getOutdentTarget = (store: TaskStore, taskId: string): { targetId: string; position: OutlineDropPosition } | null => {
+  const task = store.getTask(taskId);
+  return task?.parentTask && store.hasTask(task.parentTask) ? { targetId: task.parentTask, position: 'after' } : null;
+};
+
+/**
+ * Work out the changes for moving a task, with everything below it, before or after another task
+ * or to the end of its children. taskIndex is renumbered from 1 in outline order, parents are
+ * flagged as summaries (or no longer) and rolled up from their new children. Only tasks with a
+ * changed value are returned.
+ */
+export const moveTaskInOutline = (
+  store: TaskStore,
+  taskId: string,
+  targetId: string,
+  position: OutlineDropPosition,
+  options: OutlineMoveOptions
+): OutlineChange[] => {
+  if (!canMoveTask(store, taskId, targetId, position)) {
+    return [];
+  }
+
+  const movedTask = store.getTask(taskId)!;
+  const target = store.getTask(targetId)!;
+  const oldParentId = movedTask.parentTask;
+  const newParentId = position === 'child' ? targetId : target.parentTask;
+
+  // The new outline, depth first; the moved task leaves its old sibling list and joins the new one
+  const placeInSiblings = (siblings: TaskData[], parentId: string | undefined): TaskData[] => {
+    const result = siblings.filter(task => task.taskDataId !== taskId);
+    if (position === 'child' && parentId === targetId) {
+      result.push(movedTask);
+    } else if (position !== 'child') {
+      const targetIndex = result.findIndex(task => task.taskDataId === targetId);
+      if (targetIndex >= 0) {
+        result.splice(position === 'after' ? targetIndex + 1 : targetIndex, 0, movedTask);
+      }
+    }
+    return result;
+  };
+
+  const ordered: { task: TaskData; parentId: string | undefined; outlineNumber: string }[] = [];
+  const visited = new Set<string>();
+  const visit = (task: TaskData, parentId: string | undefined, outlineNumber: string) => {
+    if (visited.has(task.taskDataId)) return;
+    visited.add(task.taskDataId);
+    ordered.push({ task, parentId, outlineNumber });
+    placeInSiblings(store.getChildren(task.taskDataId), task.taskDataId)
+      .forEach((child, i) => visit(child, task.taskDataId, `${outlineNumber}.${i + 1}`));
+  };
+  placeInSiblings(store.getRootTasks(), undefined).forEach((task, i) => visit(task, task.parentTask, `${i + 1}`));
+
+  const childCounts = new Map<string, number>();
+  ordered.forEach(({ task, parentId }) => {
+    const id = task.taskDataId === taskId ? newParentId : parentId;
+    if (id) childCounts.set(id, (childCounts.get(id) ?? 0) + 1);
+  });
+
+  // Summaries above the old and new position take their dates from their new children
+  const rollupIds = new Set<string>();
+  [oldParentId, newParentId].forEach(parentId => {
+    if (parentId && store.hasTask(parentId)) {
+      rollupIds.add(parentId);
+      store.getAncestorIds(parentId).forEach(id => rollupIds.add(id));
+    }
+  });
+
+  const movedTasks = ordered.map(({ task, outlineNumber }, i) => ({
+    ...task,
+    parentTask: task.taskDataId === taskId ? newParentId : task.parentTask,
+    taskIndex: i + 1,
+    isSummaryTask: rollupIds.has(task.taskDataId) ? (childCounts.get(task.taskDataId) ?? 0) > 0 : task.isSummaryTask,
+    wbs: options.includeWbs ? outlineNumber : task.wbs
+  }));
+  const rolledUp = rollupTasks(movedTasks, { onlyTaskIds: rollupIds, getCalendar: options.getCalendar });
+
+  const changes: OutlineChange[] = [];
+  rolledUp.forEach((task, i) => {
+    const original = ordered[i].task;
+    const taskChanges: Partial<TaskData> = {};
+
+    if (task.parentTask !== original.parentTask) taskChanges.parentTask = task.parentTask;
+    if (task.taskIndex !== original.taskIndex) taskChanges.taskIndex = task.taskIndex;
+    if (task.wbs !== original.wbs) taskChanges.wbs = task.wbs;
+    if (!!task.isSummaryTask !== !!original.isSummaryTask) taskChanges.isSummaryTask = task.isSummaryTask;
+    if (task.startDate.getTime() !== original.startDate.getTime() || task.finishDate.getTime() !== original.finishDate.getTime()) {
+      taskChanges.startDate = task.startDate;
+      taskChanges.finishDate = task.finishDate;
+      taskChanges.duration = task.duration;
+    }
+    if (task.progress !== original.progress) taskChanges.progress = task.progress;
+
+    if (Object.keys(taskChanges).length > 0) {
+      changes.push({ taskId: task.taskDataId, changes: taskChanges });
+    }
+  });
+
+  return changes;
+};
@@ -0,0 +1,236 @@
+import { TaskData, TaskLink } from "./types";
+
+/**
+ * Tasks and links indexed by id, by parent and by dependency, so the charts can look up
+ * children, descendants and links without scanning the whole task list.
+ * setTasks reconciles against a new task array and only re-indexes tasks whose object
+ * changed, which keeps pending-change overlays (that reuse unchanged task objects) cheap.
+ */
+export class TaskStore {
+  private tasks: TaskData[] = []; // Deduplicated, in list order
+  private sourceTasks: TaskData[] | null = null; // Array last passed to setTasks
+  private tasksById = new Map<string, TaskData>();
+  private positions = new Map<string, number>(); // Index in tasks, keeps children in list order
+  private childIdsByParent = new Map<string, string[]>(); // Keyed by parentTask, even when that parent isn't loaded
+  private unsortedParents = new Set<string>();
+  private rootTasks: TaskData[] | null = null;
+  private sourceLinks: TaskLink[] | null = null;
+  private links: TaskLink[] = [];
+  private successorLinks = new Map<string, TaskLink[]>();
+  private predecessorLinks = new Map<string, TaskLink[]>();
+  private revision = 0;
+
+  /**
+   * Incremented whenever tasks or links change - usable as a cache key
+   */
+  public get version(): number {
+    return this.revision;
+  }
+
+  public get size(): number {
+    return this.tasks.length;
+  }
+
+  /**
+   * Replace the task list. Tasks with an unchanged object keep their index entries;
+   * changed, added and removed tasks are updated individually. The first task wins on duplicate ids.
+   */
+  public setTasks(tasks: TaskData[]): void {
+    if (tasks === this.sourceTasks) return;
+    this.sourceTasks = tasks;
+
+    const nextTasks: TaskData[] = [];
+    const nextIds = new Set<string>();
+    let changed = false;
+
+    tasks.forEach(task => {
+      if (nextIds.has(task.taskDataId)) return;
+      nextIds.add(task.taskDataId);
+      nextTasks.push(task);
+
+      const existing = this.tasksById.get(task.taskDataId);
+      if (existing === task) return;
+
+      if (existing) {
+        this.removeFromParent(existing);
+      }
+      this.tasksById.set(task.taskDataId, task);
+      this.addToParent(task);
+      changed = true;
+    });
+
+    this.tasksById.forEach((task, id) => {
+      if (!nextIds.has(id)) {
+        this.tasksById.delete(id);
+        this.removeFromParent(task);
+        changed = true;
+      }
+    });
+
+    // Children follow list order, so a reordered list re-sorts them on next read
+    const reordered = nextTasks.length !== this.tasks.length
+      || nextTasks.some((task, i) => task.taskDataId !== this.tasks[i].taskDataId);
+    if (reordered) {
+      this.positions.clear();
+      nextTasks.forEach((task, i) => this.positions.set(task.taskDataId, i));
+      this.childIdsByParent.forEach((_, parentId) => this.unsortedParents.add(parentId));
+    }
+
+    this.tasks = nextTasks;
+    if (changed || reordered) {
+      this.rootTasks = null;
+      this.revision++;
+    }
+  }
+
+  /**
+   * Replace the links and rebuild the predecessor/successor indexes
+   */
+  public setLinks(links: TaskLink[]): void {
+    if (links === this.sourceLinks) return;
+    this.sourceLinks = links;
+    this.links = links;
+    this.successorLinks.clear();
+    this.predecessorLinks.clear();
+
+    const addLink = (index: Map<string, TaskLink[]>, taskId: string, link: TaskLink) => {
+      const taskLinks = index.get(taskId);
+      if (taskLinks) {
+        taskLinks.push(link);
+      } else {
+        index.set(taskId, [link]);
+      }
+    };
+
+    links.forEach(link => {
+      addLink(this.successorLinks, link.predecessorId, link);
+      addLink(this.predecessorLinks, link.successorId, link);
+    });
+
+    this.revision++;
+  }
+
+  public getTasks(): TaskData[] {
+    return this.tasks;
+  }
+
+  public getTask(taskId: string): TaskData | undefined {
+    return this.tasksById.get(taskId);
+  }
+
+  public hasTask(taskId: string): boolean {
+    return this.tasksById.has(taskId);
+  }
+
+  /**
+   * Top-level tasks: no parent, or a parent that isn't loaded
+   */
+  public getRootTasks(): TaskData[] {
+    this.rootTasks ??= this.tasks.filter(task => !task.parentTask || !this.tasksById.has(task.parentTask));
+    return this.rootTasks;
+  }
+
+  /**
+   * Direct children in list order. Works for parents that aren't loaded too.
+   */
+  public getChildren(parentId: string): TaskData[] {
+    return this.getChildIds(parentId).map(id => this.tasksById.get(id)!);
+  }
+
+  public hasChildren(taskId: string): boolean {
+    return (this.childIdsByParent.get(taskId)?.length ?? 0) > 0;
+  }
+
+  /**
+   * All tasks below the given one, depth first. Parent loops are only followed once.
+   */
+  public getDescendantIds(taskId: string): string[] {
+    const result: string[] = [];
+    const seen = new Set<string>([taskId]);
+    const stack = [...this.getChildIds(taskId)].reverse();
+
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      result.push(id);
+      stack.push(...[...this.getChildIds(id)].reverse());
+    }
+
+    return result;
+  }
+
+  /**
+   * Parent, grandparent and so on up to the root
+   */
+  public getAncestorIds(taskId: string): string[] {
+    const result: string[] = [];
+    let parentId = this.tasksById.get(taskId)?.parentTask;
+
+    while (parentId && this.tasksById.has(parentId) && parentId !== taskId && !result.includes(parentId)) {
+      result.push(parentId);
+      parentId = this.tasksById.get(parentId)?.parentTask;
+    }
+
+    return result;
+  }
+
+  public getLinks(): TaskLink[] {
+    return this.links;
+  }
+
+  /**
+   * Links where the task is the predecessor
+   */
+  public getSuccessorLinks(taskId: string): TaskLink[] {
+    return this.successorLinks.get(taskId) ?? [];
+  }
+
+  /**
+   * Links where the task is the successor
+   */
+  public getPredecessorLinks(taskId: string): TaskLink[] {
+    return this.predecessorLinks.get(taskId) ?? [];
+  }
+
+  public getLink(predecessorId: string, successorId: string): TaskLink | undefined {
+    return this.getSuccessorLinks(predecessorId).find(link => link.successorId === successorId);
+  }
+
+  private getChildIds(parentId: string): string[] {
+    const childIds = this.childIdsByParent.get(parentId);
+    if (!childIds) return [];
+
+    if (this.unsortedParents.has(parentId)) {
+      childIds.sort((a, b) => (this.positions.get(a) ?? 0) - (this.positions.get(b) ?? 0));
+      this.unsortedParents.delete(parentId);
+    }
+    return childIds;
+  }
+
+  private addToParent(task: TaskData): void {
+    if (!task.parentTask || task.parentTask === task.taskDataId) return;
+
+    const childIds = this.childIdsByParent.get(task.parentTask);
+    if (childIds) {
+      childIds.push(task.taskDataId);
+    } else {
+      this.childIdsByParent.set(task.parentTask, [task.taskDataId]);
+    }
+    this.unsortedParents.add(task.parentTask);
+  }
+
+  private removeFromParent(task: TaskData): void {
+    if (!task.parentTask) return;
+
+    const childIds = this.childIdsByParent.get(task.parentTask);
+    const index = childIds ? childIds.indexOf(task.taskDataId) : -1;
+    if (index < 0) return;
+
+    childIds!.splice(index, 1);
+    if (childIds!.length === 0) {
+      this.childIdsByParent.delete(task.parentTask);
+      this.unsortedParents.delete(task.parentTask);
+    }
+  }
+}
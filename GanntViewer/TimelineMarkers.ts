@@ -0,0 +1,167 @@
+import { IInputs } from "./generated/ManifestTypes";
+
+export interface TimelineMarker {
+  id: string;
+  label: string;
+  date: Date;
+  endDate?: Date; // Markers with an end date are drawn as a shaded window, e.g. a change freeze
+  color: string;
+  tooltip?: string;
+  lineStyle?: 'solid' | 'dashed';
+}
+
+// Table with one record per marker, loaded through the Web API
+export interface MarkerTableMapping {
+  tableName: string;
+  label: string;
+  date: string;
+  endDate?: string;
+  color?: string;
+  tooltip?: string;
+}
+
+export interface MarkerSettings {
+  showToday: boolean;
+  statusDate?: Date;
+  markers: TimelineMarker[];
+  markerTable?: MarkerTableMapping;
+}
+
+export const TODAY_MARKER_COLOR = '#e74c3c';
+export const STATUS_DATE_COLOR = '#6f42c1';
+export const DEFAULT_MARKER_COLOR = '#17a2b8';
+
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
+const colorPattern = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+
+/**
+ * Date of a marker. yyyy-mm-dd is read as a local date, so the line doesn't move a day in negative UTC offsets.
+ */
+export const parseMarkerDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const dateOnly = datePattern.exec(value.trim());
+  const parsed = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * CSS color for a marker; anything that isn't a hex color or color name falls back to the default
+ */
+export const parseMarkerColor = (value: unknown): string =>
+  typeof value === 'string' && colorPattern.test(value.trim()) ? value.trim() : DEFAULT_MARKER_COLOR;
+
+/**
+ * Build a marker from a configured or loaded record. Returns null when it has no valid date.
+ */
+export const createMarker = (
+  id: string,
+  values: { label?: unknown; date?: unknown; endDate?: unknown; color?: unknown; tooltip?: unknown; lineStyle?: unknown }
+): TimelineMarker | null => {
+  const date = parseMarkerDate(values.date);
+  if (!date) return null;
+
+  const endDate = parseMarkerDate(values.endDate);
+  return {
+    id,
+    label: typeof values.label === 'string' ? values.label : '',
+    date,
+    endDate: endDate && endDate > date ? endDate : undefined,
+    color: parseMarkerColor(values.color),
+    tooltip: typeof values.tooltip === 'string' && values.tooltip ? values.tooltip : undefined,
+    lineStyle: values.lineStyle === 'dashed' ? 'dashed' : 'solid'
+  };
+};
+
+/**
+ * Parse the timelineMarkers manifest property, e.g.
+ * {"showToday": true, "statusDate": "2025-06-30",
+ *  "markers": [{"label": "Submission deadline", "date": "2025-09-01", "color": "#c0392b", "tooltip": "Regulatory filing due", "lineStyle": "dashed"},
+ *              {"label": "Code freeze", "date": "2025-12-15", "endDate": "2026-01-05"}],
+ *  "markerTable": {"tableName": "pme_timelinemarker", "label": "pme_name", "date": "pme_date", "endDate": "pme_enddate", "color": "pme_color", "tooltip": "pme_description"}}
+ */
+export const parseMarkerSettings = (rawValue: string | null | undefined): { settings: MarkerSettings; warnings: string[] } => {
+  const warnings: string[] = [];
+  const settings: MarkerSettings = { showToday: true, markers: [] };
+
+  if (!rawValue?.trim()) {
+    return { settings, warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawValue);
+  } catch (error) {
+    warnings.push(`Timeline markers are not valid JSON and were ignored: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { settings, warnings };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    warnings.push('Timeline markers must be a JSON object and were ignored');
+    return { settings, warnings };
+  }
+
+  const { showToday, statusDate, markers, markerTable } = parsed as Record<string, unknown>;
+
+  if (showToday === false) {
+    settings.showToday = false;
+  }
+
+  // A null status date just means no status line
+  if (statusDate !== undefined && statusDate !== null) {
+    const date = parseMarkerDate(statusDate);
+    if (date) {
+      settings.statusDate = date;
+    } else {
+      warnings.push(`Status date ${JSON.stringify(statusDate)} is not a date and was ignored`);
+    }
+  }
+
+  if (markers !== undefined) {
+    if (!Array.isArray(markers)) {
+      warnings.push('Timeline markers must be a list of objects with label, date, color and tooltip');
+    } else {
+      markers.forEach((values: Record<string, unknown>, i) => {
+        const marker = values && typeof values === 'object' ? createMarker(`config-${i}`, values) : null;
+        if (marker) {
+          settings.markers.push(marker);
+        } else {
+          warnings.push(`Timeline marker ${JSON.stringify(values)} has no valid date and was ignored`);
+        }
+      });
+    }
+  }
+
+  if (markerTable !== undefined) {
+    const table = markerTable as Record<string, unknown>;
+    if (!table || typeof table.tableName !== 'string' || typeof table.date !== 'string') {
+      warnings.push('Timeline markerTable needs a tableName and a date column and was ignored');
+    } else {
+      const column = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+      settings.markerTable = {
+        tableName: table.tableName.trim(),
+        label: column(table.label) ?? `${table.tableName.trim().split('_')[0]}_name`,
+        date: table.date.trim(),
+        endDate: column(table.endDate),
+        color: column(table.color),
+        tooltip: column(table.tooltip)
+      };
+    }
+  }
+
+  return { settings, warnings };
+};
+
+/**
+ * Read the timeline markers configured on the control
+ */
+export const getMarkerSettings = (context: ComponentFramework.Context<IInputs>): { settings: MarkerSettings; warnings: string[] } => {
+  return parseMarkerSettings(context.parameters.timelineMarkers?.raw);
+};
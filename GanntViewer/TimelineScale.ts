@@ -0,0 +1,141 @@
+export type ZoomLevel = 'Hour' | 'Day' | 'Week' | 'Month' | 'Quarter' | 'Year';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MIN_PIXELS_PER_DAY = 0.2;
+export const MAX_PIXELS_PER_DAY = 2400; // 100px per hour
+const MAX_TIMELINE_WIDTH = 15000000; // Browsers stop laying out wider elements (Firefox at about 17.9M px)
+
+// Zoom levels from finest to coarsest. pixelsPerDay is the scale the zoom buttons select;
+// minPixelsPerDay is the narrowest scale at which the level's header cells are still readable.
+export const zoomScales: { level: ZoomLevel; pixelsPerDay: number; minPixelsPerDay: number }[] = [
+  { level: 'Hour', pixelsPerDay: 40 * 24, minPixelsPerDay: 24 * 24 },
+  { level: 'Day', pixelsPerDay: 30, minPixelsPerDay: 24 },
+  { level: 'Week', pixelsPerDay: 100 / 7, minPixelsPerDay: 70 / 7 },
+  { level: 'Month', pixelsPerDay: 120 / 30, minPixelsPerDay: 60 / 30 },
+  { level: 'Quarter', pixelsPerDay: 150 / 90, minPixelsPerDay: 60 / 90 },
+  { level: 'Year', pixelsPerDay: 240 / 365.25, minPixelsPerDay: 0 }
+];
+
+export const getZoomPixelsPerDay = (level: ZoomLevel): number =>
+  zoomScales.find(scale => scale.level === level)!.pixelsPerDay;
+
+/**
+ * Header granularity for a scale: the finest level whose cells are wide enough to label
+ */
+export const getZoomLevelForScale = (pixelsPerDay: number): ZoomLevel =>
+  zoomScales.find(scale => pixelsPerDay >= scale.minPixelsPerDay)!.level;
+
+/**
+ * Limit a scale to the supported range, and so that the timeline doesn't get wider than MAX_TIMELINE_WIDTH
+ */
+export const clampPixelsPerDay = (pixelsPerDay: number, start: Date, end: Date): number => {
+  const totalDays = Math.max(1, (end.getTime() - start.getTime()) / DAY_MS);
+  return Math.max(MIN_PIXELS_PER_DAY, Math.min(MAX_PIXELS_PER_DAY, MAX_TIMELINE_WIDTH / totalDays, pixelsPerDay));
+};
+
+/**
+ * Whether the scale is at (or past) the widest timeline allowed for the range, so zooming in
+ * further is limited by the schedule length rather than by the finest zoom
+ */
+export const isScaleLimitedByWidth = (pixelsPerDay: number, start: Date, end: Date): boolean => {
+  const totalDays = Math.max(1, (end.getTime() - start.getTime()) / DAY_MS);
+  return Math.min(pixelsPerDay, MAX_PIXELS_PER_DAY) >= MAX_TIMELINE_WIDTH / totalDays * 0.999;
+};
+
+export const getTimelineWidth = (pixelsPerDay: number, start: Date, end: Date): number =>
+  Math.round((end.getTime() - start.getTime()) / DAY_MS * pixelsPerDay);
+
+/**
+ * Start of the hour, day, week (Sunday), month, quarter or year containing the date
+ */
+export const startOfZoomUnit = (date: Date, level: ZoomLevel): Date => {
+  switch (level) {
+    case 'Hour': {
+      const result = new Date(date);
+      result.setMinutes(0, 0, 0);
+      return result;
+    }
+    case 'Day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'Week':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+    case 'Month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'Quarter':
+      return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+    case 'Year':
+      return new Date(date.getFullYear(), 0, 1);
+  }
+};
+
+export const addZoomUnits = (date: Date, level: ZoomLevel, units: number): Date => {
+  const result = new Date(date);
+  switch (level) {
+    case 'Hour': result.setHours(result.getHours() + units); break;
+    case 'Day': result.setDate(result.getDate() + units); break;
+    case 'Week': result.setDate(result.getDate() + units * 7); break;
+    case 'Month': result.setMonth(result.getMonth() + units); break;
+    case 'Quarter': result.setMonth(result.getMonth() + units * 3); break;
+    case 'Year': result.setFullYear(result.getFullYear() + units); break;
+  }
+  return result;
+};
+
+// Dragged bars snap to hours, days or weeks at those zoom levels, and to months when zoomed out further
+type SnapUnit = 'Hour' | 'Day' | 'Week' | 'Month';
+const snapHalfUnitMs: Record<SnapUnit, number> = { Hour: DAY_MS / 48, Day: DAY_MS / 2, Week: 3.5 * DAY_MS, Month: 15 * DAY_MS };
+
+const getSnapUnit = (level: ZoomLevel): SnapUnit =>
+  level === 'Hour' || level === 'Day' || level === 'Week' ? level : 'Month';
+
+/**
+ * Round a date to the nearest snap unit of the zoom level
+ */
+export const snapToZoomUnit = (date: Date, level: ZoomLevel): Date => {
+  const unit = getSnapUnit(level);
+  return startOfZoomUnit(new Date(date.getTime() + snapHalfUnitMs[unit]), unit);
+};
+
+export const addSnapUnits = (date: Date, level: ZoomLevel, units: number): Date =>
+  addZoomUnits(date, getSnapUnit(level), units);
+
+// Header rows, from top to bottom, when the maker hasn't configured any
+const defaultHeaderTiers: Record<ZoomLevel, ZoomLevel[]> = {
+  Hour: ['Day', 'Hour'],
+  Day: ['Month', 'Week', 'Day'],
+  Week: ['Month', 'Week'],
+  Month: ['Year', 'Quarter', 'Month'],
+  Quarter: ['Year', 'Quarter'],
+  Year: ['Year']
+};
+
+/**
+ * Parse the timelineHeaderTiers manifest property, a comma separated list such as "Year, Quarter, Month".
+ * Unknown names are skipped; returns undefined when nothing usable is configured.
+ */
+export const parseHeaderTiers = (rawValue: string | null | undefined): ZoomLevel[] | undefined => {
+  if (!rawValue?.trim()) return undefined;
+
+  const tiers = rawValue.split(',').map(name => name.trim().toLowerCase()).filter(name => name).map(name => {
+    const scale = zoomScales.find(s => s.level.toLowerCase() === name);
+    if (!scale) console.warn(`Unknown timeline header tier "${name}" was ignored`);
+    return scale?.level;
+  }).filter((level): level is ZoomLevel => !!level);
+
+  return tiers.length > 0 ? tiers : undefined;
+};
+
+/**
+ * Header tiers for a zoom level, coarsest first. Configured tiers finer than the zoom level are
+ * left out because their cells would be too narrow to read.
+ */
+export const getHeaderTiers = (zoomLevel: ZoomLevel, configuredTiers?: ZoomLevel[]): ZoomLevel[] => {
+  if (!configuredTiers) return defaultHeaderTiers[zoomLevel];
+
+  const rank = (level: ZoomLevel) => zoomScales.findIndex(scale => scale.level === level);
+  const tiers = Array.from(new Set(configuredTiers))
+    .filter(level => rank(level) >= rank(zoomLevel))
+    .sort((a, b) => rank(b) - rank(a));
+  return tiers.length > 0 ? tiers : [zoomLevel];
+};
@@ -0,0 +1,299 @@
+import { IInputs } from "./generated/ManifestTypes";
+import { TaskData } from "./types";
+
+export interface WorkCalendar {
+  workingDays: number[]; // Days of the week that are worked, 0 = Sunday
+  holidays: Set<string>; // Local dates as yyyy-mm-dd
+}
+
+// Table with one record per holiday, loaded through the Web API
+export interface HolidayTableMapping {
+  tableName: string;
+  date: string;
+  project?: string; // Project lookup column; holidays without a project apply to every project
+}
+
+export interface CalendarSettings {
+  defaultCalendar: WorkCalendar;
+  projectCalendars: Map<string, WorkCalendar>; // Keyed by projectId or projectUID
+  holidayTable?: HolidayTableMapping;
+}
+
+const weekdayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CALENDAR_DAYS = 366 * 20; // Stop walking a range after this many days
+
+// Without a configured calendar every day is worked, so durations stay in calendar days
+export const createDefaultCalendarSettings = (): CalendarSettings => ({
+  defaultCalendar: { workingDays: [0, 1, 2, 3, 4, 5, 6], holidays: new Set() },
+  projectCalendars: new Map()
+});
+
+/**
+ * Local yyyy-mm-dd of a date, the format holidays are stored in
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseWorkingDays = (value: unknown, warnings: string[]): number[] | undefined => {
+  if (!Array.isArray(value)) {
+    warnings.push('Calendar workingDays must be a list such as ["Mon", "Tue", "Wed", "Thu", "Fri"]');
+    return undefined;
+  }
+
+  const days = value
+    .map(day => typeof day === 'number' ? day : weekdayNames.indexOf(String(day).trim().slice(0, 3).toLowerCase()))
+    .filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+  if (days.length !== value.length) {
+    warnings.push(`Calendar workingDays contains unknown days: ${JSON.stringify(value)}`);
+  }
+  return days.length > 0 ? Array.from(new Set(days)) : undefined;
+};
+
+const parseHolidays = (value: unknown, warnings: string[]): string[] => {
+  if (!Array.isArray(value)) {
+    warnings.push('Calendar holidays must be a list of yyyy-mm-dd dates');
+    return [];
+  }
+
+  return value.filter(date => {
+    const valid = typeof date === 'string' && datePattern.test(date.trim());
+    if (!valid) warnings.push(`Calendar holiday "${date}" is not a yyyy-mm-dd date and was ignored`);
+    return valid;
+  }).map(date => (date as string).trim());
+};
+
+/**
+ * Parse the workingCalendar manifest property, e.g.
+ * {"workingDays": ["Mon","Tue","Wed","Thu","Fri"], "holidays": ["2025-12-25"],
+ *  "projects": {"PRJ-001": {"workingDays": ["Mon","Tue","Wed","Thu"]}},
+ *  "holidayTable": {"tableName": "pme_holiday", "date": "pme_date", "project": "pme_projectid"}}
+ * Project calendars start from the default: their working days replace it, their holidays add to it.
+ */
+export const parseCalendarSettings = (rawValue: string | null | undefined): { settings: CalendarSettings; warnings: string[] } => {
+  const warnings: string[] = [];
+  const settings = createDefaultCalendarSettings();
+
+  if (!rawValue?.trim()) {
+    return { settings, warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawValue);
+  } catch (error) {
+    warnings.push(`Working calendar is not valid JSON and was ignored: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { settings, warnings };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    warnings.push('Working calendar must be a JSON object and was ignored');
+    return { settings, warnings };
+  }
+
+  const { workingDays, holidays, projects, holidayTable } = parsed as Record<string, unknown>;
+  const { defaultCalendar } = settings;
+
+  if (workingDays !== undefined) {
+    defaultCalendar.workingDays = parseWorkingDays(workingDays, warnings) ?? defaultCalendar.workingDays;
+  }
+  if (holidays !== undefined) {
+    parseHolidays(holidays, warnings).forEach(date => defaultCalendar.holidays.add(date));
+  }
+
+  if (projects !== undefined) {
+    if (!projects || typeof projects !== 'object' || Array.isArray(projects)) {
+      warnings.push('Calendar projects must be an object keyed by project id');
+    } else {
+      Object.entries(projects as Record<string, Record<string, unknown>>).forEach(([projectId, project]) => {
+        const calendar = getOrCreateProjectCalendar(settings, projectId);
+        if (project?.workingDays !== undefined) {
+          calendar.workingDays = parseWorkingDays(project.workingDays, warnings) ?? calendar.workingDays;
+        }
+        if (project?.holidays !== undefined) {
+          parseHolidays(project.holidays, warnings).forEach(date => calendar.holidays.add(date));
+        }
+      });
+    }
+  }
+
+  if (holidayTable !== undefined) {
+    const table = holidayTable as Record<string, unknown>;
+    if (!table || typeof table.tableName !== 'string' || typeof table.date !== 'string') {
+      warnings.push('Calendar holidayTable needs a tableName and a date column and was ignored');
+    } else {
+      settings.holidayTable = {
+        tableName: table.tableName.trim(),
+        date: table.date.trim(),
+        project: typeof table.project === 'string' && table.project.trim() ? table.project.trim() : undefined
+      };
+    }
+  }
+
+  return { settings, warnings };
+};
+
+/**
+ * Read the working calendar configured on the control
+ */
+export const getCalendarSettings = (context: ComponentFramework.Context<IInputs>): { settings: CalendarSettings; warnings: string[] } => {
+  return parseCalendarSettings(context.parameters.workingCalendar?.raw);
+};
+
+/**
+ * Calendar of a project, created from the default calendar when the project has none yet
+ */
+export const getOrCreateProjectCalendar = (settings: CalendarSettings, projectId: string): WorkCalendar => {
+  let calendar = settings.projectCalendars.get(projectId);
+  if (!calendar) {
+    calendar = { workingDays: [...settings.defaultCalendar.workingDays], holidays: new Set(settings.defaultCalendar.holidays) };
+    settings.projectCalendars.set(projectId, calendar);
+  }
+  return calendar;
+};
+
+/**
+ * Add a holiday to the default calendar (and so to every project) or to one project
+ */
+export const addHoliday = (settings: CalendarSettings, date: string, projectId?: string): void => {
+  if (projectId) {
+    getOrCreateProjectCalendar(settings, projectId).holidays.add(date);
+    return;
+  }
+
+  settings.defaultCalendar.holidays.add(date);
+  settings.projectCalendars.forEach(calendar => calendar.holidays.add(date));
+};
+
+export const getTaskCalendar = (settings: CalendarSettings, task: Pick<TaskData, 'projectId' | 'projectUID'>): WorkCalendar => {
+  return settings.projectCalendars.get(task.projectId)
+    ?? settings.projectCalendars.get(task.projectUID)
+    ?? settings.defaultCalendar;
+};
+
+export const isWorkingDay = (calendar: WorkCalendar, date: Date): boolean =>
+  calendar.workingDays.includes(date.getDay()) && !calendar.holidays.has(toDateKey(date));
+
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+const addCalendarDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Working days between two dates; partly covered days count by the share of the day covered
+ */
+export const getWorkingDays = (calendar: WorkCalendar, start: Date, finish: Date): number => {
+  if (finish <= start) return 0;
+
+  let total = 0;
+  let dayStart = startOfDay(start);
+
+  for (let i = 0; dayStart < finish && i < MAX_CALENDAR_DAYS; i++) {
+    const dayEnd = addCalendarDays(dayStart, 1);
+    if (isWorkingDay(calendar, dayStart)) {
+      const covered = Math.min(dayEnd.getTime(), finish.getTime()) - Math.max(dayStart.getTime(), start.getTime());
+      total += covered / (dayEnd.getTime() - dayStart.getTime());
+    }
+    dayStart = dayEnd;
+  }
+
+  return total;
+};
+
+/**
+ * Move a date by a number of working days (negative moves back), skipping weekends and holidays.
+ * Fractions of a day are kept, so adding 5 days to Monday 00:00 gives Saturday 00:00.
+ */
+export const addWorkingDays = (calendar: WorkCalendar, date: Date, days: number): Date => {
+  if (days === 0 || calendar.workingDays.length === 0) {
+    return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  let remaining = Math.abs(days);
+  let cursor = new Date(date);
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    if (days > 0) {
+      const dayStart = startOfDay(cursor);
+      const dayEnd = addCalendarDays(dayStart, 1);
+      if (isWorkingDay(calendar, dayStart)) {
+        const dayLength = dayEnd.getTime() - dayStart.getTime();
+        const available = (dayEnd.getTime() - cursor.getTime()) / dayLength;
+        if (remaining <= available) {
+          return new Date(cursor.getTime() + remaining * dayLength);
+        }
+        remaining -= available;
+      }
+      cursor = dayEnd;
+    } else {
+      // Step back through the day that ends at the cursor
+      const dayStart = startOfDay(new Date(cursor.getTime() - 1));
+      const dayEnd = addCalendarDays(dayStart, 1);
+      if (isWorkingDay(calendar, dayStart)) {
+        const dayLength = dayEnd.getTime() - dayStart.getTime();
+        const available = (cursor.getTime() - dayStart.getTime()) / dayLength;
+        if (remaining <= available) {
+          return new Date(cursor.getTime() - remaining * dayLength);
+        }
+        remaining -= available;
+      }
+      cursor = dayStart;
+    }
+  }
+
+  return cursor;
+};
+
+/**
+ * The date itself on a working day, otherwise the start of the next working day
+ */
+export const nextWorkingTime = (calendar: WorkCalendar, date: Date): Date => {
+  if (calendar.workingDays.length === 0 || isWorkingDay(calendar, date)) {
+    return date;
+  }
+
+  let day = startOfDay(date);
+  for (let i = 0; i < MAX_CALENDAR_DAYS && !isWorkingDay(calendar, day); i++) {
+    day = addCalendarDays(day, 1);
+  }
+  return day;
+};
+
+/**
+ * Task duration in whole working days, at least one day unless the task has no length
+ */
+export const getWorkingDuration = (calendar: WorkCalendar, start: Date, finish: Date): number => {
+  if (finish <= start) return 0;
+  return Math.max(1, Math.ceil(getWorkingDays(calendar, start, finish) - 0.0001));
+};
+
+/**
+ * Ranges of consecutive non-working days between two dates, for shading the timeline
+ */
+export const getNonWorkingRanges = (calendar: WorkCalendar, start: Date, finish: Date): { start: Date; finish: Date }[] => {
+  const ranges: { start: Date; finish: Date }[] = [];
+  let day = startOfDay(start);
+
+  for (let i = 0; day < finish && i < MAX_CALENDAR_DAYS; i++) {
+    const next = addCalendarDays(day, 1);
+    if (!isWorkingDay(calendar, day)) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.finish.getTime() === day.getTime()) {
+        last.finish = next;
+      } else {
+        ranges.push({ start: day, finish: next });
+      }
+    }
+    day = next;
+  }
+
+  return ranges;
+};
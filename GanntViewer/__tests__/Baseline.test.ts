@@ -0,0 +1,65 @@
+import { captureBaseline, getScheduleVariance, isSlipping } from '../Baseline';
+import { TaskData } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: day(6),
+  finishDate: day(8),
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const day = (date: number, hours = 0) => new Date(2025, 0, date, hours);
+
+describe('getScheduleVariance', () => {
+  it('measures how many days start and finish moved against the baseline', () => {
+    expect(getScheduleVariance(makeTask('a', { baselineStart: day(7), baselineFinish: day(6, 12) }))).toEqual({
+      startVariance: -1,
+      finishVariance: 1.5
+    });
+  });
+
+  it('has no variance without a complete baseline', () => {
+    expect(getScheduleVariance(makeTask('a'))).toBeNull();
+    expect(getScheduleVariance(makeTask('a', { baselineStart: day(6) }))).toBeNull();
+  });
+});
+
+describe('isSlipping', () => {
+  it('counts tasks whose start or finish is later than the threshold allows', () => {
+    const task = makeTask('a', { baselineStart: day(6), baselineFinish: day(6) });
+
+    expect(isSlipping(task, 1)).toBe(true);
+    expect(isSlipping(task, 2)).toBe(false); // Exactly at the threshold
+  });
+
+  it('does not count tasks ahead of their baseline or without one', () => {
+    expect(isSlipping(makeTask('a', { baselineStart: day(9), baselineFinish: day(10) }), 0)).toBe(false);
+    expect(isSlipping(makeTask('a'), 0)).toBe(false);
+  });
+});
+
+describe('captureBaseline', () => {
+  it('copies the current dates of tasks whose baseline differs', () => {
+    const changes = captureBaseline([
+      makeTask('current', { baselineStart: day(6), baselineFinish: day(8) }),
+      makeTask('moved', { baselineStart: day(6), baselineFinish: day(7) }),
+      makeTask('new')
+    ]);
+
+    expect(changes).toEqual([
+      { taskId: 'moved', changes: { baselineStart: day(6), baselineFinish: day(8) } },
+      { taskId: 'new', changes: { baselineStart: day(6), baselineFinish: day(8) } }
+    ]);
+  });
+
+  it('does not share date objects with the task', () => {
+    const task = makeTask('a');
+
+    expect(captureBaseline([task])[0].changes.baselineStart).not.toBe(task.startDate);
+  });
+});
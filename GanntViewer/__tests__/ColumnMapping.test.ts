@@ -0,0 +1,107 @@
+import {
+  AttributeMetadata,
+  TaskColumnMapping,
+  defaultColumnMapping,
+  parseColumnMapping,
+  parseProgressColumn,
+  toProgressColumn,
+  validateColumnMapping
+} from '../ColumnMapping';
+import { IInputs } from '../generated/ManifestTypes';
+
+describe('progress column', () => {
+  it('reads the stored value as a percent', () => {
+    expect(parseProgressColumn(0)).toBe(0);
+    expect(parseProgressColumn(1)).toBe(0.01);
+    expect(parseProgressColumn(50)).toBe(0.5);
+    expect(parseProgressColumn('75')).toBe(0.75);
+    expect(parseProgressColumn(100)).toBe(1);
+  });
+
+  it('clamps to 0-100% and treats missing values as 0', () => {
+    expect(parseProgressColumn(150)).toBe(1);
+    expect(parseProgressColumn(-5)).toBe(0);
+    expect(parseProgressColumn(null)).toBe(0);
+    expect(parseProgressColumn(undefined)).toBe(0);
+    expect(parseProgressColumn('n/a')).toBe(0);
+  });
+
+  it('writes the progress as a whole percent', () => {
+    expect(toProgressColumn(0.5)).toBe(50);
+    expect(toProgressColumn(0.014)).toBe(1);
+    expect(toProgressColumn(undefined)).toBe(0);
+  });
+
+  it('reads back what it writes', () => {
+    [0, 0.01, 0.25, 0.5, 0.99, 1].forEach(progress => {
+      expect(parseProgressColumn(toProgressColumn(progress))).toBe(progress);
+    });
+    [0, 1, 33, 100].forEach(percent => {
+      expect(toProgressColumn(parseProgressColumn(percent))).toBe(percent);
+    });
+  });
+});
+
+describe('parseColumnMapping', () => {
+  it('uses the default mapping without a value', () => {
+    expect(parseColumnMapping('').mapping).toEqual(defaultColumnMapping);
+  });
+
+  it('warns about invalid JSON and keeps the defaults', () => {
+    const { mapping, warnings } = parseColumnMapping('{not json');
+
+    expect(mapping).toEqual(defaultColumnMapping);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('overrides single columns and derives the id column of a custom table', () => {
+    const { mapping, warnings } = parseColumnMapping('{"tableName": "new_task", "startDate": " new_start ", "owner": "new_owner", "finishDate": 5}');
+
+    expect(mapping.tableName).toBe('new_task');
+    expect(mapping.columns).toMatchObject({ taskId: 'new_taskid', startDate: 'new_start', finishDate: 'pme_finishdate' });
+    expect(warnings).toEqual([
+      'Unknown TaskData field "owner" in column mapping',
+      'Column mapping for "finishDate" must be a non-empty string'
+    ]);
+  });
+
+  it('ignores values that are not objects', () => {
+    expect(parseColumnMapping('["pme_task"]').warnings).toEqual(['Column mapping must be a JSON object and was ignored']);
+  });
+});
+
+describe('validateColumnMapping', () => {
+  const createContext = (attributes: Record<string, AttributeMetadata> | null) => ({
+    utils: {
+      getEntityMetadata: () => attributes
+        ? Promise.resolve({ EntitySetName: 'pme_taskdatas', Attributes: { getByName: (column: string) => attributes[column] } })
+        : Promise.reject(new Error('Not found'))
+    }
+  }) as unknown as ComponentFramework.Context<IInputs>;
+
+  const mapping: TaskColumnMapping = {
+    tableName: 'pme_taskdata',
+    columns: { taskName: 'pme_taskname', startDate: 'pme_start', wbs: 'pme_wbs', parentTask: 'pme_parenttask', taskPhase: 'pme_taskphase' }
+  };
+
+  it('reports missing columns, but only warns about required ones', async () => {
+    const result = await validateColumnMapping(createContext({
+      pme_taskname: { AttributeType: 'String' },
+      pme_parenttask: { AttributeType: 6 },
+      pme_taskphase: { AttributeType: 'Picklist' }
+    }), mapping);
+
+    expect(result.errors).toEqual([]);
+    expect(result.invalidFields).toEqual(['startDate', 'wbs']);
+    expect(result.warnings).toEqual(['Column "pme_start" mapped to startDate does not exist on pme_taskdata']);
+    expect(result.lookupFields).toEqual(['parentTask']);
+    expect(result.textFields).toEqual(['taskName']);
+    expect(result.entitySetName).toBe('pme_taskdatas');
+  });
+
+  it('fails for a table that does not exist', async () => {
+    const result = await validateColumnMapping(createContext(null), mapping);
+
+    expect(result.errors).toEqual(['Table "pme_taskdata" could not be found: Not found']);
+  });
+});
@@ -0,0 +1,93 @@
+import { calculateCriticalPath } from '../CriticalPath';
+import { TaskData, TaskLink } from '../types';
+import { WorkCalendar } from '../WorkCalendar';
+
+const makeTask = (taskDataId: string, startDate: Date, finishDate: Date, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate,
+  finishDate,
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const link = (predecessorId: string, successorId: string, type: TaskLink['type'] = 'FinishToStart', lag = 0): TaskLink =>
+  ({ predecessorId, successorId, type, lag });
+
+const day = (date: number) => new Date(2025, 0, date);
+
+describe('calculateCriticalPath', () => {
+  it('marks the longest chain critical and gives the other tasks float', () => {
+    const tasks = [
+      makeTask('a', day(6), day(8)),
+      makeTask('b', day(8), day(11)),
+      makeTask('c', day(6), day(7))
+    ];
+
+    const result = calculateCriticalPath(tasks, [link('a', 'b'), link('c', 'b')]);
+
+    expect(result.projectFinish).toEqual(day(11));
+    expect(result.tasks.get('a')).toMatchObject({ isCritical: true, totalFloat: 0, freeFloat: 0 });
+    expect(result.tasks.get('b')).toMatchObject({ isCritical: true, totalFloat: 0 });
+    expect(result.tasks.get('c')).toMatchObject({ isCritical: false, totalFloat: 1, freeFloat: 1, lateStart: day(7) });
+    expect(Array.from(result.criticalLinkKeys)).toEqual(['a->b']);
+  });
+
+  it('pushes successors by lag and link type', () => {
+    const tasks = [
+      makeTask('a', day(6), day(8)),
+      makeTask('b', day(6), day(7)),
+      makeTask('c', day(6), day(8))
+    ];
+
+    const result = calculateCriticalPath(tasks, [link('a', 'b', 'FinishToStart', 1), link('a', 'c', 'FinishToFinish', 2)]);
+
+    expect(result.tasks.get('b')).toMatchObject({ earlyStart: day(9), earlyFinish: day(10) });
+    expect(result.tasks.get('c')).toMatchObject({ earlyStart: day(8), earlyFinish: day(10) });
+  });
+
+  it('never starts a task before its own start date', () => {
+    const tasks = [makeTask('a', day(6), day(7)), makeTask('b', day(10), day(11))];
+
+    const result = calculateCriticalPath(tasks, [link('a', 'b')]);
+
+    expect(result.tasks.get('b')?.earlyStart).toEqual(day(10));
+    expect(result.tasks.get('a')).toMatchObject({ isCritical: false, freeFloat: 3 });
+  });
+
+  it('leaves out summary tasks and tasks in a dependency loop', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const tasks = [
+      makeTask('summary', day(6), day(9), { isSummaryTask: true }),
+      makeTask('a', day(6), day(7)),
+      makeTask('x', day(6), day(7)),
+      makeTask('y', day(7), day(8))
+    ];
+
+    const result = calculateCriticalPath(tasks, [link('summary', 'a'), link('x', 'y'), link('y', 'x')]);
+
+    expect(result.cycleTaskIds).toEqual(['x', 'y']);
+    expect(Array.from(result.tasks.keys())).toEqual(['a']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('counts float in working days of the task calendar', () => {
+    const weekdays: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: new Set() };
+    // Friday, then the following Monday
+    const tasks = [makeTask('a', day(10), day(11)), makeTask('b', day(13), day(14))];
+
+    expect(calculateCriticalPath(tasks, [link('a', 'b')]).tasks.get('a')).toMatchObject({ totalFloat: 2, isCritical: false });
+
+    const result = calculateCriticalPath(tasks, [link('a', 'b')], { getCalendar: () => weekdays });
+    expect(result.tasks.get('a')).toMatchObject({ totalFloat: 0, freeFloat: 0, isCritical: true, lateStart: day(10) });
+    expect(Array.from(result.criticalLinkKeys)).toEqual(['a->b']);
+  });
+
+  it('returns an empty result without tasks', () => {
+    expect(calculateCriticalPath([], []).projectFinish).toBeNull();
+  });
+});
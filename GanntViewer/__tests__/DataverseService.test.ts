@@ -0,0 +1,256 @@
+import { AttributeMetadata, defaultColumnMapping } from '../ColumnMapping';
+import { DataverseService } from '../DataverseService';
+import { IInputs } from '../generated/ManifestTypes';
+
+type DataSet = ComponentFramework.PropertyTypes.DataSet;
+
+// Column types of the default pme_taskdata table; tests override single columns
+const defaultAttributes: Record<string, AttributeMetadata> = {
+  ...Object.fromEntries(Object.values(defaultColumnMapping.columns).map(column => [column, { AttributeType: 'String' }])),
+  pme_taskdataid: { AttributeType: 'Uniqueidentifier' },
+  pme_taskphase: { AttributeType: 'Picklist' },
+  pme_dependencytype: { AttributeType: 'Picklist' },
+  pme_startdate: { AttributeType: 'DateTime' },
+  pme_finishdate: { AttributeType: 'DateTime' },
+  pme_duration: { AttributeType: 'Integer' },
+  pme_progress: { AttributeType: 'Integer' },
+  pme_parenttask: { AttributeType: 'Lookup' }
+};
+
+const createService = async (
+  attributes: Record<string, AttributeMetadata | undefined> = {},
+  webAPI: Partial<ComponentFramework.WebApi> = {},
+  columnMapping?: string
+) => {
+  const updates: ComponentFramework.WebApi.Entity[] = [];
+  const allAttributes = { ...defaultAttributes, ...attributes };
+  const context = {
+    parameters: { columnMapping: { raw: columnMapping ?? null } },
+    utils: {
+      getEntityMetadata: () => Promise.resolve({
+        EntitySetName: 'pme_taskdatas',
+        Attributes: { get: (column: string) => allAttributes[column] }
+      })
+    },
+    webAPI: {
+      updateRecord: (_table: string, _id: string, payload: ComponentFramework.WebApi.Entity) => {
+        updates.push(payload);
+        return Promise.resolve({ id: _id, entityType: _table });
+      },
+      ...webAPI
+    }
+  } as unknown as ComponentFramework.Context<IInputs>;
+
+  const service = new DataverseService(context);
+  const validation = await service.initialize(createDataSet([]));
+  return { service, updates, validation };
+};
+
+// A dataset whose records return the given column values
+const createDataSet = (records: Record<string, string | number | boolean | Date | ComponentFramework.EntityReference>[]): DataSet => ({
+  getTargetEntityType: () => 'pme_taskdata',
+  columns: [],
+  sortedRecordIds: records.map((_, i) => `record-${i}`),
+  records: Object.fromEntries(records.map((values, i) => [`record-${i}`, {
+    getRecordId: () => `{0000000${i}-AAAA-BBBB-CCCC-DDDDDDDDDDDD}`,
+    getValue: (column: string) => values[column] ?? null
+  }]))
+} as unknown as DataSet);
+
+const day = (date: number) => new Date(2025, 0, date);
+
+describe('transformDataSet', () => {
+  it('reads the mapped columns of each record', async () => {
+    const { service } = await createService();
+    const [task] = service.transformDataSet(createDataSet([{
+      pme_taskname: 'Design review',
+      pme_tasknumber: 12,
+      pme_taskphase: 893360003,
+      pme_startdate: day(6),
+      pme_finishdate: day(9),
+      pme_duration: 3,
+      pme_progress: 40,
+      pme_parenttask: { id: { guid: '{ABCD-1234}' }, name: 'Design', etn: 'pme_taskdata' } as unknown as ComponentFramework.EntityReference,
+      pme_successor: '13;14SS+2d',
+      pme_dependencytype: 1,
+      pme_taskindex: 7,
+      pme_wbs: '1.2',
+      pme_projectid: 'PRJ-001'
+    }]));
+
+    expect(task).toMatchObject({
+      taskDataId: '00000000-aaaa-bbbb-cccc-dddddddddddd',
+      taskName: 'Design review',
+      taskNumber: '12',
+      taskPhase: 'Execution',
+      startDate: day(6),
+      finishDate: day(9),
+      duration: 3,
+      progress: 0.4,
+      parentTask: 'abcd-1234',
+      successor: '13;14SS+2d',
+      dependencyType: 'FinishToStart',
+      taskIndex: 7,
+      wbs: '1.2',
+      projectId: 'PRJ-001',
+      isMilestone: false,
+      isSummaryTask: false,
+      isIncomplete: false
+    });
+  });
+
+  it('flags records with missing schedule or phase columns as incomplete and fills in defaults', async () => {
+    const { service } = await createService();
+    const [task] = service.transformDataSet(createDataSet([{ pme_taskname: 'Plan kickoff', pme_startdate: day(6), pme_duration: 2 }]));
+
+    expect(task).toMatchObject({
+      taskPhase: 'Planning', // Guessed from the name
+      startDate: day(6),
+      finishDate: day(8),
+      isIncomplete: true,
+      incompleteFields: ['pme_taskphase', 'pme_finishdate']
+    });
+  });
+
+  it('reads renamed columns and ignores columns that do not exist on the table', async () => {
+    const { service, validation } = await createService({ new_title: { AttributeType: 'String' }, pme_duration: undefined }, {}, '{"taskName": "new_title"}');
+    const [task] = service.transformDataSet(createDataSet([
+      { pme_taskname: 'Old name', new_title: 'Build', pme_taskphase: 1, pme_startdate: day(6), pme_finishdate: day(9), pme_duration: 10 }
+    ]));
+
+    expect(validation.invalidFields).toEqual(['duration']);
+    expect(task).toMatchObject({ taskName: 'Build', duration: 3 });
+  });
+
+  it('treats zero-length tasks as milestones without a milestone column', async () => {
+    const { service } = await createService({ pme_ismilestone: undefined });
+    const [milestone, task] = service.transformDataSet(createDataSet([
+      { pme_taskphase: 1, pme_startdate: day(6), pme_finishdate: day(6) },
+      { pme_taskphase: 1, pme_startdate: day(6), pme_finishdate: day(7) }
+    ]));
+
+    expect(milestone.isMilestone).toBe(true);
+    expect(task.isMilestone).toBe(false);
+  });
+
+  it('does not make tasks summaries because of their name', async () => {
+    const { service } = await createService();
+    const [task] = service.transformDataSet(createDataSet([
+      { pme_taskname: 'Phase 1 review', pme_taskphase: 1, pme_startdate: day(6), pme_finishdate: day(8) }
+    ]));
+
+    expect(task.isSummaryTask).toBe(false);
+  });
+});
+
+describe('updateTask', () => {
+  it('writes only the changed fields in the column formats', async () => {
+    const { service, updates } = await createService({ pme_wbs: undefined });
+
+    await service.updateTask('a', { startDate: day(6), finishDate: day(9), duration: 3, progress: 0.255, wbs: '1.2', isMilestone: false });
+
+    expect(updates).toEqual([{
+      pme_startdate: day(6).toISOString(),
+      pme_finishdate: day(9).toISOString(),
+      pme_duration: 3,
+      pme_progress: 26,
+      pme_ismilestone: false
+    }]);
+  });
+
+  it('clears the baseline with null and skips it when its columns are not mapped', async () => {
+    const { service, updates } = await createService();
+    const { service: withoutBaseline, updates: updatesWithoutBaseline } = await createService({ pme_baselinestart: undefined, pme_baselinefinish: undefined });
+
+    await service.updateTask('a', { baselineStart: day(6), baselineFinish: undefined });
+    await withoutBaseline.updateTask('a', { baselineStart: day(6), baselineFinish: day(8) });
+
+    expect(updates).toEqual([{ pme_baselinestart: day(6).toISOString(), pme_baselinefinish: null }]);
+    expect(updatesWithoutBaseline).toEqual([]); // Nothing left to save
+  });
+});
+
+describe('saving the parent task', () => {
+  it('binds a lookup column through its navigation property', async () => {
+    const { service, updates } = await createService();
+
+    await service.updateTask('a', { parentTask: 'b' });
+    await service.updateTask('a', { parentTask: undefined });
+
+    expect(updates).toEqual([
+      { 'pme_parenttask@odata.bind': '/pme_taskdatas(b)' },
+      { 'pme_parenttask@odata.bind': null }
+    ]);
+  });
+
+  it('writes the id to a text column', async () => {
+    const { service, updates } = await createService({ pme_parenttask: { AttributeType: 'String' } });
+
+    await service.updateTask('a', { parentTask: 'b' });
+
+    expect(updates).toEqual([{ pme_parenttask: 'b' }]);
+  });
+
+  it('skips a column that does not exist on the table', async () => {
+    const { service, updates, validation } = await createService({ pme_parenttask: undefined });
+
+    await service.updateTask('a', { parentTask: 'b', taskName: 'Build' });
+
+    expect(validation.invalidFields).toEqual(['parentTask']);
+    expect(service.isFieldMapped('parentTask')).toBe(false);
+    expect(updates).toEqual([{ pme_taskname: 'Build' }]);
+  });
+});
+
+describe('saving phases and dependency types', () => {
+  it('writes choice columns with the option values the records were read with', async () => {
+    const { service, updates } = await createService();
+    service.transformDataSet(createDataSet([{ pme_taskphase: 3, pme_dependencytype: 2 }]));
+
+    await service.updateTask('a', { taskPhase: 'Selection', dependencyType: 'StartToStart' });
+    await service.updateTask('a', { taskPhase: 'Closure', dependencyType: 'FinishToFinish' });
+
+    expect(updates).toEqual([
+      { pme_taskphase: 3, pme_dependencytype: 2 },
+      { pme_taskphase: 5, pme_dependencytype: 3 } // Phases not read yet follow the numbering of the others
+    ]);
+  });
+
+  it('uses the solution option values before any record was read', async () => {
+    const { service, updates } = await createService();
+
+    await service.updateTask('a', { taskPhase: 'Planning', dependencyType: undefined });
+
+    expect(updates).toEqual([{ pme_taskphase: 893360001, pme_dependencytype: null }]);
+  });
+
+  it('writes text columns by name', async () => {
+    const { service, updates } = await createService({ pme_taskphase: { AttributeType: 'String' }, pme_dependencytype: { AttributeType: 14 } });
+    service.transformDataSet(createDataSet([{ pme_taskphase: 'Execution', pme_dependencytype: 'SS' }]));
+
+    await service.updateTask('a', { taskPhase: 'Execution', dependencyType: 'StartToStart' });
+
+    expect(updates).toEqual([{ pme_taskphase: 'Execution', pme_dependencytype: 'StartToStart' }]);
+  });
+});
+
+describe('fetchTasksByIds', () => {
+  it('looks tasks up in batches and skips batches that fail', async () => {
+    const queries: string[] = [];
+    const retrieveMultipleRecords = (_table: string, options?: string) => {
+      queries.push(options ?? '');
+      if (queries.length === 2) return Promise.reject(new Error('Request failed'));
+
+      const ids = Array.from((options ?? '').matchAll(/eq (\S+)/g), match => match[1]).filter(id => id !== 'missing');
+      return Promise.resolve({ entities: ids.map(id => ({ pme_taskdataid: id, pme_taskname: `Task ${id}` })), nextLink: '' });
+    };
+    const { service } = await createService({}, { retrieveMultipleRecords } as Partial<ComponentFramework.WebApi>);
+    const ids = ['missing', ...Array.from({ length: 60 }, (_, i) => `id-${i}`)];
+
+    const tasks = await service.fetchTasksByIds(ids);
+
+    expect(queries).toHaveLength(2);
+    expect(queries[0]).toBe(`?$filter=${ids.slice(0, 50).map(id => `pme_taskdataid eq ${id}`).join(' or ')}`);
+    expect(tasks.map(task => task.taskDataId)).toEqual(ids.slice(1, 50));
+  });
+});
@@ -0,0 +1,67 @@
+import { GridColumnLayout, getColumnLayoutKey, getGridColumnDefinitions, mergeColumnLayout, moveColumn } from '../GridColumns';
+
+const definitions = getGridColumnDefinitions([{ name: 'pme_owner', displayName: 'Owner' }, { name: 'pme_cost', displayName: '' }]);
+
+describe('getGridColumnDefinitions', () => {
+  it('adds hidden columns for unmapped dataset columns after the built-in ones', () => {
+    expect(definitions.slice(-2)).toEqual([
+      { id: 'extra:pme_owner', title: 'Owner', defaultWidth: 120, minWidth: 40, visibleByDefault: false },
+      { id: 'extra:pme_cost', title: 'pme_cost', defaultWidth: 120, minWidth: 40, visibleByDefault: false }
+    ]);
+  });
+});
+
+describe('mergeColumnLayout', () => {
+  it('uses the defaults without a saved layout', () => {
+    const columns = mergeColumnLayout(definitions, null);
+
+    expect(columns.map(column => column.definition.id)).toEqual(definitions.map(definition => definition.id));
+    expect(columns.filter(column => column.visible).map(column => column.definition.id))
+      .toEqual(['taskName', 'phase', 'startDate', 'duration', 'progress']);
+  });
+
+  it('keeps the saved order, widths and visibility and appends new columns', () => {
+    const saved: GridColumnLayout[] = [
+      { id: 'extra:pme_owner', width: 200, visible: true },
+      { id: 'progress', width: 10, visible: true },
+      { id: 'taskName', width: 300, visible: false },
+      { id: 'removed', width: 100, visible: true },
+      { id: 'progress', width: 90, visible: false }
+    ];
+
+    const columns = mergeColumnLayout(definitions, saved);
+
+    expect(columns.slice(0, 3).map(column => [column.definition.id, column.width, column.visible])).toEqual([
+      ['extra:pme_owner', 200, true],
+      ['progress', 50, true], // Not narrower than the minimum
+      ['taskName', 300, true] // Required columns stay visible
+    ]);
+    expect(columns).toHaveLength(definitions.length);
+    expect(columns[3].definition.id).toBe('taskNumber');
+  });
+});
+
+describe('moveColumn', () => {
+  const layout: GridColumnLayout[] = ['a', 'b', 'c', 'd'].map(id => ({ id, width: 100, visible: true }));
+
+  it('moves a column in front of another one', () => {
+    expect(moveColumn(layout, 'd', 'b').map(column => column.id)).toEqual(['a', 'd', 'b', 'c']);
+    expect(moveColumn(layout, 'a', 'c').map(column => column.id)).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('moves a column to the end without a target', () => {
+    expect(moveColumn(layout, 'a', null).map(column => column.id)).toEqual(['b', 'c', 'd', 'a']);
+  });
+
+  it('leaves the layout alone for unknown columns or a move onto itself', () => {
+    expect(moveColumn(layout, 'x', 'a')).toBe(layout);
+    expect(moveColumn(layout, 'b', 'b')).toBe(layout);
+  });
+});
+
+describe('getColumnLayoutKey', () => {
+  it('keys the layout by table and normalized user id', () => {
+    expect(getColumnLayoutKey('{ABC-123}', 'pme_taskdata')).toBe('ganttViewer.columns.pme_taskdata.abc-123');
+    expect(getColumnLayoutKey('abc', '')).toBe('ganttViewer.columns.default.abc');
+  });
+});
@@ -0,0 +1,89 @@
+import { CellEditOptions, getEditorValue, isEditableColumn, parseCellEdit } from '../GridEditing';
+import { TaskData } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: day(6, 8),
+  finishDate: day(8, 17),
+  duration: 2,
+  progress: 0.4,
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const day = (date: number, hours = 0) => new Date(2025, 0, date, hours);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every day is a working day
+const options: CellEditOptions = {
+  calculateDuration: (_task, startDate, finishDate) => Math.round((finishDate.getTime() - startDate.getTime()) / DAY_MS),
+  addDuration: (_task, startDate, days) => new Date(startDate.getTime() + days * DAY_MS)
+};
+
+const task = makeTask('a', { taskName: 'Design review' });
+
+describe('isEditableColumn', () => {
+  it('only lets the name and phase of summaries be edited', () => {
+    expect(isEditableColumn('startDate', task)).toBe(true);
+    expect(isEditableColumn('startDate', { ...task, isSummaryTask: true })).toBe(false);
+    expect(isEditableColumn('phase', { ...task, isSummaryTask: true })).toBe(true);
+    expect(isEditableColumn('taskNumber', task)).toBe(false);
+  });
+});
+
+describe('getEditorValue', () => {
+  it('shows dates as yyyy-mm-dd and progress as a percent', () => {
+    expect(getEditorValue(task, 'startDate')).toBe('2025-01-06');
+    expect(getEditorValue(task, 'progress')).toBe('40');
+  });
+});
+
+describe('parseCellEdit', () => {
+  it('returns no changes for the current value', () => {
+    expect(parseCellEdit(task, 'finishDate', '2025-01-08', options)).toEqual({ changes: {} });
+  });
+
+  it('trims names and refuses empty ones', () => {
+    expect(parseCellEdit(task, 'taskName', ' Build ', options)).toEqual({ changes: { taskName: 'Build' } });
+    expect(parseCellEdit(task, 'taskName', '  ', options)).toEqual({ changes: {}, error: "Task name can't be empty" });
+    expect(parseCellEdit(task, 'phase', 'Testing', options)).toEqual({ changes: {}, error: 'Unknown phase "Testing"' });
+  });
+
+  it('keeps the time of day of edited dates and recalculates the duration', () => {
+    expect(parseCellEdit(task, 'startDate', '2025-01-07', options)).toEqual({ changes: { startDate: day(7, 8), duration: 1 } });
+    expect(parseCellEdit(task, 'finishDate', '2025-01-10', options)).toEqual({ changes: { finishDate: day(10, 17), duration: 4 } });
+  });
+
+  it('refuses invalid dates and dates on the wrong side of the other end', () => {
+    expect(parseCellEdit(task, 'startDate', '06/01/2025', options).error).toBe('Enter a start date');
+    expect(parseCellEdit(task, 'startDate', '2025-02-30', options).error).toBe('Enter a start date');
+    expect(parseCellEdit(task, 'finishDate', '', options).error).toBe('Enter a finish date');
+    expect(parseCellEdit(task, 'startDate', '2025-01-09', options).error).toBe("Start can't be after the finish");
+    expect(parseCellEdit(task, 'finishDate', '2025-01-05', options).error).toBe("Finish can't be before the start");
+  });
+
+  it('moves the finish for a new duration', () => {
+    expect(parseCellEdit(task, 'duration', '0.5', options)).toEqual({ changes: { duration: 0.5, finishDate: day(6, 20) } });
+  });
+
+  it('refuses durations that are not a number of days', () => {
+    ['', 'two', '-1', 'Infinity'].forEach(value => {
+      expect(parseCellEdit(task, 'duration', value, options)).toEqual({ changes: {}, error: 'Duration must be a number of days, 0 or more' });
+    });
+  });
+
+  it('reads progress as a percent with or without the percent sign', () => {
+    expect(parseCellEdit(task, 'progress', '75%', options)).toEqual({ changes: { progress: 0.75 } });
+    expect(parseCellEdit(task, 'progress', '100', options)).toEqual({ changes: { progress: 1 } });
+  });
+
+  it('refuses progress outside 0-100%', () => {
+    ['', 'half', '-5', '101', '50%%'].forEach(value => {
+      expect(parseCellEdit(task, 'progress', value, options)).toEqual({ changes: {}, error: 'Progress must be between 0 and 100%' });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  TaskFilter,
+  compareSortValues,
+  countActiveFilters,
+  emptyTaskFilter,
+  matchesTaskFilter,
+  matchesTaskSearch,
+  splitSearchMatches
+} from '../GridFilters';
+import { TaskData } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: new Date(2025, 0, 6),
+  finishDate: new Date(2025, 0, 8),
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const filter = (changes: Partial<TaskFilter>): TaskFilter => ({ ...emptyTaskFilter, ...changes });
+const now = new Date(2025, 0, 10);
+
+describe('countActiveFilters', () => {
+  it('counts each criterion in use once', () => {
+    expect(countActiveFilters(emptyTaskFilter)).toBe(0);
+    expect(countActiveFilters(filter({ text: '  ' }))).toBe(0);
+    expect(countActiveFilters(filter({ text: 'design', dateFrom: '2025-01-01', dateTo: '2025-01-31', maxProgress: 50 }))).toBe(3);
+  });
+});
+
+describe('matchesTaskFilter', () => {
+  const task = makeTask('a', { taskName: 'Design review', taskNumber: '12', progress: 0.4, extraFields: { Owner: 'Jordan' } });
+
+  it('lets every task through the empty filter', () => {
+    expect(matchesTaskFilter(task, emptyTaskFilter, now)).toBe(true);
+  });
+
+  it('matches text against names, numbers, phases and extra columns', () => {
+    expect(matchesTaskFilter(task, filter({ text: 'REVIEW' }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ text: 'jordan' }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ text: 'planning' }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ text: 'build' }), now)).toBe(false);
+  });
+
+  it('filters by phase and progress range', () => {
+    expect(matchesTaskFilter(task, filter({ phases: ['Execution'] }), now)).toBe(false);
+    expect(matchesTaskFilter(task, filter({ phases: ['Execution', 'Planning'] }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ minProgress: 40, maxProgress: 40 }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ minProgress: 50 }), now)).toBe(false);
+  });
+
+  it('keeps tasks that overlap the date range, including its last day', () => {
+    expect(matchesTaskFilter(task, filter({ dateFrom: '2025-01-08' }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ dateFrom: '2025-01-09' }), now)).toBe(false);
+    expect(matchesTaskFilter(task, filter({ dateTo: '2025-01-06' }), now)).toBe(true);
+    expect(matchesTaskFilter(task, filter({ dateTo: '2025-01-05' }), now)).toBe(false);
+    expect(matchesTaskFilter(task, filter({ dateFrom: 'not a date' }), now)).toBe(true);
+  });
+
+  it('keeps only unfinished tasks past their finish when filtering overdue tasks', () => {
+    expect(matchesTaskFilter(task, filter({ overdueOnly: true }), now)).toBe(true);
+    expect(matchesTaskFilter({ ...task, progress: 1 }, filter({ overdueOnly: true }), now)).toBe(false);
+    expect(matchesTaskFilter(task, filter({ overdueOnly: true }), new Date(2025, 0, 7))).toBe(false);
+  });
+});
+
+describe('compareSortValues', () => {
+  it('compares numbers by value and text with numbers in natural order', () => {
+    expect(compareSortValues(2, 10)).toBeLessThan(0);
+    expect(['1.10', '1.9', '1.2', '2'].sort(compareSortValues)).toEqual(['1.2', '1.9', '1.10', '2']);
+    expect(compareSortValues('design', 'Design')).toBe(0);
+  });
+});
+
+describe('matchesTaskSearch', () => {
+  const task = makeTask('0a1b-22', { taskName: 'Design review', taskNumber: '12' });
+
+  it('matches the name, number or id, ignoring case', () => {
+    expect(matchesTaskSearch(task, ' REVIEW ')).toBe(true);
+    expect(matchesTaskSearch(task, '12')).toBe(true);
+    expect(matchesTaskSearch(task, '0A1B')).toBe(true);
+    expect(matchesTaskSearch(task, 'Planning')).toBe(false);
+  });
+
+  it('matches nothing without search text', () => {
+    expect(matchesTaskSearch(task, ' ')).toBe(false);
+  });
+});
+
+describe('splitSearchMatches', () => {
+  it('splits text into matching and other parts, keeping the original case', () => {
+    expect(splitSearchMatches('Design and redesign', 'design')).toEqual([
+      { text: 'Design', isMatch: true },
+      { text: ' and re', isMatch: false },
+      { text: 'design', isMatch: true }
+    ]);
+  });
+
+  it('returns the whole text without search text or a match', () => {
+    expect(splitSearchMatches('Design', '')).toEqual([{ text: 'Design', isMatch: false }]);
+    expect(splitSearchMatches('Design', 'build')).toEqual([{ text: 'Design', isMatch: false }]);
+  });
+});
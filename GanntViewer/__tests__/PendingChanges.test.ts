@@ -0,0 +1,154 @@
+import { PendingChangesQueue, TaskWriter } from '../PendingChanges';
+import { TaskData, TaskLink } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: new Date(2025, 0, 6),
+  finishDate: new Date(2025, 0, 7),
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+// Records every call; creates fail for the task names in failNames
+const createWriter = (failNames: string[] = []) => {
+  const calls: string[] = [];
+  const created: TaskData[] = [];
+  let nextId = 1;
+
+  const writer: TaskWriter = {
+    createTask: (task) => {
+      calls.push(`create ${task.taskName}`);
+      if (failNames.includes(task.taskName)) return Promise.reject(new Error(`${task.taskName} failed`));
+      created.push(task);
+      return Promise.resolve(`id-${nextId++}`);
+    },
+    updateTask: (taskId) => {
+      calls.push(`update ${taskId}`);
+      return Promise.resolve();
+    },
+    deleteTask: (taskId) => {
+      calls.push(`delete ${taskId}`);
+      return Promise.resolve();
+    },
+    createLink: (link: TaskLink) => {
+      calls.push(`create link ${link.predecessorId}->${link.successorId}`);
+      return Promise.resolve('link-1');
+    },
+    updateLink: (link: TaskLink) => {
+      calls.push(`update link ${link.predecessorId}->${link.successorId}`);
+      return Promise.resolve();
+    },
+    deleteLink: (link: TaskLink) => {
+      calls.push(`delete link ${link.predecessorId}->${link.successorId}`);
+      return Promise.resolve();
+    }
+  };
+
+  return { writer, calls, created };
+};
+
+const getTaskName = (taskId: string) => taskId;
+
+describe('PendingChangesQueue', () => {
+  it('merges updates to the same task', () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueUpdate('a', { taskName: 'Renamed' });
+    queue.enqueueUpdate('a', { progress: 0.5 });
+
+    expect(queue.count).toBe(1);
+    expect(queue.getChanges()[0]).toEqual({ taskId: 'a', type: 'update', changes: { taskName: 'Renamed', progress: 0.5 } });
+  });
+
+  it('folds updates into a pending create and drops a create that is deleted', () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueCreate(makeTask('new-1'));
+    queue.enqueueUpdate('new-1', { taskName: 'Named' });
+
+    expect(queue.getChanges()[0].type).toBe('create');
+    expect(queue.getChanges()[0].changes.taskName).toBe('Named');
+
+    queue.enqueueDelete('new-1');
+    expect(queue.count).toBe(0);
+  });
+
+  it('ignores updates to a task pending deletion', () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueDelete('a');
+    queue.enqueueUpdate('a', { taskName: 'Renamed' });
+
+    expect(queue.getChanges()).toEqual([{ taskId: 'a', type: 'delete', changes: {} }]);
+  });
+
+  it('overlays changes on the loaded tasks', () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueUpdate('a', { taskName: 'Renamed' });
+    queue.enqueueDelete('b');
+    queue.enqueueCreate(makeTask('new-1'));
+
+    const result = queue.applyTo([makeTask('a'), makeTask('b'), makeTask('c')]);
+
+    expect(result.map(task => task.taskName)).toEqual(['Renamed', 'c', 'new-1']);
+  });
+
+  it('creates new parents before their new children and points the children at the saved id', async () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueCreate(makeTask('new-2', { taskName: 'Child', parentTask: 'new-1' }));
+    queue.enqueueCreate(makeTask('new-3', { taskName: 'Grandchild', parentTask: 'new-2' }));
+    queue.enqueueCreate(makeTask('new-1', { taskName: 'Parent' }));
+    const { writer, calls, created } = createWriter();
+
+    const errors = await queue.save(writer, getTaskName);
+
+    expect(errors).toEqual([]);
+    expect(calls).toEqual(['create Parent', 'create Child', 'create Grandchild']);
+    expect(created.map(task => task.parentTask)).toEqual([undefined, 'id-1', 'id-2']);
+    expect(queue.count).toBe(0);
+  });
+
+  it('fails the children of a new parent that could not be created', async () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueCreate(makeTask('new-1', { taskName: 'Parent' }));
+    queue.enqueueCreate(makeTask('new-2', { taskName: 'Child', parentTask: 'new-1' }));
+    const { writer, calls } = createWriter(['Parent']);
+
+    const errors = await queue.save(writer, getTaskName);
+
+    expect(calls).toEqual(['create Parent']);
+    expect(errors.map(error => error.taskId)).toEqual(['new-1', 'new-2']);
+    expect(errors[1].message).toContain('Parent');
+    expect(queue.count).toBe(2);
+  });
+
+  it('saves creates, updates, links and deletes in that order', async () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueDelete('old');
+    queue.enqueueUpdate('a', { taskName: 'Renamed' });
+    queue.enqueueLinkCreate({ predecessorId: 'a', successorId: 'new-1', type: 'FinishToStart', lag: 0 });
+    queue.enqueueCreate(makeTask('new-1', { taskName: 'New' }));
+    const { writer, calls } = createWriter();
+
+    await queue.save(writer, getTaskName);
+
+    expect(calls).toEqual(['create New', 'update a', 'create link a->id-1', 'delete old']);
+  });
+
+  it('replaces temporary ids in successor fields of other changes', async () => {
+    const queue = new PendingChangesQueue();
+    queue.enqueueCreate(makeTask('new-1', { taskName: 'New' }));
+    queue.enqueueUpdate('a', { successor: 'new-1SS+2d;12', successorUID: 'new-1;b' });
+    const updates: Partial<TaskData>[] = [];
+    const { writer } = createWriter();
+    writer.updateTask = (taskId, changes) => {
+      updates.push(changes);
+      return Promise.resolve();
+    };
+
+    await queue.save(writer, getTaskName);
+
+    expect(updates).toEqual([{ successor: 'id-1SS+2d;12', successorUID: 'id-1;b' }]);
+  });
+});
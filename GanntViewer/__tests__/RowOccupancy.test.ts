@@ -0,0 +1,59 @@
+import { BarExtent, RowOccupancy } from '../RowOccupancy';
+
+// Bars are widened by a 4px margin on both sides
+const extents: BarExtent[] = [
+  { left: 0, right: 50 },
+  { left: 100, right: 200 },
+  { left: 150, right: 300 },
+  { left: 400, right: 420 },
+  { left: 0, right: 10 }
+];
+
+// The column a line would take when checking every row in between one by one
+const findFreeColumnByScanning = (desiredX: number, fromRow: number, toRow: number, direction: number): number => {
+  const rows = extents.slice(Math.min(fromRow, toRow) + 1, Math.max(fromRow, toRow));
+  const search = (step: number) => {
+    let x = desiredX;
+    for (;;) {
+      const blocking = rows.find(extent => x > extent.left - 4 && x < extent.right + 4);
+      if (!blocking) return x;
+      x = step > 0 ? blocking.right + 4 : blocking.left - 4;
+    }
+  };
+  if (direction !== 0) return search(direction);
+  const right = search(1);
+  const left = search(-1);
+  return right - desiredX <= desiredX - left ? right : left;
+};
+
+describe('RowOccupancy', () => {
+  const occupancy = new RowOccupancy(extents);
+
+  it('keeps the extents of each row', () => {
+    expect(occupancy.rowCount).toBe(5);
+    expect(occupancy.getExtent(2)).toEqual({ left: 150, right: 300 });
+  });
+
+  it('keeps the desired column when no bar in between is in the way', () => {
+    expect(occupancy.findFreeColumn(120, 0, 1, 0)).toBe(120);
+    expect(occupancy.findFreeColumn(350, 0, 4, 0)).toBe(350);
+  });
+
+  it('steps past overlapping bars to the nearest side', () => {
+    expect(occupancy.findFreeColumn(160, 0, 3, 0)).toBe(96);
+    expect(occupancy.findFreeColumn(160, 0, 3, 1)).toBe(304);
+    expect(occupancy.findFreeColumn(410, 4, 0, 0)).toBe(424);
+  });
+
+  it('matches checking every row in between', () => {
+    for (let x = -20; x <= 440; x += 7) {
+      for (let from = 0; from < extents.length; from++) {
+        for (let to = 0; to < extents.length; to++) {
+          [-1, 0, 1].forEach(direction => {
+            expect(occupancy.findFreeColumn(x, from, to, direction)).toBe(findFreeColumnByScanning(x, from, to, direction));
+          });
+        }
+      }
+    }
+  });
+});
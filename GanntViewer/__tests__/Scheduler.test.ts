@@ -0,0 +1,85 @@
+import { rescheduleTask } from '../Scheduler';
+import { TaskData, TaskLink } from '../types';
+import { WorkCalendar } from '../WorkCalendar';
+
+const makeTask = (taskDataId: string, startDate: Date, finishDate: Date, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate,
+  finishDate,
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const link = (predecessorId: string, successorId: string, type: TaskLink['type'] = 'FinishToStart', lag = 0): TaskLink =>
+  ({ predecessorId, successorId, type, lag });
+
+const day = (date: number) => new Date(2025, 0, date);
+
+describe('rescheduleTask', () => {
+  const tasks = [
+    makeTask('summary', day(6), day(10), { isSummaryTask: true }),
+    makeTask('a', day(6), day(8), { parentTask: 'summary' }),
+    makeTask('b', day(8), day(10), { parentTask: 'summary' }),
+    makeTask('c', day(13), day(14))
+  ];
+  const links = [link('a', 'b'), link('b', 'c')];
+
+  it('pushes successors the move makes late and rolls up their summaries', () => {
+    const changes = rescheduleTask(tasks, links, 'a', { startDate: day(7), finishDate: day(9) }, { pullSuccessors: false });
+
+    expect(changes.map(change => [change.taskId, change.reason, change.startDate, change.finishDate])).toEqual([
+      ['a', 'moved', day(7), day(9)],
+      ['summary', 'summary', day(7), day(11)],
+      ['b', 'pushed', day(9), day(11)]
+    ]);
+    expect(changes[2]).toMatchObject({ originalStart: day(8), originalFinish: day(10), duration: 2 });
+  });
+
+  it('pulls successors earlier only when asked to', () => {
+    const moveEarlier = { startDate: day(3), finishDate: day(5) };
+
+    expect(rescheduleTask(tasks, links, 'a', moveEarlier, { pullSuccessors: false }).map(change => change.taskId))
+      .toEqual(['a', 'summary']);
+
+    const changes = rescheduleTask(tasks, links, 'a', moveEarlier, { pullSuccessors: true });
+    expect(changes.map(change => [change.taskId, change.reason, change.startDate])).toEqual([
+      ['a', 'moved', day(3)],
+      ['summary', 'summary', day(3)],
+      ['b', 'pulled', day(5)],
+      ['c', 'pulled', day(7)]
+    ]);
+  });
+
+  it('applies lag and link types', () => {
+    const changes = rescheduleTask(
+      tasks,
+      [link('a', 'c', 'StartToStart', 2)],
+      'a',
+      { startDate: day(12), finishDate: day(14) },
+      { pullSuccessors: false }
+    );
+
+    expect(changes.find(change => change.taskId === 'c')).toMatchObject({ startDate: day(14), finishDate: day(15) });
+  });
+
+  it('keeps durations in working days and starts on a working day with a calendar', () => {
+    const weekdays: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: new Set(['2025-01-13']) };
+    // a moves to Friday, so b skips the weekend and the Monday holiday
+    const calendarTasks = [makeTask('a', day(6), day(7)), makeTask('b', day(7), day(9))];
+
+    const changes = rescheduleTask(calendarTasks, [link('a', 'b')], 'a', { startDate: day(10), finishDate: day(11) }, {
+      pullSuccessors: false,
+      getCalendar: () => weekdays
+    });
+
+    expect(changes[1]).toMatchObject({ taskId: 'b', startDate: day(14), finishDate: day(16), duration: 2 });
+  });
+
+  it('returns nothing for an unknown task', () => {
+    expect(rescheduleTask(tasks, links, 'missing', { startDate: day(7), finishDate: day(9) }, { pullSuccessors: false })).toEqual([]);
+  });
+});
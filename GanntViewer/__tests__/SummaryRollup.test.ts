@@ -0,0 +1,90 @@
+import { isEditableColumn } from '../GridEditing';
+import { markSummaryTasks, rollupTasks } from '../SummaryRollup';
+import { TaskData } from '../types';
+
+const makeTask = (taskDataId: string, startDate: Date, finishDate: Date, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate,
+  finishDate,
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const day = (date: number) => new Date(2025, 0, date);
+
+describe('rollupTasks', () => {
+  const tasks = [
+    makeTask('top', day(1), day(2), { isSummaryTask: true }),
+    makeTask('summary', day(6), day(10), { isSummaryTask: true, parentTask: 'top', progress: 0 }),
+    makeTask('a', day(6), day(8), { parentTask: 'summary', progress: 0.5 }),
+    makeTask('b', day(8), day(12), { parentTask: 'summary', progress: 0.2 }),
+    makeTask('c', day(13), day(14), { parentTask: 'top' })
+  ];
+
+  it('derives summary dates and duration-weighted progress bottom-up', () => {
+    const [top, summary, a] = rollupTasks(tasks);
+
+    expect(summary).toMatchObject({ startDate: day(6), finishDate: day(12), duration: 6 });
+    expect(summary.progress).toBeCloseTo(0.3);
+    expect(top).toMatchObject({ startDate: day(6), finishDate: day(14), duration: 8 });
+    expect(top.progress).toBeCloseTo(1.8 / 7);
+    expect(a).toBe(tasks[2]);
+  });
+
+  it('averages progress when no child has a duration', () => {
+    const [summary] = rollupTasks([
+      makeTask('summary', day(6), day(6), { isSummaryTask: true }),
+      makeTask('m1', day(6), day(6), { parentTask: 'summary', progress: 1 }),
+      makeTask('m2', day(7), day(7), { parentTask: 'summary' })
+    ]);
+
+    expect(summary).toMatchObject({ startDate: day(6), finishDate: day(7), progress: 0.5 });
+  });
+
+  it('flags stored summary values that disagree with the children', () => {
+    const summary = rollupTasks(tasks, { flagMismatches: true })[1];
+
+    expect(summary.rollupMismatches).toEqual([
+      expect.stringMatching(/^Finish /),
+      'Progress 0% (children 30%)'
+    ]);
+    expect(rollupTasks(tasks)[1].rollupMismatches).toBeUndefined();
+  });
+
+  it('only rolls up the requested summaries', () => {
+    const [top, summary] = rollupTasks(tasks, { onlyTaskIds: new Set(['summary']) });
+
+    expect(top).toBe(tasks[0]);
+    expect(summary.finishDate).toEqual(day(12));
+  });
+
+  it('leaves parents that are not summary tasks alone', () => {
+    const parent = makeTask('parent', day(1), day(2));
+
+    expect(rollupTasks([parent, makeTask('child', day(6), day(8), { parentTask: 'parent' })])[0]).toBe(parent);
+  });
+});
+
+describe('markSummaryTasks', () => {
+  it('makes tasks with children summaries and all others plain tasks', () => {
+    const tasks = markSummaryTasks([
+      makeTask('group', day(1), day(2)),
+      makeTask('child', day(6), day(8), { parentTask: 'group', isSummaryTask: true })
+    ]);
+
+    expect(tasks.map(task => task.isSummaryTask)).toEqual([true, false]);
+  });
+
+  it('keeps a childless task plain whatever its name', () => {
+    const review = makeTask('review', day(6), day(8), { taskName: 'Phase 1 review', progress: 0.4 });
+    const [task] = rollupTasks(markSummaryTasks([review, makeTask('other', day(1), day(2))]));
+
+    expect(task).toBe(review);
+    expect(isEditableColumn('startDate', task)).toBe(true);
+    expect(isEditableColumn('progress', task)).toBe(true);
+  });
+});
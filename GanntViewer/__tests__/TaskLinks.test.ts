@@ -0,0 +1,120 @@
+import { buildLinksFromTasks, parseLinkTableMapping, parseSuccessorField, toSuccessorFields } from '../TaskLinks';
+import { TaskData, TaskLink } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: new Date(2025, 0, 6),
+  finishDate: new Date(2025, 0, 7),
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+describe('parseSuccessorField', () => {
+  it('reads references with optional type and lag', () => {
+    expect(parseSuccessorField('12;15SS+2d;18FF-1.5 days, 20sf', 'FinishToStart')).toEqual([
+      { reference: '12', type: 'FinishToStart', lag: 0 },
+      { reference: '15', type: 'StartToStart', lag: 2 },
+      { reference: '18', type: 'FinishToFinish', lag: -1.5 },
+      { reference: '20', type: 'StartToFinish', lag: 0 }
+    ]);
+  });
+
+  it('uses the default type for plain references', () => {
+    expect(parseSuccessorField('12', 'StartToStart')).toEqual([{ reference: '12', type: 'StartToStart', lag: 0 }]);
+  });
+
+  it('keeps GUIDs whole and normalizes them', () => {
+    const id = '{0A1B2C3D-0000-0000-0000-00000000FF5F}';
+    expect(parseSuccessorField(id, 'FinishToStart')).toEqual([
+      { reference: '0a1b2c3d-0000-0000-0000-00000000ff5f', type: 'FinishToStart', lag: 0 }
+    ]);
+  });
+
+  it('returns nothing for an empty field', () => {
+    expect(parseSuccessorField(undefined, 'FinishToStart')).toEqual([]);
+    expect(parseSuccessorField(' ; ', 'FinishToStart')).toEqual([]);
+  });
+});
+
+describe('buildLinksFromTasks', () => {
+  it('resolves references by task number and drops unknown tasks and self links', () => {
+    const tasks = [
+      makeTask('a', { taskNumber: '1', successor: '2SS+1d;99;1' }),
+      makeTask('b', { taskNumber: '2' })
+    ];
+
+    expect(buildLinksFromTasks(tasks)).toEqual([
+      { predecessorId: 'a', successorId: 'b', type: 'StartToStart', lag: 1 }
+    ]);
+  });
+
+  it('prefers successorUID when it lines up with successor', () => {
+    const tasks = [
+      makeTask('a', { successor: '2;3FF', successorUID: 'c;b' }),
+      makeTask('b', { taskNumber: '2' }),
+      makeTask('c', { taskNumber: '3' })
+    ];
+
+    expect(buildLinksFromTasks(tasks)).toEqual([
+      { predecessorId: 'a', successorId: 'c', type: 'FinishToStart', lag: 0 },
+      { predecessorId: 'a', successorId: 'b', type: 'FinishToFinish', lag: 0 }
+    ]);
+  });
+});
+
+describe('toSuccessorFields', () => {
+  const tasks = [makeTask('a', { taskNumber: '1' }), makeTask('b', { taskNumber: '2' }), makeTask('c'), makeTask('d', { taskNumber: '4' })];
+  const getTask = (taskId: string) => tasks.find(task => task.taskDataId === taskId);
+
+  it('writes plain references for links of the first type without lag', () => {
+    const links: TaskLink[] = [
+      { predecessorId: 'a', successorId: 'b', type: 'FinishToStart', lag: 0 },
+      { predecessorId: 'a', successorId: 'c', type: 'StartToStart', lag: -2 },
+      { predecessorId: 'a', successorId: 'd', type: 'FinishToStart', lag: 3 }
+    ];
+
+    expect(toSuccessorFields(links, getTask)).toEqual({
+      successor: '2;cSS-2d;4FS+3d',
+      successorUID: 'b;c;d',
+      dependencyType: 'FinishToStart'
+    });
+  });
+
+  it('clears the fields without links', () => {
+    expect(toSuccessorFields([], getTask)).toEqual({ successor: undefined, successorUID: undefined, dependencyType: undefined });
+  });
+
+  it('reads back the links it writes', () => {
+    const links: TaskLink[] = [
+      { predecessorId: 'a', successorId: 'b', type: 'StartToStart', lag: 0 },
+      { predecessorId: 'a', successorId: 'c', type: 'FinishToFinish', lag: 1.5 },
+      { predecessorId: 'a', successorId: 'd', type: 'StartToStart', lag: -1 }
+    ];
+    const predecessor = { ...tasks[0], ...toSuccessorFields(links, getTask) };
+
+    expect(buildLinksFromTasks([predecessor, ...tasks.slice(1)])).toEqual(links);
+  });
+});
+
+describe('parseLinkTableMapping', () => {
+  it('reads links from the successor column without a value', () => {
+    expect(parseLinkTableMapping('')).toEqual({ mapping: null, warnings: [] });
+  });
+
+  it('derives the columns from a table name', () => {
+    expect(parseLinkTableMapping('new_tasklink').mapping).toEqual({
+      tableName: 'new_tasklink',
+      columns: {
+        linkId: 'new_tasklinkid',
+        predecessor: 'new_predecessortask',
+        successor: 'new_successortask',
+        type: 'new_dependencytype',
+        lag: 'new_lag'
+      }
+    });
+  });
+});
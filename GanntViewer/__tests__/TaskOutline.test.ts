@@ -0,0 +1,141 @@
+import { canMoveTask, getIndentTarget, getOutdentTarget, getOutlineNumbers, moveTaskInOutline } from '../TaskOutline';
+import { TaskStore } from '../TaskStore';
+import { TaskData } from '../types';
+
+const makeTask = (taskDataId: string, startDate: Date, finishDate: Date, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate,
+  finishDate,
+  projectId: 'PRJ-001',
+  projectUID: '',
+  progress: 0,
+  ...changes
+});
+
+const day = (date: number) => new Date(2025, 0, date);
+
+// 1 parent
+//   1.1 a
+//   1.2 b
+// 2 c
+// 3 milestone
+const createStore = () => {
+  const store = new TaskStore();
+  store.setTasks([
+    makeTask('parent', day(6), day(10), { isSummaryTask: true, taskIndex: 1, wbs: '1' }),
+    makeTask('a', day(6), day(8), { parentTask: 'parent', taskIndex: 2, wbs: '1.1' }),
+    makeTask('b', day(8), day(10), { parentTask: 'parent', taskIndex: 3, wbs: '1.2' }),
+    makeTask('c', day(13), day(14), { taskIndex: 4, wbs: '2' }),
+    makeTask('milestone', day(15), day(15), { isMilestone: true, taskIndex: 5, wbs: '3' })
+  ]);
+  return store;
+};
+
+const createMilestoneStore = () => {
+  const store = new TaskStore();
+  store.setTasks([makeTask('milestone', day(6), day(6), { isMilestone: true }), makeTask('d', day(6), day(7))]);
+  return store;
+};
+
+describe('getOutlineNumbers', () => {
+  it('numbers tasks by their position among their siblings', () => {
+    expect(Array.from(getOutlineNumbers(createStore()))).toEqual([
+      ['parent', '1'], ['a', '1.1'], ['b', '1.2'], ['c', '2'], ['milestone', '3']
+    ]);
+  });
+});
+
+describe('canMoveTask', () => {
+  const store = createStore();
+
+  it('refuses drops on the task itself, below it or into a milestone', () => {
+    expect(canMoveTask(store, 'a', 'a', 'after')).toBe(false);
+    expect(canMoveTask(store, 'parent', 'b', 'child')).toBe(false);
+    expect(canMoveTask(store, 'c', 'milestone', 'child')).toBe(false);
+    expect(canMoveTask(store, 'c', 'milestone', 'after')).toBe(true);
+    expect(canMoveTask(store, 'c', 'missing', 'after')).toBe(false);
+  });
+});
+
+describe('indent and outdent', () => {
+  const store = createStore();
+
+  it('indents under the sibling above, except below milestones or as the first sibling', () => {
+    expect(getIndentTarget(store, 'b')).toEqual({ targetId: 'a', position: 'child' });
+    expect(getIndentTarget(store, 'c')).toEqual({ targetId: 'parent', position: 'child' });
+    expect(getIndentTarget(store, 'a')).toBeNull();
+    expect(getIndentTarget(createMilestoneStore(), 'd')).toBeNull();
+  });
+
+  it('outdents to right after the parent', () => {
+    expect(getOutdentTarget(store, 'a')).toEqual({ targetId: 'parent', position: 'after' });
+    expect(getOutdentTarget(store, 'c')).toBeNull();
+  });
+});
+
+describe('moveTaskInOutline', () => {
+  it('moves a task into another parent, renumbers the outline and rolls up the parent', () => {
+    const changes = moveTaskInOutline(createStore(), 'c', 'a', 'before', { includeWbs: true });
+
+    expect(changes).toEqual([
+      { taskId: 'parent', changes: { startDate: day(6), finishDate: day(14), duration: 8 } },
+      { taskId: 'c', changes: { parentTask: 'parent', taskIndex: 2, wbs: '1.1' } },
+      { taskId: 'a', changes: { taskIndex: 3, wbs: '1.2' } },
+      { taskId: 'b', changes: { taskIndex: 4, wbs: '1.3' } },
+      { taskId: 'milestone', changes: { wbs: '2' } }
+    ]);
+  });
+
+  it('leaves outline numbers alone without a WBS column', () => {
+    const changes = moveTaskInOutline(createStore(), 'milestone', 'parent', 'before', { includeWbs: false });
+
+    expect(changes.map(change => [change.taskId, change.changes.taskIndex, change.changes.wbs])).toEqual([
+      ['milestone', 1, undefined],
+      ['parent', 2, undefined],
+      ['a', 3, undefined],
+      ['b', 4, undefined],
+      ['c', 5, undefined]
+    ]);
+  });
+
+  it('makes the new parent a summary rolled up from its child', () => {
+    const changes = moveTaskInOutline(createStore(), 'b', 'c', 'child', { includeWbs: false });
+
+    expect(changes).toEqual([
+      { taskId: 'parent', changes: { startDate: day(6), finishDate: day(8), duration: 2 } },
+      { taskId: 'c', changes: { taskIndex: 3, isSummaryTask: true, startDate: day(8), finishDate: day(10), duration: 2 } },
+      { taskId: 'b', changes: { parentTask: 'c', taskIndex: 4 } }
+    ]);
+  });
+
+  it('turns a parent whose last child moves out into a plain task', () => {
+    const store = new TaskStore();
+    store.setTasks([
+      makeTask('parent', day(6), day(8), { isSummaryTask: true, taskIndex: 1 }),
+      makeTask('a', day(6), day(8), { parentTask: 'parent', taskIndex: 2 })
+    ]);
+
+    const changes = moveTaskInOutline(store, 'a', 'parent', 'before', { includeWbs: false });
+
+    expect(changes.map(change => [change.taskId, change.changes.isSummaryTask, change.changes.taskIndex])).toEqual([
+      ['a', undefined, 1],
+      ['parent', false, 2]
+    ]);
+  });
+
+  it('clears the parent when outdenting to the top level', () => {
+    const changes = moveTaskInOutline(createStore(), 'a', 'parent', 'after', { includeWbs: true });
+    const moved = changes.find(change => change.taskId === 'a')!.changes;
+
+    expect('parentTask' in moved && moved.parentTask === undefined).toBe(true);
+    expect(moved).toMatchObject({ taskIndex: 3, wbs: '2' });
+    expect(changes.find(change => change.taskId === 'parent')?.changes).toEqual({ startDate: day(8), finishDate: day(10), duration: 2 });
+  });
+
+  it('returns no changes for a move that is not allowed', () => {
+    expect(moveTaskInOutline(createStore(), 'parent', 'a', 'child', { includeWbs: true })).toEqual([]);
+  });
+});
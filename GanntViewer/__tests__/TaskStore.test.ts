@@ -0,0 +1,132 @@
+import { TaskStore } from '../TaskStore';
+import { TaskData, TaskLink } from '../types';
+
+const makeTask = (taskDataId: string, changes: Partial<TaskData> = {}): TaskData => ({
+  taskNumber: '',
+  taskDataId,
+  taskName: taskDataId,
+  taskPhase: 'Planning',
+  startDate: new Date(2025, 0, 6),
+  finishDate: new Date(2025, 0, 8),
+  projectId: 'PRJ-001',
+  projectUID: '',
+  ...changes
+});
+
+const ids = (tasks: TaskData[]) => tasks.map(task => task.taskDataId);
+
+// parent
+//   a
+//     a1
+//   b
+// c (parent not loaded)
+const createTasks = () => [
+  makeTask('parent'),
+  makeTask('a', { parentTask: 'parent' }),
+  makeTask('a1', { parentTask: 'a' }),
+  makeTask('b', { parentTask: 'parent' }),
+  makeTask('c', { parentTask: 'missing' })
+];
+
+describe('setTasks', () => {
+  it('indexes tasks by id and by parent in list order', () => {
+    const store = new TaskStore();
+    store.setTasks(createTasks());
+
+    expect(store.size).toBe(5);
+    expect(store.getTask('a1')?.parentTask).toBe('a');
+    expect(ids(store.getChildren('parent'))).toEqual(['a', 'b']);
+    expect(ids(store.getChildren('missing'))).toEqual(['c']);
+    expect(store.hasChildren('a')).toBe(true);
+    expect(store.hasChildren('b')).toBe(false);
+  });
+
+  it('keeps the first of tasks with the same id', () => {
+    const store = new TaskStore();
+    store.setTasks([makeTask('a', { taskName: 'First' }), makeTask('a', { taskName: 'Second' })]);
+
+    expect(store.size).toBe(1);
+    expect(store.getTask('a')?.taskName).toBe('First');
+  });
+
+  it('only changes the version when tasks change', () => {
+    const store = new TaskStore();
+    const tasks = createTasks();
+    store.setTasks(tasks);
+    const version = store.version;
+
+    store.setTasks([...tasks]);
+    expect(store.version).toBe(version);
+
+    store.setTasks(tasks.map(task => task.taskDataId === 'b' ? { ...task, taskName: 'Build' } : task));
+    expect(store.version).toBe(version + 1);
+    expect(store.getTask('b')?.taskName).toBe('Build');
+  });
+
+  it('updates the parent index for moved, added and removed tasks', () => {
+    const store = new TaskStore();
+    const [parent, a, a1, b, c] = createTasks();
+    store.setTasks([parent, a, a1, b, c]);
+
+    store.setTasks([parent, a, { ...a1, parentTask: 'parent' }, makeTask('d', { parentTask: 'a' }), c]);
+
+    expect(ids(store.getChildren('parent'))).toEqual(['a', 'a1']);
+    expect(ids(store.getChildren('a'))).toEqual(['d']);
+    expect(store.hasTask('b')).toBe(false);
+  });
+
+  it('re-sorts children when the list is reordered', () => {
+    const store = new TaskStore();
+    const [parent, a, a1, b, c] = createTasks();
+    store.setTasks([parent, a, a1, b, c]);
+    expect(ids(store.getChildren('parent'))).toEqual(['a', 'b']);
+
+    store.setTasks([parent, b, a, a1, c]);
+
+    expect(ids(store.getChildren('parent'))).toEqual(['b', 'a']);
+    expect(ids(store.getTasks())).toEqual(['parent', 'b', 'a', 'a1', 'c']);
+  });
+});
+
+describe('hierarchy', () => {
+  const store = new TaskStore();
+  store.setTasks(createTasks());
+
+  it('treats tasks whose parent is not loaded as roots', () => {
+    expect(ids(store.getRootTasks())).toEqual(['parent', 'c']);
+  });
+
+  it('lists descendants depth first and ancestors up to the root', () => {
+    expect(store.getDescendantIds('parent')).toEqual(['a', 'a1', 'b']);
+    expect(store.getAncestorIds('a1')).toEqual(['a', 'parent']);
+    expect(store.getAncestorIds('c')).toEqual([]);
+  });
+
+  it('stops at parent loops', () => {
+    const loop = new TaskStore();
+    loop.setTasks([makeTask('x', { parentTask: 'y' }), makeTask('y', { parentTask: 'x' })]);
+
+    expect(loop.getDescendantIds('x')).toEqual(['y']);
+    expect(loop.getAncestorIds('x')).toEqual(['y']);
+  });
+});
+
+describe('setLinks', () => {
+  it('indexes links by predecessor and successor', () => {
+    const store = new TaskStore();
+    const links: TaskLink[] = [
+      { predecessorId: 'a', successorId: 'b', type: 'FinishToStart', lag: 0 },
+      { predecessorId: 'a', successorId: 'c', type: 'StartToStart', lag: 2 },
+      { predecessorId: 'b', successorId: 'c', type: 'FinishToStart', lag: 0 }
+    ];
+    const version = store.version;
+
+    store.setLinks(links);
+
+    expect(store.version).toBe(version + 1);
+    expect(store.getSuccessorLinks('a')).toEqual(links.slice(0, 2));
+    expect(store.getPredecessorLinks('c')).toEqual(links.slice(1));
+    expect(store.getLink('a', 'c')).toBe(links[1]);
+    expect(store.getLink('c', 'a')).toBeUndefined();
+  });
+});
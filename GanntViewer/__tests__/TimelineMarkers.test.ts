@@ -0,0 +1,93 @@
+import { DEFAULT_MARKER_COLOR, createMarker, parseMarkerDate, parseMarkerSettings } from '../TimelineMarkers';
+
+const day = (date: number) => new Date(2025, 0, date);
+
+describe('parseMarkerDate', () => {
+  it('reads plain dates as local dates', () => {
+    expect(parseMarkerDate('2025-01-06')).toEqual(day(6));
+    expect(parseMarkerDate(' 2025-01-06 ')).toEqual(day(6));
+    expect(parseMarkerDate('2025-01-06T12:00:00Z')).toEqual(new Date(Date.UTC(2025, 0, 6, 12)));
+  });
+
+  it('returns null for values that are not dates', () => {
+    expect(parseMarkerDate('next week')).toBeNull();
+    expect(parseMarkerDate(new Date(NaN))).toBeNull();
+    expect(parseMarkerDate(20250106)).toBeNull();
+    expect(parseMarkerDate('')).toBeNull();
+  });
+});
+
+describe('createMarker', () => {
+  it('builds a window from a date and a later end date', () => {
+    expect(createMarker('freeze', { label: 'Code freeze', date: '2025-01-06', endDate: '2025-01-10', color: ' #c0392b ', lineStyle: 'dashed' })).toEqual({
+      id: 'freeze',
+      label: 'Code freeze',
+      date: day(6),
+      endDate: day(10),
+      color: '#c0392b',
+      tooltip: undefined,
+      lineStyle: 'dashed'
+    });
+  });
+
+  it('drops end dates before the date and colors that are not CSS colors', () => {
+    expect(createMarker('a', { date: '2025-01-06', endDate: '2025-01-05', color: 'url(x)' })).toMatchObject({
+      label: '',
+      endDate: undefined,
+      color: DEFAULT_MARKER_COLOR,
+      lineStyle: 'solid'
+    });
+  });
+
+  it('returns null without a valid date', () => {
+    expect(createMarker('a', { label: 'Deadline' })).toBeNull();
+  });
+});
+
+describe('parseMarkerSettings', () => {
+  it('shows the today line without configuration', () => {
+    expect(parseMarkerSettings(null)).toEqual({ settings: { showToday: true, markers: [] }, warnings: [] });
+  });
+
+  it('reads the status date, markers and marker table', () => {
+    const { settings, warnings } = parseMarkerSettings(JSON.stringify({
+      showToday: false,
+      statusDate: '2025-01-10',
+      markers: [{ label: 'Deadline', date: '2025-01-20' }],
+      markerTable: { tableName: 'pme_timelinemarker', date: 'pme_date', color: ' ' }
+    }));
+
+    expect(warnings).toEqual([]);
+    expect(settings.showToday).toBe(false);
+    expect(settings.statusDate).toEqual(day(10));
+    expect(settings.markers).toMatchObject([{ id: 'config-0', label: 'Deadline', date: day(20) }]);
+    expect(settings.markerTable).toEqual({
+      tableName: 'pme_timelinemarker',
+      label: 'pme_name',
+      date: 'pme_date',
+      endDate: undefined,
+      color: undefined,
+      tooltip: undefined
+    });
+  });
+
+  it('treats a null status date as no status line', () => {
+    expect(parseMarkerSettings('{"statusDate": null}')).toEqual({ settings: { showToday: true, markers: [] }, warnings: [] });
+  });
+
+  it('warns about values it ignores', () => {
+    const { settings, warnings } = parseMarkerSettings('{"statusDate": "soon", "markers": [{"label": "Deadline"}], "markerTable": {"tableName": "pme_timelinemarker"}}');
+
+    expect(settings).toEqual({ showToday: true, markers: [] });
+    expect(warnings).toEqual([
+      'Status date "soon" is not a date and was ignored',
+      'Timeline marker {"label":"Deadline"} has no valid date and was ignored',
+      'Timeline markerTable needs a tableName and a date column and was ignored'
+    ]);
+  });
+
+  it('ignores invalid JSON and values that are not objects', () => {
+    expect(parseMarkerSettings('{statusDate').warnings[0]).toMatch(/^Timeline markers are not valid JSON and were ignored: /);
+    expect(parseMarkerSettings('[]').warnings).toEqual(['Timeline markers must be a JSON object and were ignored']);
+  });
+});
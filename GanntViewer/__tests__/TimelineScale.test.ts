@@ -0,0 +1,104 @@
+import {
+  MAX_PIXELS_PER_DAY,
+  MIN_PIXELS_PER_DAY,
+  addSnapUnits,
+  addZoomUnits,
+  clampPixelsPerDay,
+  getHeaderTiers,
+  getTimelineWidth,
+  getZoomLevelForScale,
+  getZoomPixelsPerDay,
+  isScaleLimitedByWidth,
+  parseHeaderTiers,
+  snapToZoomUnit,
+  startOfZoomUnit
+} from '../TimelineScale';
+
+const day = (date: number, hours = 0, minutes = 0) => new Date(2025, 0, date, hours, minutes);
+
+describe('zoom scales', () => {
+  it('picks the finest level whose header cells are still readable', () => {
+    expect(getZoomLevelForScale(getZoomPixelsPerDay('Hour'))).toBe('Hour');
+    expect(getZoomLevelForScale(getZoomPixelsPerDay('Day'))).toBe('Day');
+    expect(getZoomLevelForScale(24 * 24 - 1)).toBe('Day');
+    expect(getZoomLevelForScale(getZoomPixelsPerDay('Quarter'))).toBe('Quarter');
+    expect(getZoomLevelForScale(MIN_PIXELS_PER_DAY)).toBe('Year');
+  });
+
+  it('limits the scale to the supported range and a timeline width browsers can lay out', () => {
+    expect(clampPixelsPerDay(0.01, day(1), day(31))).toBe(MIN_PIXELS_PER_DAY);
+    expect(clampPixelsPerDay(5000, day(1), day(31))).toBe(MAX_PIXELS_PER_DAY);
+
+    const start = new Date(2000, 0, 1);
+    const end = new Date(2050, 0, 1);
+    const pixelsPerDay = clampPixelsPerDay(MAX_PIXELS_PER_DAY, start, end);
+
+    expect(getTimelineWidth(pixelsPerDay, start, end)).toBeLessThanOrEqual(15000000);
+    expect(isScaleLimitedByWidth(pixelsPerDay, start, end)).toBe(true);
+    expect(isScaleLimitedByWidth(getZoomPixelsPerDay('Day'), day(1), day(31))).toBe(false);
+  });
+});
+
+describe('zoom units', () => {
+  it('finds the start of the unit containing a date', () => {
+    expect(startOfZoomUnit(day(8, 13, 45), 'Hour')).toEqual(day(8, 13));
+    expect(startOfZoomUnit(day(8, 13, 45), 'Week')).toEqual(day(5)); // Sunday
+    expect(startOfZoomUnit(new Date(2025, 4, 20), 'Quarter')).toEqual(new Date(2025, 3, 1));
+    expect(startOfZoomUnit(new Date(2025, 11, 31, 23, 59), 'Year')).toEqual(new Date(2025, 0, 1));
+  });
+
+  it('steps across day and year boundaries', () => {
+    expect(addZoomUnits(day(8, 23), 'Hour', 1)).toEqual(day(9));
+    expect(addZoomUnits(new Date(2024, 11, 31, 23), 'Hour', 1)).toEqual(new Date(2025, 0, 1));
+    expect(addZoomUnits(new Date(2024, 10, 1), 'Quarter', 1)).toEqual(new Date(2025, 1, 1));
+    expect(addZoomUnits(new Date(2024, 0, 1), 'Year', 1)).toEqual(new Date(2025, 0, 1));
+  });
+});
+
+describe('snapping', () => {
+  it('rounds to the nearest hour, day or week at those zoom levels', () => {
+    expect(snapToZoomUnit(day(8, 13, 29), 'Hour')).toEqual(day(8, 13));
+    expect(snapToZoomUnit(day(8, 13, 30), 'Hour')).toEqual(day(8, 14));
+    expect(snapToZoomUnit(day(8, 23, 40), 'Hour')).toEqual(day(9));
+    expect(snapToZoomUnit(day(8, 11), 'Day')).toEqual(day(8));
+    expect(snapToZoomUnit(day(8, 12), 'Day')).toEqual(day(9));
+    expect(snapToZoomUnit(day(8), 'Week')).toEqual(day(5));
+    expect(snapToZoomUnit(day(9), 'Week')).toEqual(day(12));
+  });
+
+  it('rounds to the nearest month when zoomed out further', () => {
+    expect(snapToZoomUnit(day(10), 'Month')).toEqual(day(1));
+    expect(snapToZoomUnit(day(20), 'Quarter')).toEqual(new Date(2025, 1, 1));
+    expect(snapToZoomUnit(new Date(2024, 11, 20), 'Year')).toEqual(new Date(2025, 0, 1));
+  });
+
+  it('steps by the snap unit', () => {
+    expect(addSnapUnits(day(8, 13), 'Hour', -1)).toEqual(day(8, 12));
+    expect(addSnapUnits(day(8), 'Week', 1)).toEqual(day(15));
+    expect(addSnapUnits(day(1), 'Year', 1)).toEqual(new Date(2025, 1, 1));
+  });
+});
+
+describe('header tiers', () => {
+  it('parses the configured tiers, skipping unknown names', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(parseHeaderTiers(' year, Fortnight,, Month ')).toEqual(['Year', 'Month']);
+    expect(warn).toHaveBeenCalledWith('Unknown timeline header tier "fortnight" was ignored');
+    expect(parseHeaderTiers('Fortnight')).toBeUndefined();
+    expect(parseHeaderTiers(' ')).toBeUndefined();
+    expect(parseHeaderTiers(null)).toBeUndefined();
+
+    warn.mockRestore();
+  });
+
+  it('follows the zoom level without configured tiers', () => {
+    expect(getHeaderTiers('Hour')).toEqual(['Day', 'Hour']);
+    expect(getHeaderTiers('Year')).toEqual(['Year']);
+  });
+
+  it('orders configured tiers coarsest first and leaves out the ones finer than the zoom level', () => {
+    expect(getHeaderTiers('Day', ['Day', 'Year', 'Hour', 'Year'])).toEqual(['Year', 'Day']);
+    expect(getHeaderTiers('Month', ['Week', 'Day'])).toEqual(['Month']);
+  });
+});
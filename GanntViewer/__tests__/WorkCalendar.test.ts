@@ -0,0 +1,108 @@
+import {
+  WorkCalendar,
+  addHoliday,
+  addWorkingDays,
+  getNonWorkingRanges,
+  getTaskCalendar,
+  getWorkingDays,
+  getWorkingDuration,
+  isWorkingDay,
+  nextWorkingTime,
+  parseCalendarSettings
+} from '../WorkCalendar';
+
+const day = (date: number, hours = 0) => new Date(2025, 0, date, hours);
+
+// Monday to Friday with Monday 13 January off; 10 January 2025 is a Friday
+const weekdays: WorkCalendar = { workingDays: [1, 2, 3, 4, 5], holidays: new Set(['2025-01-13']) };
+
+describe('parseCalendarSettings', () => {
+  it('works every day without a value', () => {
+    const { settings, warnings } = parseCalendarSettings('');
+
+    expect(settings.defaultCalendar.workingDays).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(settings.projectCalendars.size).toBe(0);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads working days, holidays, project calendars and the holiday table', () => {
+    const { settings, warnings } = parseCalendarSettings(JSON.stringify({
+      workingDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+      holidays: ['2025-12-25', '25/12/2025'],
+      projects: { 'PRJ-002': { workingDays: ['Monday', 2], holidays: ['2025-01-02'] } },
+      holidayTable: { tableName: 'pme_holiday', date: 'pme_date', project: 'pme_projectid' }
+    }));
+
+    expect(settings.defaultCalendar).toEqual({ workingDays: [1, 2, 3, 4, 5], holidays: new Set(['2025-12-25']) });
+    expect(settings.projectCalendars.get('PRJ-002')).toEqual({ workingDays: [1, 2], holidays: new Set(['2025-12-25', '2025-01-02']) });
+    expect(settings.holidayTable).toEqual({ tableName: 'pme_holiday', date: 'pme_date', project: 'pme_projectid' });
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('warns about invalid JSON and keeps the defaults', () => {
+    const { settings, warnings } = parseCalendarSettings('{"workingDays": ');
+
+    expect(settings.defaultCalendar.workingDays).toHaveLength(7);
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('project calendars', () => {
+  it('falls back to the default calendar and shares default holidays', () => {
+    const { settings } = parseCalendarSettings('{"projects": {"PRJ-002": {"workingDays": ["Mon"]}}}');
+    addHoliday(settings, '2025-01-06');
+
+    expect(getTaskCalendar(settings, { projectId: 'PRJ-001', projectUID: '' })).toBe(settings.defaultCalendar);
+    expect(getTaskCalendar(settings, { projectId: 'x', projectUID: 'PRJ-002' }).holidays.has('2025-01-06')).toBe(true);
+    expect(settings.defaultCalendar.holidays.has('2025-01-06')).toBe(true);
+  });
+});
+
+describe('working days', () => {
+  it('skips weekends and holidays', () => {
+    expect(isWorkingDay(weekdays, day(10))).toBe(true);
+    expect(isWorkingDay(weekdays, day(11))).toBe(false);
+    expect(isWorkingDay(weekdays, day(13))).toBe(false);
+    expect(isWorkingDay(weekdays, day(14))).toBe(true);
+  });
+
+  it('adds working days forwards and backwards', () => {
+    expect(addWorkingDays(weekdays, day(10), 1)).toEqual(day(11));
+    expect(addWorkingDays(weekdays, day(10), 2)).toEqual(day(15));
+    expect(addWorkingDays(weekdays, day(10, 12), 1)).toEqual(day(14, 12));
+    expect(addWorkingDays(weekdays, day(15), -2)).toEqual(day(10));
+    expect(addWorkingDays(weekdays, day(10), 0)).toEqual(day(10));
+  });
+
+  it('counts back the days it adds', () => {
+    [0.5, 1, 2, 3.25, 7].forEach(days => {
+      const finish = addWorkingDays(weekdays, day(9), days);
+      expect(getWorkingDays(weekdays, day(9), finish)).toBeCloseTo(days);
+      expect(addWorkingDays(weekdays, finish, -days)).toEqual(day(9));
+    });
+  });
+
+  it('counts partly covered days by the share covered', () => {
+    expect(getWorkingDays(weekdays, day(10), day(15))).toBe(2);
+    expect(getWorkingDays(weekdays, day(10, 12), day(11))).toBe(0.5);
+    expect(getWorkingDays(weekdays, day(15), day(10))).toBe(0);
+  });
+
+  it('rounds durations up to whole working days', () => {
+    expect(getWorkingDuration(weekdays, day(10, 12), day(11))).toBe(1);
+    expect(getWorkingDuration(weekdays, day(10), day(15))).toBe(2);
+    expect(getWorkingDuration(weekdays, day(10), day(10))).toBe(0);
+  });
+
+  it('moves non-working times to the next working day', () => {
+    expect(nextWorkingTime(weekdays, day(11, 9))).toEqual(day(14));
+    expect(nextWorkingTime(weekdays, day(10, 9))).toEqual(day(10, 9));
+  });
+
+  it('finds ranges of non-working days', () => {
+    expect(getNonWorkingRanges(weekdays, day(10), day(20))).toEqual([
+      { start: day(11), finish: day(14) },
+      { start: day(18), finish: day(20) }
+    ]);
+  });
+});
@@ -6,6 +6,7 @@ type DataSet = ComponentFramework.PropertyTypes.DataSet;
 
 export class GanntViewer implements ComponentFramework.ReactControl<IInputs, IOutputs> {
     private notifyOutputChanged: () => void;
+    private dataVersion = 0; // Bumped whenever the framework reports new dataset data
 
     /**
      * Empty constructor.
@@ -35,8 +36,13 @@ export class GanntViewer implements ComponentFramework.ReactControl<IInputs, IOu
      * @returns ReactElement root react element for the control
      */
     public updateView(context: ComponentFramework.Context<IInputs>): React.ReactElement {
+        if (context.updatedProperties.includes("dataset") || context.updatedProperties.includes("sampleDataSet")) {
+            this.dataVersion++;
+        }
+
         const props: IGanttChartProps = { 
             context: context,
+            dataVersion: this.dataVersion,
             height: '100%',
             width: '100%'
         };
@@ -1,4 +1,6 @@
 // Types for TaskData based on Dataverse table structure
+export type DependencyType = 'StartToStart' | 'FinishToStart' | 'FinishToFinish' | 'StartToFinish';
+
 export interface TaskData {
   taskNumber: string;
   taskDataId: string;
@@ -6,16 +8,33 @@ export interface TaskData {
   taskPhase: 'Initiation' | 'Planning' | 'Selection' | 'Execution' | 'Closure';
   startDate: Date;
   finishDate: Date;
+  baselineStart?: Date; // Planned dates the schedule is measured against
+  baselineFinish?: Date;
   projectId: string;
   projectUID: string;
-  dependencyType?: 'StartToStart' | 'FinishToStart' | 'FinishToFinish' | 'StartToFinish';
-  successor?: string;
-  successorUID?: string;
+  dependencyType?: DependencyType; // Type of links in successor that don't name one
+  successor?: string; // Successor task numbers/ids, delimited by ; or , - e.g. "12;15SS+2d"
+  successorUID?: string; // Successor task ids in the same order as successor
   duration?: number;
   progress?: number;
   isSummaryTask?: boolean; // New field: indicates if this is a parent/group task
+  isMilestone?: boolean; // Gate or milestone - from its own column, otherwise true for zero-duration tasks
   parentTask?: string; // New field: ID of the parent task (for child tasks)
     taskIndex?: number; // New field for ordering
+  wbs?: string; // Outline number such as 1.2.3, when the table has a WBS column
+  isIncomplete?: boolean; // True when schedule/phase columns were missing on the record and defaults were used
+  incompleteFields?: string[]; // Names of the missing columns
+  rollupMismatches?: string[]; // Summary values that disagree with the children (when flagging is on)
+  extraFields?: Record<string, string>; // Formatted values of dataset columns that aren't mapped, by column name
 
   
-}
\ No newline at end of file
+}
+
+// A dependency between two tasks, loaded from a link table or parsed from TaskData.successor
+export interface TaskLink {
+  linkId?: string; // Record id when the link comes from a link table
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lag: number; // Days; negative values are lead time
+}